@@ -0,0 +1,190 @@
+'use client';
+
+import { getErrorMessage, type AnalyticsQuery, type TaskPriority, type TaskQuery, type TaskStatus } from '../lib/api';
+import { formatHours } from '../lib/analytics';
+import { useAdminAnalytics } from '../lib/queries';
+import DateRangeControls from './DateRangeControls';
+import DistributionBar from './DistributionBar';
+import TimelineChart, { type TimelineSeries } from './TimelineChart';
+
+// How many users each of the most and least active lists shows.
+const ACTIVITY_LIMIT = 5;
+
+const TIMELINE_SERIES: TimelineSeries<'created' | 'completed'>[] = [
+  { key: 'created', label: 'Created', className: 'bg-indigo-500 hover:bg-indigo-600' },
+  { key: 'completed', label: 'Completed', className: 'bg-green-500 hover:bg-green-600' },
+];
+
+const STATUS_SEGMENTS: { key: TaskStatus; label: string; className: string }[] = [
+  { key: 'pending', label: 'Pending', className: 'bg-gray-400' },
+  { key: 'in_progress', label: 'In Progress', className: 'bg-blue-500' },
+  { key: 'completed', label: 'Completed', className: 'bg-green-500' },
+];
+
+const PRIORITY_SEGMENTS: { key: TaskPriority; label: string; className: string }[] = [
+  { key: 'high', label: 'High', className: 'bg-red-500' },
+  { key: 'medium', label: 'Medium', className: 'bg-yellow-400' },
+  { key: 'low', label: 'Low', className: 'bg-green-400' },
+];
+
+interface AdminAnalyticsProps {
+  range: AnalyticsQuery;
+  onRangeChange: (range: AnalyticsQuery) => void;
+  /** Opens the task listing filtered down to what was clicked. */
+  onDrillDown: (filter: TaskQuery) => void;
+}
+
+/** Task and user statistics over a date range; chart segments drill down into the matching tasks. */
+export default function AdminAnalytics({ range, onRangeChange, onDrillDown }: AdminAnalyticsProps) {
+  const { data, isPending, error } = useAdminAnalytics(range);
+  // Drill-downs into the distributions keep to the tasks they were counted from.
+  const createdInRange = { created_from: data?.from, created_to: data?.to };
+
+  const created = data?.timeline.reduce((sum, day) => sum + day.created, 0) ?? 0;
+  const completed = data?.timeline.reduce((sum, day) => sum + day.completed, 0) ?? 0;
+  const overdue = data?.overdue_by_user.reduce((sum, entry) => sum + entry.overdue, 0) ?? 0;
+  const maxOverdue = Math.max(1, ...(data?.overdue_by_user.map((entry) => entry.overdue) ?? []));
+  const activity = data?.user_activity ?? [];
+  const mostActive = activity.slice(0, ACTIVITY_LIMIT);
+  // Listed least active first, without repeating anyone already among the most active.
+  const leastActive = activity.slice(Math.max(ACTIVITY_LIMIT, activity.length - ACTIVITY_LIMIT)).reverse();
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white shadow rounded-lg p-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <h2 className="text-2xl font-bold text-gray-900">Analytics</h2>
+          <DateRangeControls range={range} applied={data} onChange={onRangeChange} />
+        </div>
+
+        {error && (
+          <div className="mt-4 rounded-md bg-red-50 p-4">
+            <p className="text-sm font-medium text-red-800">{getErrorMessage(error, 'Failed to load analytics')}</p>
+          </div>
+        )}
+
+        {data && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+            {[
+              { label: 'Created', value: created },
+              { label: 'Completed', value: completed },
+              {
+                label: 'Avg. time to complete',
+                value: data.avg_completion_hours === null ? '—' : formatHours(data.avg_completion_hours),
+              },
+              { label: 'Overdue', value: overdue },
+            ].map((stat) => (
+              <div key={stat.label} className="rounded-lg border border-gray-200 p-4">
+                <p className="text-sm text-gray-600">{stat.label}</p>
+                <p className="text-2xl font-bold text-gray-900 mt-1">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {isPending ? (
+        <p className="text-gray-600">Loading...</p>
+      ) : (
+        data && (
+          <>
+            <div className="bg-white shadow rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Created vs. completed</h3>
+              <TimelineChart
+                days={data.timeline}
+                series={TIMELINE_SERIES}
+                onSelect={(date, series) =>
+                  onDrillDown(
+                    series === 'created'
+                      ? { created_from: date, created_to: date }
+                      : { completed_from: date, completed_to: date }
+                  )
+                }
+              />
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              <div className="bg-white shadow rounded-lg p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">By status</h3>
+                <DistributionBar
+                  segments={STATUS_SEGMENTS.map((segment) => ({ ...segment, value: data.status_counts[segment.key] }))}
+                  onSelect={(status) => onDrillDown({ ...createdInRange, status })}
+                />
+              </div>
+              <div className="bg-white shadow rounded-lg p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">By priority</h3>
+                <DistributionBar
+                  segments={PRIORITY_SEGMENTS.map((segment) => ({
+                    ...segment,
+                    value: data.priority_counts[segment.key],
+                  }))}
+                  onSelect={(priority) => onDrillDown({ ...createdInRange, priority })}
+                />
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-6">
+              <div className="bg-white shadow rounded-lg p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Overdue by assignee</h3>
+                {data.overdue_by_user.length === 0 ? (
+                  <p className="text-sm text-gray-600">Nothing is overdue</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {data.overdue_by_user.map((entry) => (
+                      <li key={entry.user_id ?? 'none'}>
+                        <button
+                          onClick={() =>
+                            onDrillDown({ ...createdInRange, assignee: entry.user_id ?? 'none', overdue: true })
+                          }
+                          className="w-full flex items-center gap-3 text-sm text-left group"
+                        >
+                          <span className="w-32 truncate text-gray-700">{entry.name}</span>
+                          <span className="flex-1 h-4 bg-gray-100 rounded">
+                            <span
+                              style={{ width: `${(entry.overdue / maxOverdue) * 100}%` }}
+                              className="block h-full bg-red-500 rounded group-hover:bg-red-600"
+                            />
+                          </span>
+                          <span className="w-8 text-right font-semibold text-gray-900">{entry.overdue}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="bg-white shadow rounded-lg p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">User activity</h3>
+                <p className="text-xs text-gray-500 mb-4">Tasks created, and tasks completed as assignee.</p>
+                <div className="grid grid-cols-2 gap-6">
+                  {[
+                    { title: 'Most active', users: mostActive },
+                    { title: 'Least active', users: leastActive },
+                  ].map((list) => (
+                    <div key={list.title}>
+                      <h4 className="text-sm font-semibold text-gray-700 mb-2">{list.title}</h4>
+                      {list.users.length === 0 ? (
+                        <p className="text-sm text-gray-500">—</p>
+                      ) : (
+                        <ol className="space-y-1 text-sm">
+                          {list.users.map((entry) => (
+                            <li key={entry.user_id} className="flex justify-between gap-2">
+                              <span className="truncate text-gray-700">{entry.name}</span>
+                              <span className="text-gray-500 whitespace-nowrap">
+                                {entry.created} / {entry.completed}
+                              </span>
+                            </li>
+                          ))}
+                        </ol>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { UserRound } from 'lucide-react';
+import { useUserSearch } from '../lib/queries';
+
+export interface Assignee {
+  /** Null when nobody is assigned. */
+  id: number | null;
+  name: string;
+}
+
+interface AssigneePickerProps {
+  value: Assignee;
+  onChange: (assignee: Assignee) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Picks who a task is assigned to: shows the current assignee and, once
+ * typed into, the users matching the text, plus "Unassigned".
+ */
+export default function AssigneePicker({ value, onChange, disabled = false, className = '' }: AssigneePickerProps) {
+  const [text, setText] = useState('');
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const listId = useId();
+  const { data: users = [] } = useUserSearch(text.trim());
+
+  const options: (Assignee & { email: string })[] = [{ id: null, name: '', email: '' }, ...users];
+
+  const pick = ({ id, name }: Assignee) => {
+    setOpen(false);
+    setText('');
+    if (id !== value.id) onChange({ id, name });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && open) {
+      e.preventDefault();
+      if (options[highlighted]) pick(options[highlighted]);
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setOpen(true);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((i) => (i + step + options.length) % options.length);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+      setText('');
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <div className="flex items-center gap-2 w-full px-3 py-2 border-2 border-gray-200 rounded-xl focus-within:ring-2 focus-within:ring-indigo-500 focus-within:border-transparent transition-all duration-200">
+        <UserRound className="w-4 h-4 text-gray-400 shrink-0" />
+        <input
+          type="text"
+          role="combobox"
+          aria-label="Assignee"
+          aria-expanded={open}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          disabled={disabled}
+          value={open ? text : value.name}
+          onChange={(e) => {
+            setText(e.target.value);
+            setHighlighted(0);
+            setOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setOpen(true)}
+          onBlur={() => {
+            setOpen(false);
+            setText('');
+          }}
+          placeholder={open ? 'Search by name or email...' : 'Unassigned'}
+          className="flex-1 min-w-0 py-1 bg-transparent focus:outline-none disabled:opacity-50"
+        />
+      </div>
+
+      {open && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-1 max-h-64 overflow-y-auto bg-white rounded-xl shadow-xl border border-gray-100 py-1 z-50"
+        >
+          {options.map((option, i) => (
+            <li
+              key={option.id ?? 'unassigned'}
+              role="option"
+              aria-selected={option.id === value.id}
+              // Mouse down, not click, so the input's blur doesn't close the list first.
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(option);
+              }}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`flex items-center justify-between gap-3 px-3 py-2 cursor-pointer text-sm ${
+                i === highlighted ? 'bg-indigo-50' : ''
+              } ${option.id === value.id ? 'font-semibold text-indigo-700' : 'text-gray-800'}`}
+            >
+              <span className="truncate">{option.id === null ? 'Unassigned' : option.name}</span>
+              <span className="text-xs text-gray-500 truncate">{option.email}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
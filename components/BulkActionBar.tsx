@@ -0,0 +1,188 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle2, X } from 'lucide-react';
+import {
+  getErrorMessage,
+  type BulkAction,
+  type BulkResult,
+  type BulkTarget,
+  type TaskPriority,
+  type TaskStatus,
+} from '../lib/api';
+import { useBulkTaskAction } from '../lib/queries';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useOutbox } from '../hooks/useOutbox';
+
+const controlClass =
+  'px-3 py-2 border-2 border-gray-200 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:opacity-50';
+
+interface Outcome {
+  verb: string;
+  succeeded: number;
+  failures: BulkResult[];
+}
+
+interface BulkActionBarProps {
+  /** How many tasks are selected. */
+  count: number;
+  target: BulkTarget;
+  /** Called after an action went out with the ids of the tasks it failed for, which stay selected. */
+  onDone: (failedIds: number[]) => void;
+  onClose: () => void;
+}
+
+/** The dashboard's bulk actions for the selected tasks, and a per-task report of what failed. */
+export default function BulkActionBar({ count, target, onDone, onClose }: BulkActionBarProps) {
+  const bulkAction = useBulkTaskAction();
+  const online = useOnlineStatus();
+  const { entries } = useOutbox();
+  const [dueDate, setDueDate] = useState('');
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+  const [error, setError] = useState('');
+
+  // Bulk writes skip the offline outbox, so they wait until it has drained
+  // to stay in order with queued edits.
+  const blocked = !online || entries.length > 0;
+  const disabled = count === 0 || blocked || bulkAction.isPending;
+
+  const run = (action: BulkAction, verb: string) => {
+    setError('');
+    setOutcome(null);
+    bulkAction.mutate(
+      { target, action },
+      {
+        onSuccess: ({ results }) => {
+          const failures = results.filter((result) => !result.ok);
+          setOutcome({ verb, succeeded: results.length - failures.length, failures });
+          onDone(failures.map((result) => result.id));
+        },
+        onError: (err) => setError(getErrorMessage(err, `Failed to ${verb.toLowerCase()} tasks`)),
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete ${count} task${count === 1 ? '' : 's'}? This cannot be undone.`)) return;
+    run({ action: 'delete' }, 'Delete');
+  };
+
+  return (
+    <div className="sticky bottom-4 z-30 mt-6 bg-white rounded-2xl shadow-2xl border-2 border-indigo-100 p-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-semibold text-indigo-700 mr-2">
+          {count === 0 ? 'Select tasks to act on them' : `${count} selected`}
+        </span>
+
+        <select
+          value=""
+          disabled={disabled}
+          onChange={(e) => run({ action: 'update', changes: { status: e.target.value as TaskStatus } }, 'Update')}
+          aria-label="Set status"
+          className={controlClass}
+        >
+          <option value="" disabled>
+            Set status…
+          </option>
+          <option value="pending">Pending</option>
+          <option value="in_progress">In Progress</option>
+          <option value="completed">Completed</option>
+        </select>
+
+        <select
+          value=""
+          disabled={disabled}
+          onChange={(e) => run({ action: 'update', changes: { priority: e.target.value as TaskPriority } }, 'Update')}
+          aria-label="Set priority"
+          className={controlClass}
+        >
+          <option value="" disabled>
+            Set priority…
+          </option>
+          <option value="low">Low</option>
+          <option value="medium">Medium</option>
+          <option value="high">High</option>
+        </select>
+
+        <div className="flex items-center gap-1">
+          <input
+            type="date"
+            value={dueDate}
+            disabled={disabled}
+            onChange={(e) => setDueDate(e.target.value)}
+            aria-label="New due date"
+            className={controlClass}
+          />
+          <button
+            onClick={() => run({ action: 'update', changes: { due_date: dueDate } }, 'Reschedule')}
+            disabled={disabled || !dueDate}
+            className="px-3 py-2 text-sm font-semibold text-indigo-600 hover:text-indigo-700 disabled:opacity-40"
+          >
+            Set due date
+          </button>
+          <button
+            onClick={() => run({ action: 'update', changes: { due_date: '' } }, 'Update')}
+            disabled={disabled}
+            className="px-3 py-2 text-sm font-semibold text-gray-600 hover:text-gray-800 disabled:opacity-40"
+          >
+            Clear due date
+          </button>
+        </div>
+
+        <button
+          onClick={handleDelete}
+          disabled={disabled}
+          className="px-4 py-2 bg-white border-2 border-red-200 text-red-600 rounded-lg text-sm font-semibold hover:bg-red-50 disabled:opacity-40"
+        >
+          Delete
+        </button>
+
+        <button
+          onClick={onClose}
+          aria-label="Leave selection mode"
+          className="ml-auto p-2 text-gray-400 hover:text-gray-600"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {blocked && (
+        <p className="text-xs text-amber-700 mt-3">
+          {online
+            ? 'Bulk actions are available once your offline changes have synced.'
+            : 'Bulk actions need a connection.'}
+        </p>
+      )}
+      {bulkAction.isPending && <p className="text-xs text-gray-500 mt-3">Working…</p>}
+      {error && <p className="text-sm font-medium text-red-700 mt-3">{error}</p>}
+
+      {outcome && (
+        <div className="mt-3 text-sm">
+          {outcome.succeeded > 0 && (
+            <p className="flex items-center gap-2 text-green-700">
+              <CheckCircle2 className="w-4 h-4" />
+              {outcome.verb === 'Delete' ? 'Deleted' : 'Updated'} {outcome.succeeded} task
+              {outcome.succeeded === 1 ? '' : 's'}
+            </p>
+          )}
+          {outcome.failures.length > 0 && (
+            <div className="mt-2 rounded-lg bg-red-50 border border-red-200 p-3">
+              <p className="flex items-center gap-2 font-medium text-red-800">
+                <AlertTriangle className="w-4 h-4" />
+                {outcome.failures.length} task{outcome.failures.length === 1 ? '' : 's'} could not be changed and
+                {outcome.failures.length === 1 ? ' is' : ' are'} still selected:
+              </p>
+              <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                {outcome.failures.map((failure) => (
+                  <li key={failure.id} className="text-xs text-red-700">
+                    <span className="font-semibold">{failure.title || `Task #${failure.id}`}</span>: {failure.error}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+
+import type { AnalyticsQuery } from '../lib/api';
+import { RANGE_PRESETS } from '../lib/analytics';
+import { addDays, todayKey } from '../lib/recurrence';
+
+const controlClass =
+  'px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+interface DateRangeControlsProps {
+  range: AnalyticsQuery;
+  /** The range the backend picked for the bounds `range` leaves out. */
+  applied?: { from: string; to: string };
+  onChange: (range: AnalyticsQuery) => void;
+}
+
+/** "Last n days" presets and from/to pickers for an inclusive date range. */
+export default function DateRangeControls({ range, applied, onChange }: DateRangeControlsProps) {
+  const from = range.from ?? applied?.from ?? '';
+  const to = range.to ?? applied?.to ?? '';
+
+  const setPreset = (days: number) => {
+    const today = todayKey();
+    onChange({ from: addDays(today, 1 - days), to: today });
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      {RANGE_PRESETS.map((days) => (
+        <button
+          key={days}
+          type="button"
+          onClick={() => setPreset(days)}
+          className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+        >
+          Last {days} days
+        </button>
+      ))}
+      <label className="text-sm font-semibold text-gray-700">
+        <span className="block mb-1">From</span>
+        <input
+          type="date"
+          value={from}
+          max={to || undefined}
+          onChange={(e) => onChange({ from: e.target.value || undefined, to: range.to })}
+          className={controlClass}
+        />
+      </label>
+      <label className="text-sm font-semibold text-gray-700">
+        <span className="block mb-1">To</span>
+        <input
+          type="date"
+          value={to}
+          min={from || undefined}
+          onChange={(e) => onChange({ from: range.from, to: e.target.value || undefined })}
+          className={controlClass}
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { getErrorMessage, type AdminUser } from '../lib/api';
+import { useAdminUsers, useDeleteUser } from '../lib/queries';
+
+const controlClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface DeleteUserDialogProps {
+  user: AdminUser;
+  onClose: () => void;
+}
+
+/** Confirms deleting an account and asks what becomes of its tasks: deleted too, or handed to another user. */
+export default function DeleteUserDialog({ user, onClose }: DeleteUserDialogProps) {
+  const deleteUser = useDeleteUser();
+  const [mode, setMode] = useState<'delete' | 'reassign'>(user.task_count > 0 ? 'reassign' : 'delete');
+  const [search, setSearch] = useState('');
+  const [heirId, setHeirId] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  const candidates = useAdminUsers({ search: search.trim(), page_size: 20 });
+  const heirs = (candidates.data?.items ?? []).filter((u) => u.id !== user.id && u.active);
+  // A search can hide the user picked before it.
+  const heir = heirs.find((u) => u.id === heirId);
+  const tasks = `${user.task_count} task${user.task_count === 1 ? '' : 's'}`;
+
+  const handleDelete = () => {
+    setError('');
+    deleteUser.mutate(
+      { id: user.id, tasks: mode === 'reassign' && heir ? { action: 'reassign', to: heir.id } : { action: 'delete' } },
+      {
+        onSuccess: onClose,
+        onError: (err) => setError(getErrorMessage(err, 'Failed to delete user')),
+      }
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="delete-user-title"
+        className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6"
+      >
+        <h2 id="delete-user-title" className="text-xl font-bold text-gray-900">
+          Delete {user.name}?
+        </h2>
+        <p className="text-sm text-gray-600 mt-2">
+          {user.email} is signed out everywhere and can no longer sign in. Their notifications and reminder
+          settings are removed. This cannot be undone.
+        </p>
+
+        {user.task_count > 0 && (
+          <fieldset className="mt-4 space-y-3">
+            <legend className="text-sm font-medium text-gray-900 mb-2">They own {tasks}:</legend>
+            <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="radio"
+                name="tasks"
+                checked={mode === 'reassign'}
+                onChange={() => setMode('reassign')}
+                className="mt-0.5"
+              />
+              <span>Reassign them, with their history, to another user</span>
+            </label>
+            {mode === 'reassign' && (
+              <div className="ml-6 space-y-2">
+                <input
+                  type="text"
+                  placeholder="Search users by name or email..."
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className={controlClass}
+                />
+                <select
+                  value={heir?.id ?? ''}
+                  onChange={(e) => setHeirId(e.target.value ? Number(e.target.value) : null)}
+                  aria-label="Reassign to"
+                  className={controlClass}
+                >
+                  <option value="">{heirs.length === 0 ? 'No matching users' : 'Choose a user…'}</option>
+                  {heirs.map((u) => (
+                    <option key={u.id} value={u.id}>
+                      {u.name} ({u.email})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="radio"
+                name="tasks"
+                checked={mode === 'delete'}
+                onChange={() => setMode('delete')}
+                className="mt-0.5"
+              />
+              <span className="text-red-700">Delete them, with their subtasks and comments</span>
+            </label>
+          </fieldset>
+        )}
+
+        {error && <p className="text-sm font-medium text-red-700 mt-4">{error}</p>}
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={deleteUser.isPending || (mode === 'reassign' && !heir)}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+          >
+            {deleteUser.isPending ? 'Deleting...' : 'Delete user'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+export interface Segment<K extends string> {
+  key: K;
+  label: string;
+  value: number;
+  /** Background color classes for the segment and its legend swatch. */
+  className: string;
+}
+
+interface DistributionBarProps<K extends string> {
+  segments: Segment<K>[];
+  /** Called with the key of the segment, or legend entry, clicked; without it the parts only show their counts. */
+  onSelect?: (key: K) => void;
+}
+
+/** How a total splits into parts: one stacked bar with a legend of counts and shares. */
+export default function DistributionBar<K extends string>({ segments, onSelect }: DistributionBarProps<K>) {
+  const total = segments.reduce((sum, segment) => sum + segment.value, 0);
+  const share = (value: number) => (total === 0 ? 0 : Math.round((value / total) * 100));
+
+  return (
+    <div>
+      <div className="flex h-6 rounded-full overflow-hidden bg-gray-100">
+        {segments
+          .filter((segment) => segment.value > 0)
+          .map((segment) => (
+            <button
+              key={segment.key}
+              type="button"
+              onClick={() => onSelect?.(segment.key)}
+              disabled={!onSelect}
+              title={`${segment.label}: ${segment.value}`}
+              aria-label={`${segment.label}: ${segment.value} (${share(segment.value)}%)`}
+              style={{ width: `${(segment.value / total) * 100}%` }}
+              className={`h-full transition-opacity enabled:hover:opacity-80 ${segment.className}`}
+            />
+          ))}
+      </div>
+
+      <ul className="mt-3 space-y-1">
+        {segments.map((segment) => (
+          <li key={segment.key}>
+            <button
+              type="button"
+              onClick={() => onSelect?.(segment.key)}
+              disabled={!onSelect || segment.value === 0}
+              className="w-full flex items-center gap-2 px-2 py-1 rounded text-sm text-gray-700 enabled:hover:bg-gray-50"
+            >
+              <span className={`w-3 h-3 rounded-sm ${segment.className}`} />
+              {segment.label}
+              <span className="ml-auto font-semibold text-gray-900">{segment.value}</span>
+              <span className="w-10 text-right text-xs text-gray-500">{share(segment.value)}%</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { getErrorMessage } from '../lib/api';
+import { MAX_EXPORT_TASKS, downloadTasks, type ExportFormat, type ExportTask } from '../lib/export';
+
+const FORMATS: { value: ExportFormat; label: string; hint: string }[] = [
+  { value: 'csv', label: 'CSV', hint: 'For spreadsheets' },
+  { value: 'json', label: 'JSON', hint: 'Full backup' },
+  { value: 'ics', label: 'iCalendar', hint: 'Tasks with a due date' },
+];
+
+interface ExportMenuProps {
+  /** Loads every task to export, i.e. all pages of the current listing. */
+  loadTasks: () => Promise<ExportTask[]>;
+  /** The start of the file name; today's date and the extension are added. */
+  fileName: string;
+  className?: string;
+}
+
+/** An "Export" button offering the listing's tasks as CSV, JSON or iCalendar. */
+export default function ExportMenu({ loadTasks, fileName, className = '' }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleExport = async (format: ExportFormat) => {
+    setOpen(false);
+    setError('');
+    setExporting(true);
+    try {
+      const tasks = await loadTasks();
+      if (tasks.length === 0) {
+        setError('No tasks to export');
+        return;
+      }
+      downloadTasks(tasks, format, fileName);
+      if (tasks.length >= MAX_EXPORT_TASKS) {
+        setError(`Only the first ${MAX_EXPORT_TASKS} tasks were exported`);
+      }
+    } catch (err: unknown) {
+      setError(getErrorMessage(err, 'Failed to export tasks'));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        onClick={() => {
+          setError('');
+          setOpen((shown) => !shown);
+        }}
+        disabled={exporting}
+        aria-expanded={open}
+        aria-haspopup="menu"
+        className="flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-semibold bg-gray-50 text-gray-600 hover:bg-gray-100 transition-all duration-200 disabled:opacity-50"
+      >
+        <Download className="w-4 h-4" />
+        {exporting ? 'Exporting…' : 'Export'}
+      </button>
+
+      {open && (
+        <ul
+          role="menu"
+          className="absolute right-0 top-full mt-2 w-56 bg-white rounded-xl shadow-xl border border-gray-100 py-1 z-50"
+        >
+          {FORMATS.map((format) => (
+            <li key={format.value} role="none">
+              <button
+                role="menuitem"
+                onClick={() => handleExport(format.value)}
+                className="w-full text-left px-4 py-2 hover:bg-indigo-50"
+              >
+                <span className="block text-sm font-semibold text-gray-900">{format.label}</span>
+                <span className="block text-xs text-gray-500">{format.hint}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="absolute right-0 top-full mt-2 w-64 text-xs font-medium text-red-700 text-right">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+'use client';
+
+import { useState } from 'react';
+import { Upload } from 'lucide-react';
+import { getErrorMessage } from '../lib/api';
+import { downloadFile } from '../lib/export';
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  failureReport,
+  guessMapping,
+  parseImportFile,
+  validateRow,
+  type ColumnMapping,
+  type ImportSource,
+} from '../lib/import';
+import { useImportTasks } from '../lib/queries';
+
+type Step = 'upload' | 'map' | 'preview' | 'import';
+
+const STEPS: { step: Step; label: string }[] = [
+  { step: 'upload', label: 'Upload' },
+  { step: 'map', label: 'Map columns' },
+  { step: 'preview', label: 'Preview' },
+  { step: 'import', label: 'Import' },
+];
+
+const controlClass =
+  'w-full px-3 py-2 border-2 border-gray-200 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+const primaryClass =
+  'px-6 py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-xl hover:from-indigo-700 hover:to-purple-700 font-semibold shadow-lg disabled:opacity-50';
+const secondaryClass = 'px-6 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 font-semibold';
+
+interface ImportWizardProps {
+  onClose: () => void;
+}
+
+/**
+ * Creates tasks from a CSV or JSON file: pick the file, say which columns hold
+ * which fields, review the rows that fail validation, then import the rest.
+ */
+export default function ImportWizard({ onClose }: ImportWizardProps) {
+  const importTasks = useImportTasks();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [done, setDone] = useState(0);
+  const [error, setError] = useState('');
+
+  const parsed = source && mapping ? source.rows.map((values, index) => validateRow(values, mapping, index + 1)) : [];
+  const valid = parsed.filter((row) => row.task !== null);
+  const invalid = parsed.filter((row) => row.task === null);
+
+  // Rows skipped by validation plus those the server turned down.
+  const results = importTasks.data ?? [];
+  const failures = [
+    ...invalid.map((row) => ({ row: row.row, error: row.errors.join('; ') })),
+    ...valid.flatMap((row, index) => {
+      const result = results[index];
+      return result && !result.ok ? [{ row: row.row, error: result.error }] : [];
+    }),
+  ].sort((a, b) => a.row - b.row);
+  const imported = results.filter((result) => result.ok).length;
+
+  const handleFile = async (file: File) => {
+    setError('');
+    try {
+      const result = parseImportFile(file.name, await file.text());
+      if (typeof result === 'string') {
+        setError(result);
+        return;
+      }
+      setFileName(file.name);
+      setSource(result);
+      setMapping(guessMapping(result.columns));
+      setStep('map');
+    } catch {
+      setError('Failed to read the file');
+    }
+  };
+
+  const handleImport = () => {
+    setError('');
+    setDone(0);
+    setStep('import');
+    importTasks.mutate(
+      { tasks: valid.map((row) => row.task!), onProgress: setDone },
+      { onError: (err) => setError(getErrorMessage(err, 'Failed to import tasks')) }
+    );
+  };
+
+  const stepIndex = STEPS.findIndex((entry) => entry.step === step);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-title"
+        className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col animate-fadeIn"
+      >
+        <div className="p-8 pb-4">
+          <h2 id="import-title" className="text-2xl font-bold text-gray-900">
+            Import Tasks
+          </h2>
+          <ol className="flex gap-2 mt-4 text-xs font-semibold">
+            {STEPS.map((entry, index) => (
+              <li
+                key={entry.step}
+                aria-current={entry.step === step ? 'step' : undefined}
+                className={`flex-1 border-t-4 pt-2 ${index <= stepIndex ? 'border-indigo-600 text-indigo-700' : 'border-gray-200 text-gray-500'}`}
+              >
+                {entry.label}
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <div className="px-8 overflow-y-auto flex-1">
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center gap-3 border-2 border-dashed border-gray-300 rounded-2xl p-10 cursor-pointer hover:border-indigo-400 hover:bg-indigo-50/50">
+              <Upload className="w-8 h-8 text-indigo-500" />
+              <span className="font-semibold text-gray-900">Choose a CSV or JSON file</span>
+              <span className="text-sm text-gray-500 text-center">
+                A spreadsheet export with a header row, or a JSON backup from Export. Up to {MAX_IMPORT_ROWS} rows,
+                with due dates as YYYY-MM-DD.
+              </span>
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="sr-only"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) handleFile(file);
+                }}
+              />
+            </label>
+          )}
+
+          {step === 'map' && source && mapping && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {fileName}: {source.rows.length} row{source.rows.length === 1 ? '' : 's'}. Choose the column each field
+                is read from; fields left out get the same defaults as the create form.
+              </p>
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="grid grid-cols-3 items-center gap-4">
+                  <label htmlFor={`import-${field}`} className="text-sm font-semibold text-gray-700">
+                    {label}
+                    {required && ' *'}
+                  </label>
+                  <select
+                    id={`import-${field}`}
+                    value={mapping[field]}
+                    onChange={(e) => setMapping({ ...mapping, [field]: e.target.value })}
+                    className={`${controlClass} col-span-2`}
+                  >
+                    <option value="">{required ? 'Choose a column…' : "Don't import"}</option>
+                    {source.columns.map((column) => (
+                      <option key={column} value={column}>
+                        {column}
+                        {source.rows[0][column] ? ` (e.g. ${source.rows[0][column].slice(0, 30)})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-700">
+                <span className="font-semibold text-green-700">{valid.length} ready to import</span>
+                {invalid.length > 0 && (
+                  <>
+                    , <span className="font-semibold text-red-700">{invalid.length} with errors</span> that will be
+                    skipped
+                  </>
+                )}
+                .
+              </p>
+              <div className="border border-gray-200 rounded-xl overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2 font-semibold w-16">Row</th>
+                      <th className="px-3 py-2 font-semibold">Task</th>
+                      <th className="px-3 py-2 font-semibold">Problems</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {parsed.map((row) => (
+                      <tr key={row.row} className={row.task ? '' : 'bg-red-50'}>
+                        <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                        <td className="px-3 py-2">
+                          {row.task ? (
+                            <>
+                              <span className="font-medium text-gray-900">{row.task.title}</span>
+                              <span className="block text-xs text-gray-500">
+                                {row.task.priority} · {row.task.status?.replace('_', ' ')}
+                                {row.task.due_date && ` · due ${row.task.due_date}`}
+                              </span>
+                            </>
+                          ) : (
+                            <span className="text-gray-500">
+                              {(mapping?.title && source?.rows[row.row - 1][mapping.title]) || '—'}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-red-700">
+                          {row.errors.length > 0 && (
+                            <ul className="list-disc list-inside">
+                              {row.errors.map((message) => (
+                                <li key={message}>{message}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {step === 'import' && (
+            <div className="space-y-4">
+              <div>
+                <div className="flex justify-between text-sm font-medium text-gray-700 mb-2">
+                  <span>{importTasks.isPending ? 'Creating tasks…' : 'Finished'}</span>
+                  <span>
+                    {done} / {valid.length}
+                  </span>
+                </div>
+                <div
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={valid.length}
+                  aria-valuenow={done}
+                  className="h-3 bg-gray-100 rounded-full overflow-hidden"
+                >
+                  <div
+                    style={{ width: `${valid.length === 0 ? 100 : (done / valid.length) * 100}%` }}
+                    className="h-full bg-gradient-to-r from-indigo-600 to-purple-600 transition-all duration-200"
+                  />
+                </div>
+              </div>
+              {importTasks.isSuccess && (
+                <div className="rounded-xl bg-gray-50 p-4 text-sm text-gray-700 space-y-2">
+                  <p>
+                    <span className="font-semibold text-green-700">
+                      {imported} task{imported === 1 ? '' : 's'} imported.
+                    </span>
+                    {failures.length > 0 &&
+                      ` ${failures.length} row${failures.length === 1 ? ' was' : 's were'} not; the report lists them with the reason.`}
+                  </p>
+                  {failures.length > 0 && source && (
+                    <button
+                      onClick={() => downloadFile(failureReport(source, failures), 'csv', 'import-failures')}
+                      className="font-semibold text-indigo-600 hover:text-indigo-700"
+                    >
+                      Download report
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-sm font-medium text-red-700 mt-4">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-3 p-8 pt-6">
+          {step === 'import' ? (
+            <button onClick={onClose} disabled={importTasks.isPending} className={primaryClass}>
+              Done
+            </button>
+          ) : (
+            <>
+              <button onClick={onClose} className={secondaryClass}>
+                Cancel
+              </button>
+              {step !== 'upload' && (
+                <button onClick={() => setStep(step === 'preview' ? 'map' : 'upload')} className={secondaryClass}>
+                  Back
+                </button>
+              )}
+              {step === 'map' && (
+                <button onClick={() => setStep('preview')} disabled={!mapping?.title} className={primaryClass}>
+                  Next
+                </button>
+              )}
+              {step === 'preview' && (
+                <button onClick={handleImport} disabled={valid.length === 0} className={primaryClass}>
+                  Import {valid.length} task{valid.length === 1 ? '' : 's'}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+
+// The source offset of the task list item being rendered, for its checkbox.
+const TaskItemOffset = createContext<number | null>(null);
+
+// A list item's `[ ]` or `[x]`, right after its bullet or number.
+const TASK_MARKER = /^[ \t>]*(?:[-*+]|\d+[.)])[ \t]+\[([ xX])\]/;
+
+/** `source` with the task list checkbox of the item starting at `offset` flipped, or unchanged if there is none. */
+function toggleTaskItem(source: string, offset: number) {
+  const match = TASK_MARKER.exec(source.slice(offset));
+  if (!match) return source;
+  const at = offset + match[0].length - 2;
+  return source.slice(0, at) + (match[1] === ' ' ? 'x' : ' ') + source.slice(at + 1);
+}
+
+interface MarkdownProps {
+  children: string;
+  className?: string;
+  /** Makes `- [ ]` checkboxes clickable; called with the source after one is toggled. */
+  onChange?: (markdown: string) => void;
+}
+
+/**
+ * Renders user-written Markdown (GitHub flavour). Raw HTML in the source is
+ * shown as text, never rendered, URLs with unsafe protocols such as
+ * `javascript:` are dropped, and links open in a new tab.
+ */
+export default function Markdown({ children, className = '', onChange }: MarkdownProps) {
+  const toggle = onChange && ((offset: number) => onChange(toggleTaskItem(children, offset)));
+
+  return (
+    <div className={`markdown ${className}`}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        components={{
+          a: ({ href, children: text }) => (
+            <a href={href} target="_blank" rel="noopener noreferrer">
+              {text}
+            </a>
+          ),
+          li: ({ node, children: content, ...props }) => (
+            <li {...props}>
+              <TaskItemOffset.Provider value={node?.position?.start.offset ?? null}>{content}</TaskItemOffset.Provider>
+            </li>
+          ),
+          // Task list checkboxes are the only inputs Markdown produces.
+          input: ({ checked }) => <TaskCheckbox checked={!!checked} onToggle={toggle} />,
+        }}
+      >
+        {children}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+function TaskCheckbox({ checked, onToggle }: { checked: boolean; onToggle?: (offset: number) => void }) {
+  const offset = useContext(TaskItemOffset);
+  return (
+    <input
+      type="checkbox"
+      checked={checked}
+      disabled={!onToggle || offset === null}
+      onChange={() => offset !== null && onToggle?.(offset)}
+      className="mr-1 align-middle accent-indigo-600 enabled:cursor-pointer"
+    />
+  );
+}
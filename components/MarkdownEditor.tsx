@@ -0,0 +1,62 @@
+'use client';
+
+import { useState } from 'react';
+import Markdown from './Markdown';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  rows?: number;
+  /** Classes for the textarea, so it matches the form it sits in. */
+  className?: string;
+}
+
+/** A Markdown textarea with a Write / Preview toggle that renders the text the way it will be shown. */
+export default function MarkdownEditor({ value, onChange, placeholder, rows = 4, className = '' }: MarkdownEditorProps) {
+  const [preview, setPreview] = useState(false);
+
+  return (
+    <div>
+      <div className="flex gap-1 mb-2" role="group" aria-label="Editor mode">
+        {[false, true].map((showPreview) => (
+          <button
+            key={String(showPreview)}
+            type="button"
+            onClick={() => setPreview(showPreview)}
+            aria-pressed={preview === showPreview}
+            className={`px-3 py-1 rounded-lg text-sm font-semibold transition-all duration-200 ${
+              preview === showPreview ? 'bg-indigo-100 text-indigo-700' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {showPreview ? 'Preview' : 'Write'}
+          </button>
+        ))}
+      </div>
+
+      {preview ? (
+        <div className="min-h-[6rem] px-4 py-3 border-2 border-gray-200 rounded-xl bg-gray-50">
+          {value.trim() ? (
+            <Markdown className="text-gray-700 leading-relaxed" onChange={onChange}>
+              {value}
+            </Markdown>
+          ) : (
+            <p className="text-gray-400">Nothing to preview</p>
+          )}
+        </div>
+      ) : (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={rows}
+          placeholder={placeholder}
+          className={className}
+        />
+      )}
+
+      <p className="text-xs text-gray-500 mt-1">
+        Markdown supported: **bold**, _italic_, `code`, links, lists and - [ ] checklists.
+      </p>
+    </div>
+  );
+}
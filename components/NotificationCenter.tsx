@@ -0,0 +1,237 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Bell, Settings } from 'lucide-react';
+import { getErrorMessage, type Reminder, type TaskNotification } from '../lib/api';
+import { describeDue } from '../lib/reminders';
+import {
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useNotifications,
+  useReminderSettings,
+  useSnoozeNotification,
+  useUpdateReminderSettings,
+} from '../lib/queries';
+import { useNotificationPermission } from '../hooks/useNotificationPermission';
+import ReminderEditor from './ReminderEditor';
+
+const SNOOZE_OPTIONS = [
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 3 * 60, label: '3 hours' },
+  { minutes: 24 * 60, label: '1 day' },
+];
+
+function formatTime(value: string) {
+  return new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function browserTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/** The dashboard header's bell: reminders that went off, with read state, snoozing and reminder settings. */
+export default function NotificationCenter() {
+  const { data, isPending, error: loadError } = useNotifications();
+  const { data: settings } = useReminderSettings();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+  const snooze = useSnoozeNotification();
+  const updateSettings = useUpdateReminderSettings();
+  const [permission, requestPermission] = useNotificationPermission();
+
+  const [open, setOpen] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [defaults, setDefaults] = useState<Reminder[]>([]);
+  const [error, setError] = useState('');
+
+  const notifications = data?.items ?? [];
+  const unread = data?.unread_count ?? 0;
+
+  // Reminder times are read in the user's time zone, which the backend only
+  // knows from here. Follows the browser when the user moves.
+  const { mutate: saveSettings } = updateSettings;
+  const savedTimeZone = settings?.time_zone;
+  useEffect(() => {
+    if (savedTimeZone && savedTimeZone !== browserTimeZone()) {
+      saveSettings({ time_zone: browserTimeZone() });
+    }
+  }, [savedTimeZone, saveSettings]);
+
+  const openSettings = () => {
+    setDefaults(settings?.default_reminders ?? []);
+    setShowSettings((shown) => !shown);
+  };
+
+  const handleSaveSettings = () => {
+    setError('');
+    updateSettings.mutate(
+      { default_reminders: defaults, time_zone: browserTimeZone() },
+      {
+        onSuccess: () => setShowSettings(false),
+        onError: (err) => setError(getErrorMessage(err, 'Failed to save reminder settings')),
+      }
+    );
+  };
+
+  const handleSnooze = (notification: TaskNotification, minutes: number) => {
+    setError('');
+    snooze.mutate(
+      { id: notification.id, minutes },
+      { onError: (err) => setError(getErrorMessage(err, 'Failed to snooze reminder')) }
+    );
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((shown) => !shown)}
+        aria-expanded={open}
+        aria-label={unread > 0 ? `Notifications, ${unread} unread` : 'Notifications'}
+        className="relative p-2 rounded-lg text-gray-600 hover:bg-indigo-50 hover:text-indigo-700 transition-all duration-200"
+      >
+        <Bell className="w-5 h-5" />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-5 h-5 px-1 rounded-full bg-red-500 text-white text-xs font-bold flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-96 bg-white rounded-xl shadow-xl border border-gray-100 z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
+            <div className="flex items-center gap-3">
+              {unread > 0 && (
+                <button
+                  onClick={() => markAllRead.mutate()}
+                  className="text-xs font-semibold text-indigo-600 hover:text-indigo-700"
+                >
+                  Mark all read
+                </button>
+              )}
+              <button
+                onClick={openSettings}
+                aria-expanded={showSettings}
+                aria-label="Reminder settings"
+                className="text-gray-500 hover:text-indigo-700"
+              >
+                <Settings className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          {error && <p className="px-4 pt-3 text-xs font-medium text-red-700">{error}</p>}
+
+          {permission === 'default' && (
+            <div className="mx-4 mt-3 rounded-lg bg-indigo-50 p-3 text-xs text-indigo-800">
+              Get reminders as browser notifications while the app is open.{' '}
+              <button onClick={requestPermission} className="font-semibold underline hover:text-indigo-950">
+                Turn on
+              </button>
+            </div>
+          )}
+          {permission === 'denied' && (
+            <p className="mx-4 mt-3 text-xs text-gray-500">
+              Browser notifications are blocked for this site; reminders still show up here.
+            </p>
+          )}
+
+          {showSettings && (
+            <div className="mx-4 mt-3 rounded-lg border border-gray-100 p-3">
+              <p className="text-xs font-semibold text-gray-700 mb-2">Default reminders for tasks with a due date</p>
+              <ReminderEditor value={defaults} onChange={(next) => setDefaults(next ?? [])} />
+              <p className="text-xs text-gray-500 mt-2">Times are in {settings?.time_zone ?? browserTimeZone()}.</p>
+              <div className="flex gap-2 mt-3">
+                <button
+                  onClick={handleSaveSettings}
+                  disabled={updateSettings.isPending}
+                  className="px-3 py-1 text-xs font-medium bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => setShowSettings(false)}
+                  className="px-3 py-1 text-xs font-medium bg-white border-2 border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="max-h-96 overflow-y-auto p-2">
+            {isPending ? (
+              <p className="p-3 text-sm text-gray-500">Loading...</p>
+            ) : loadError ? (
+              <p className="p-3 text-sm text-red-700">{getErrorMessage(loadError, 'Failed to load notifications')}</p>
+            ) : notifications.length === 0 ? (
+              <p className="p-3 text-sm text-gray-500">No reminders yet</p>
+            ) : (
+              <ul className="space-y-1">
+                {notifications.map((notification) => (
+                  <li
+                    key={notification.id}
+                    className={`rounded-lg p-3 ${notification.read ? '' : 'bg-indigo-50/60'}`}
+                  >
+                    <div className="flex items-start gap-2">
+                      <span
+                        aria-hidden
+                        className={`mt-1.5 w-2 h-2 rounded-full shrink-0 ${
+                          notification.read ? 'bg-transparent' : 'bg-indigo-600'
+                        }`}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <Link
+                          href={`/tasks/${notification.task_id}`}
+                          onClick={() => {
+                            if (!notification.read) markRead.mutate({ id: notification.id, read: true });
+                            setOpen(false);
+                          }}
+                          className="block text-sm font-medium text-gray-900 hover:text-indigo-700 truncate"
+                        >
+                          {notification.task_title}
+                        </Link>
+                        <p className="text-xs text-gray-600 mt-0.5">
+                          {describeDue(notification.due_date)} ·{' '}
+                          {notification.snoozed_until
+                            ? `Snoozed until ${formatTime(notification.snoozed_until)}`
+                            : formatTime(notification.remind_at)}
+                        </p>
+                        <div className="flex items-center gap-3 mt-2">
+                          <button
+                            onClick={() => markRead.mutate({ id: notification.id, read: !notification.read })}
+                            className="text-xs font-semibold text-indigo-600 hover:text-indigo-700"
+                          >
+                            Mark {notification.read ? 'unread' : 'read'}
+                          </button>
+                          <select
+                            value=""
+                            onChange={(e) => handleSnooze(notification, Number(e.target.value))}
+                            aria-label={`Snooze reminder for ${notification.task_title}`}
+                            className="text-xs text-gray-600 bg-transparent border border-gray-200 rounded-md px-1 py-0.5"
+                          >
+                            <option value="" disabled>
+                              Snooze…
+                            </option>
+                            {SNOOZE_OPTIONS.map((option) => (
+                              <option key={option.minutes} value={option.minutes}>
+                                {option.label}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import type { Recurrence } from '../lib/api';
+import { WEEKDAY_LABELS } from '../lib/recurrence';
+
+const UNITS = { daily: 'day', weekly: 'week', monthly: 'month' } as const;
+
+interface RecurrenceEditorProps {
+  value: Recurrence | null;
+  onChange: (rule: Recurrence | null) => void;
+}
+
+const controlClass =
+  'px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+/** Picks how a task repeats: frequency, interval, weekdays or day of month, and when the series ends. */
+export default function RecurrenceEditor({ value, onChange }: RecurrenceEditorProps) {
+  const ends = value?.until ? 'on' : value?.count != null ? 'after' : 'never';
+
+  const update = (patch: Partial<Recurrence>) => value && onChange({ ...value, ...patch });
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const weekdays = value.weekdays.includes(day)
+      ? value.weekdays.filter((other) => other !== day)
+      : [...value.weekdays, day].sort((a, b) => a - b);
+    update({ weekdays });
+  };
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={value?.frequency ?? ''}
+        onChange={(e) =>
+          onChange(
+            e.target.value
+              ? {
+                  frequency: e.target.value as Recurrence['frequency'],
+                  interval: value?.interval ?? 1,
+                  weekdays: [],
+                  month_day: null,
+                  until: value?.until ?? '',
+                  count: value?.count ?? null,
+                }
+              : null
+          )
+        }
+        className={`w-full ${controlClass}`}
+      >
+        <option value="">Does not repeat</option>
+        <option value="daily">Daily</option>
+        <option value="weekly">Weekly</option>
+        <option value="monthly">Monthly</option>
+      </select>
+
+      {value && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            Every
+            <input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              aria-label="Interval"
+              className={`w-20 ${controlClass}`}
+            />
+            {UNITS[value.frequency]}
+            {value.interval === 1 ? '' : 's'}
+            {value.frequency === 'monthly' && (
+              <>
+                <span className="ml-2">on day</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={value.month_day ?? ''}
+                  placeholder="due"
+                  onChange={(e) =>
+                    update({ month_day: e.target.value ? Math.min(31, Math.max(1, Number(e.target.value))) : null })
+                  }
+                  aria-label="Day of the month"
+                  className={`w-20 ${controlClass}`}
+                />
+              </>
+            )}
+          </div>
+
+          {value.frequency === 'weekly' && (
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Weekdays">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => toggleWeekday(day)}
+                  aria-pressed={value.weekdays.includes(day)}
+                  className={`w-12 py-1.5 rounded-lg text-xs font-semibold border-2 transition-all duration-200 ${
+                    value.weekdays.includes(day)
+                      ? 'bg-indigo-600 text-white border-indigo-600'
+                      : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+          {value.frequency !== 'daily' && (
+            <p className="text-xs text-gray-500">
+              {value.frequency === 'weekly'
+                ? 'With no day picked, it repeats on the weekday of the due date.'
+                : 'Left blank, it repeats on the day of the month of the due date.'}
+            </p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            Ends
+            <select
+              value={ends}
+              onChange={(e) =>
+                update(
+                  e.target.value === 'on'
+                    ? { until: value.until || new Date().toISOString().slice(0, 10), count: null }
+                    : e.target.value === 'after'
+                      ? { until: '', count: value.count ?? 10 }
+                      : { until: '', count: null }
+                )
+              }
+              className={controlClass}
+            >
+              <option value="never">Never</option>
+              <option value="on">On a date</option>
+              <option value="after">After a number of times</option>
+            </select>
+            {ends === 'on' && (
+              <input
+                type="date"
+                value={value.until}
+                onChange={(e) => update({ until: e.target.value })}
+                aria-label="Last date"
+                className={controlClass}
+              />
+            )}
+            {ends === 'after' && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  value={value.count ?? 1}
+                  onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                  aria-label="Number of occurrences"
+                  className={`w-20 ${controlClass}`}
+                />
+                occurrences
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { Bell, X } from 'lucide-react';
+import type { Reminder } from '../lib/api';
+import {
+  DEFAULT_REMINDER_TIME,
+  MAX_REMINDERS,
+  REMINDER_DAYS,
+  describeReminder,
+  normalizeReminders,
+} from '../lib/reminders';
+import { useReminderSettings } from '../lib/queries';
+
+const DAY_LABELS: Record<number, string> = {
+  0: 'On the due date',
+  1: '1 day before',
+  2: '2 days before',
+  7: '1 week before',
+};
+
+const controlClass =
+  'px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+interface ReminderEditorProps {
+  /** Null follows the user's default reminders; only offered with `allowDefault`. */
+  value: Reminder[] | null;
+  onChange?: (reminders: Reminder[] | null) => void;
+  allowDefault?: boolean;
+  /** Just lists the reminders, without `onChange`. */
+  readOnly?: boolean;
+}
+
+/** Edits a list of due-date reminders, for one task or as the user's default. */
+export default function ReminderEditor({ value, onChange, allowDefault = false, readOnly = false }: ReminderEditorProps) {
+  const { data: settings } = useReminderSettings();
+  const [days, setDays] = useState(1);
+  const [time, setTime] = useState(DEFAULT_REMINDER_TIME);
+
+  const defaults = settings?.default_reminders ?? [];
+  const usingDefault = allowDefault && value === null;
+  const reminders = value ?? defaults;
+
+  const add = () => onChange?.(normalizeReminders([...reminders, { days_before: days, time }]));
+  const remove = (index: number) => onChange?.(reminders.filter((_, i) => i !== index));
+
+  return (
+    <div className="space-y-3">
+      {allowDefault && !readOnly && (
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={usingDefault}
+            onChange={(e) => onChange?.(e.target.checked ? null : [...defaults])}
+            className="accent-indigo-600"
+          />
+          Use my default reminders
+        </label>
+      )}
+
+      {reminders.length === 0 ? (
+        <p className="text-sm text-gray-500">No reminders</p>
+      ) : (
+        <ul className="flex flex-wrap gap-2">
+          {reminders.map((reminder, i) => (
+            <li
+              key={`${reminder.days_before}@${reminder.time}`}
+              className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-semibold bg-amber-50 text-amber-800 border border-amber-200"
+            >
+              <Bell className="w-3 h-3" />
+              {describeReminder(reminder)}
+              {!usingDefault && !readOnly && (
+                <button
+                  type="button"
+                  onClick={() => remove(i)}
+                  aria-label={`Remove reminder ${describeReminder(reminder)}`}
+                  className="hover:text-amber-950"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {readOnly && usingDefault && <p className="text-xs text-gray-500">Your default reminders</p>}
+
+      {!usingDefault && !readOnly && reminders.length < MAX_REMINDERS && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            aria-label="When"
+            className={controlClass}
+          >
+            {REMINDER_DAYS.map((option) => (
+              <option key={option} value={option}>
+                {DAY_LABELS[option]}
+              </option>
+            ))}
+          </select>
+          <span className="text-sm text-gray-700">at</span>
+          <input
+            type="time"
+            value={time}
+            onChange={(e) => setTime(e.target.value || DEFAULT_REMINDER_TIME)}
+            aria-label="Time"
+            className={controlClass}
+          />
+          <button
+            type="button"
+            onClick={add}
+            className="px-3 py-2 text-sm font-semibold text-indigo-600 hover:text-indigo-700"
+          >
+            Add reminder
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
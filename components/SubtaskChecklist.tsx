@@ -0,0 +1,216 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, GripVertical, Plus, Trash2 } from 'lucide-react';
+import { getErrorMessage, type Task } from '../lib/api';
+import {
+  useCreateSubtask,
+  useDeleteSubtask,
+  useReorderSubtasks,
+  useSubtasks,
+  useUpdateSubtask,
+  useUpdateTask,
+} from '../lib/queries';
+
+interface SubtaskChecklistProps {
+  task: Task;
+  /** Shows progress without any controls, for viewers who don't own the task. */
+  readOnly?: boolean;
+}
+
+/** The task detail page's checklist: add, check off, reorder and delete subtasks. */
+export default function SubtaskChecklist({ task, readOnly = false }: SubtaskChecklistProps) {
+  const { data: subtasks = [], isPending } = useSubtasks(task.id);
+  const createSubtask = useCreateSubtask(task.id);
+  const updateSubtask = useUpdateSubtask(task.id);
+  const deleteSubtask = useDeleteSubtask(task.id);
+  const reorderSubtasks = useReorderSubtasks(task.id);
+  const updateTask = useUpdateTask();
+
+  const [newTitle, setNewTitle] = useState('');
+  const [error, setError] = useState('');
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+
+  const completed = subtasks.filter((subtask) => subtask.completed).length;
+  const percent = subtasks.length > 0 ? Math.round((completed / subtasks.length) * 100) : 0;
+
+  const onError = (fallback: string) => (err: unknown) => setError(getErrorMessage(err, fallback));
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const title = newTitle.trim();
+    if (!title) return;
+
+    createSubtask.mutate(title, {
+      onSuccess: () => setNewTitle(''),
+      onError: onError('Failed to add item'),
+    });
+  };
+
+  const handleToggle = (id: number, isCompleted: boolean) => {
+    setError('');
+    updateSubtask.mutate({ id, changes: { completed: isCompleted } }, { onError: onError('Failed to update item') });
+  };
+
+  const handleDelete = (id: number) => {
+    setError('');
+    deleteSubtask.mutate(id, { onError: onError('Failed to delete item') });
+  };
+
+  const moveTo = (id: number, index: number) => {
+    const ids = subtasks.map((subtask) => subtask.id).filter((other) => other !== id);
+    ids.splice(Math.max(0, Math.min(index, ids.length)), 0, id);
+    if (ids.every((other, i) => other === subtasks[i].id)) return;
+
+    setError('');
+    reorderSubtasks.mutate(ids, { onError: onError('Failed to reorder items') });
+  };
+
+  const handleAutoCompleteChange = (autoComplete: boolean) => {
+    setError('');
+    updateTask.mutate(
+      { id: task.id, changes: { auto_complete: autoComplete } },
+      { onError: onError('Failed to update task') }
+    );
+  };
+
+  if (readOnly && subtasks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-3">
+        <label className="block text-sm font-semibold text-gray-700">Checklist</label>
+        {subtasks.length > 0 && (
+          <span className="text-sm font-semibold text-gray-600">
+            {completed}/{subtasks.length} done
+          </span>
+        )}
+      </div>
+
+      {subtasks.length > 0 && (
+        <div
+          role="progressbar"
+          aria-label="Checklist progress"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}
+          className="h-2 bg-gray-100 rounded-full overflow-hidden mb-4"
+        >
+          <div
+            className="h-full bg-gradient-to-r from-indigo-500 to-purple-500 transition-all duration-300"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm font-medium text-red-700 mb-3">{error}</p>}
+
+      {isPending ? (
+        <p className="text-sm text-gray-500">Loading checklist...</p>
+      ) : (
+        <ul className="space-y-2 mb-4">
+          {subtasks.map((subtask, index) => (
+            <li
+              key={subtask.id}
+              draggable={!readOnly}
+              onDragStart={(e) => {
+                e.dataTransfer.setData('text/plain', String(subtask.id));
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggingId(subtask.id);
+              }}
+              onDragEnd={() => setDraggingId(null)}
+              onDragOver={(e) => {
+                if (draggingId !== null) e.preventDefault();
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                if (draggingId !== null) moveTo(draggingId, index);
+                setDraggingId(null);
+              }}
+              className={`flex items-center gap-3 bg-gray-50 rounded-lg px-3 py-2 border-2 border-transparent hover:border-indigo-100 ${
+                draggingId === subtask.id ? 'opacity-50' : ''
+              }`}
+            >
+              {!readOnly && (
+                <GripVertical className="w-4 h-4 text-gray-400 cursor-grab flex-shrink-0" aria-hidden />
+              )}
+              <input
+                type="checkbox"
+                checked={subtask.completed}
+                disabled={readOnly}
+                onChange={(e) => handleToggle(subtask.id, e.target.checked)}
+                className="w-4 h-4 accent-indigo-600 cursor-pointer"
+                aria-label={`Mark "${subtask.title}" as ${subtask.completed ? 'not done' : 'done'}`}
+              />
+              <span className={`flex-1 text-gray-800 ${subtask.completed ? 'line-through text-gray-400' : ''}`}>
+                {subtask.title}
+              </span>
+              {!readOnly && (
+                <>
+                  <button
+                    onClick={() => moveTo(subtask.id, index - 1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-500 hover:text-indigo-600 disabled:opacity-30 disabled:hover:text-gray-500"
+                    title="Move up"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveTo(subtask.id, index + 1)}
+                    disabled={index === subtasks.length - 1}
+                    className="p-1 text-gray-500 hover:text-indigo-600 disabled:opacity-30 disabled:hover:text-gray-500"
+                    title="Move down"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(subtask.id)}
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    title="Delete item"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!readOnly && (
+        <>
+          <form onSubmit={handleAdd} className="flex gap-2">
+            <input
+              type="text"
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              placeholder="Add an item..."
+              className="flex-1 px-4 py-2 border-2 border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              disabled={!newTitle.trim() || createSubtask.isPending}
+              className="flex items-center gap-1 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 font-medium"
+            >
+              <Plus className="w-4 h-4" />
+              Add
+            </button>
+          </form>
+
+          <label className="flex items-center gap-2 mt-4 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={task.auto_complete}
+              onChange={(e) => handleAutoCompleteChange(e.target.checked)}
+              className="w-4 h-4 accent-indigo-600"
+            />
+            Mark this task completed when every item is checked off
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, CloudOff, RefreshCw, WifiOff } from 'lucide-react';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useOutbox } from '../hooks/useOutbox';
+import { resolveConflict } from '../lib/offline/sync';
+import type { OutboxConflict } from '../lib/offline/outbox';
+import type { RealtimeStatus } from '../lib/realtime';
+
+const ACTION_LABELS = { create: 'Create', update: 'Edit', delete: 'Delete' } as const;
+
+function describe(conflict: OutboxConflict) {
+  const { entry } = conflict;
+  const title = entry.kind === 'create' ? entry.data.title : (conflict.server?.title ?? entry.base.title);
+  return `${ACTION_LABELS[entry.kind]}${title ? ` “${title}”` : ` task #${entry.taskId}`}`;
+}
+
+interface SyncStatusProps {
+  /** The live-update stream's state, if the page keeps one open. */
+  realtime?: RealtimeStatus;
+}
+
+/** Connection state, queued offline changes and sync conflicts, for the dashboard header. */
+export default function SyncStatus({ realtime }: SyncStatusProps) {
+  const queryClient = useQueryClient();
+  const online = useOnlineStatus();
+  const { entries, conflicts, syncing } = useOutbox();
+  const [showConflicts, setShowConflicts] = useState(false);
+
+  const pending = entries.length;
+  const reconnecting = online && realtime === 'reconnecting';
+  if (online && pending === 0 && conflicts.length === 0 && !reconnecting) {
+    return null;
+  }
+
+  const pendingLabel = `${pending} pending change${pending === 1 ? '' : 's'}`;
+
+  return (
+    <div className="relative flex items-center gap-2">
+      {reconnecting && pending === 0 && (
+        <span
+          role="status"
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-100 text-gray-600"
+        >
+          <WifiOff className="w-4 h-4" />
+          Reconnecting live updates…
+        </span>
+      )}
+      {(!online || pending > 0) && (
+        <span
+          role="status"
+          className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium ${
+            online ? 'bg-indigo-50 text-indigo-700' : 'bg-amber-50 text-amber-800 border border-amber-200'
+          }`}
+        >
+          {online ? (
+            <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+          ) : (
+            <CloudOff className="w-4 h-4" />
+          )}
+          {online ? (syncing ? `Syncing ${pendingLabel}` : pendingLabel) : `Offline · ${pendingLabel}`}
+        </span>
+      )}
+
+      {conflicts.length > 0 && (
+        <button
+          onClick={() => setShowConflicts((open) => !open)}
+          aria-expanded={showConflicts}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium bg-red-50 text-red-700 border border-red-200 hover:bg-red-100"
+        >
+          <AlertTriangle className="w-4 h-4" />
+          {conflicts.length} conflict{conflicts.length === 1 ? '' : 's'}
+        </button>
+      )}
+
+      {showConflicts && conflicts.length > 0 && (
+        <div className="absolute right-0 top-full mt-2 w-96 bg-white rounded-xl shadow-xl border border-gray-100 p-4 z-50">
+          <h3 className="text-sm font-semibold text-gray-900 mb-3">Changes that could not be synced</h3>
+          <ul className="space-y-3">
+            {conflicts.map((conflict) => (
+              <li key={conflict.seq} className="rounded-lg border border-gray-100 p-3">
+                <p className="text-sm font-medium text-gray-900">{describe(conflict)}</p>
+                <p className="text-xs text-gray-600 mt-1">{conflict.message}</p>
+                <div className="flex gap-2 mt-3">
+                  {conflict.reason === 'changed' ? (
+                    <>
+                      <button
+                        onClick={() => resolveConflict(queryClient, conflict, 'mine')}
+                        className="px-3 py-1 text-xs font-medium bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
+                      >
+                        Keep mine
+                      </button>
+                      <button
+                        onClick={() => resolveConflict(queryClient, conflict, 'theirs')}
+                        className="px-3 py-1 text-xs font-medium bg-white border-2 border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50"
+                      >
+                        Use server version
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => resolveConflict(queryClient, conflict, 'theirs')}
+                      className="px-3 py-1 text-xs font-medium bg-white border-2 border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50"
+                    >
+                      Discard change
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
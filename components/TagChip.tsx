@@ -0,0 +1,46 @@
+'use client';
+
+import { X } from 'lucide-react';
+import type { Tag, TagColor } from '../lib/api';
+
+/** Chip classes per tag color, shared with the tag pickers and the admin tag list. */
+export const TAG_COLOR_CLASSES: Record<TagColor, string> = {
+  gray: 'bg-gray-100 text-gray-700 border-gray-200',
+  red: 'bg-red-100 text-red-700 border-red-200',
+  orange: 'bg-orange-100 text-orange-700 border-orange-200',
+  yellow: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  green: 'bg-green-100 text-green-700 border-green-200',
+  teal: 'bg-teal-100 text-teal-700 border-teal-200',
+  blue: 'bg-blue-100 text-blue-700 border-blue-200',
+  indigo: 'bg-indigo-100 text-indigo-700 border-indigo-200',
+  purple: 'bg-purple-100 text-purple-700 border-purple-200',
+  pink: 'bg-pink-100 text-pink-700 border-pink-200',
+};
+
+interface TagChipProps {
+  tag: Pick<Tag, 'name' | 'color'>;
+  /** Shows a remove button, for tag inputs. */
+  onRemove?: () => void;
+}
+
+export default function TagChip({ tag, onRemove }: TagChipProps) {
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold border ${
+        TAG_COLOR_CLASSES[tag.color]
+      }`}
+    >
+      #{tag.name}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          className="opacity-60 hover:opacity-100"
+          aria-label={`Remove tag ${tag.name}`}
+        >
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import type { TagMatch, TaskQuery } from '../lib/api';
+import { useTags } from '../lib/queries';
+import { TAG_COLOR_CLASSES } from './TagChip';
+
+interface TagFilterProps {
+  query: TaskQuery;
+  onChange: (patch: Partial<Record<keyof TaskQuery, string>>) => void;
+}
+
+/** Toggleable tag chips that narrow a task listing to tasks with any, or all, of the picked tags. */
+export default function TagFilter({ query, onChange }: TagFilterProps) {
+  const { data: tags = [] } = useTags();
+  const selected = query.tags ? query.tags.split(',').map(Number) : [];
+  const match: TagMatch = query.tag_match ?? 'any';
+
+  if (tags.length === 0) {
+    return null;
+  }
+
+  const toggle = (id: number) => {
+    const next = selected.includes(id) ? selected.filter((other) => other !== id) : [...selected, id];
+    onChange({ tags: next.join(','), ...(next.length === 0 && { tag_match: '' }) });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-semibold text-gray-700 mr-1">Tags</span>
+      {tags.map((tag) => {
+        const active = selected.includes(tag.id);
+        return (
+          <button
+            key={tag.id}
+            onClick={() => toggle(tag.id)}
+            aria-pressed={active}
+            className={`px-3 py-1 rounded-full text-xs font-semibold border transition-all duration-200 ${
+              TAG_COLOR_CLASSES[tag.color]
+            } ${active ? 'ring-2 ring-offset-1 ring-indigo-500' : 'opacity-60 hover:opacity-100'}`}
+          >
+            #{tag.name}
+          </button>
+        );
+      })}
+
+      {selected.length > 1 && (
+        <div className="flex gap-1 bg-gray-50 rounded-lg p-1 ml-2" role="group" aria-label="Tag match">
+          {(['any', 'all'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => onChange({ tag_match: option === 'any' ? '' : option })}
+              aria-pressed={match === option}
+              className={`px-3 py-1 rounded-md text-xs font-semibold ${
+                match === option ? 'bg-white text-indigo-700 shadow-sm' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {option === 'any' ? 'Any' : 'All'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected.length > 0 && (
+        <button
+          onClick={() => onChange({ tags: '', tag_match: '' })}
+          className="px-2 py-1 text-xs font-semibold text-indigo-600 hover:text-indigo-700"
+        >
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { useId, useState } from 'react';
+import { useTags } from '../lib/queries';
+import TagChip from './TagChip';
+
+const MAX_SUGGESTIONS = 8;
+
+interface TagInputProps {
+  /** Tag names. */
+  value: string[];
+  onChange: (names: string[]) => void;
+  className?: string;
+}
+
+/**
+ * Free-form tag entry that suggests existing tags as you type. Enter or a
+ * comma adds what was typed (or the highlighted suggestion), as does leaving
+ * the field; Backspace in the empty input removes the last tag.
+ */
+export default function TagInput({ value, onChange, className = '' }: TagInputProps) {
+  const { data: tags = [] } = useTags();
+  const [text, setText] = useState('');
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const listId = useId();
+
+  const selected = new Set(value.map((name) => name.toLowerCase()));
+  const needle = text.trim().toLowerCase();
+  const suggestions = tags
+    .filter((tag) => !selected.has(tag.name.toLowerCase()) && tag.name.toLowerCase().includes(needle))
+    .slice(0, MAX_SUGGESTIONS);
+  const colorOf = (name: string) => tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase())?.color ?? 'gray';
+
+  const add = (name: string) => {
+    const trimmed = name.trim();
+    setText('');
+    setHighlighted(0);
+    if (!trimmed || selected.has(trimmed.toLowerCase())) return;
+    onChange([...value, trimmed]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      if (!text.trim()) return;
+      e.preventDefault();
+      add(open && suggestions[highlighted] ? suggestions[highlighted].name : text);
+    } else if (e.key === 'Backspace' && !text && value.length > 0) {
+      onChange(value.slice(0, -1));
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setOpen(true);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted((i) => (suggestions.length ? (i + step + suggestions.length) % suggestions.length : 0));
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <div className="flex flex-wrap items-center gap-2 w-full px-3 py-2 border-2 border-gray-200 rounded-xl focus-within:ring-2 focus-within:ring-indigo-500 focus-within:border-transparent transition-all duration-200">
+        {value.map((name) => (
+          <TagChip
+            key={name}
+            tag={{ name, color: colorOf(name) }}
+            onRemove={() => onChange(value.filter((other) => other !== name))}
+          />
+        ))}
+        <input
+          type="text"
+          role="combobox"
+          aria-expanded={open && suggestions.length > 0}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setHighlighted(0);
+            setOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setOpen(true)}
+          onBlur={() => {
+            add(text);
+            setOpen(false);
+          }}
+          placeholder={value.length === 0 ? 'Add tags, e.g. frontend, billing...' : ''}
+          className="flex-1 min-w-[8rem] py-1 focus:outline-none"
+        />
+      </div>
+
+      {open && suggestions.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-1 bg-white rounded-xl shadow-xl border border-gray-100 py-1 z-50"
+        >
+          {suggestions.map((tag, i) => (
+            <li
+              key={tag.id}
+              role="option"
+              aria-selected={i === highlighted}
+              // Mouse down, not click, and without taking focus from the input,
+              // which would close the list first.
+              onMouseDown={(e) => {
+                e.preventDefault();
+                add(tag.name);
+              }}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`flex items-center justify-between px-3 py-2 cursor-pointer ${
+                i === highlighted ? 'bg-indigo-50' : ''
+              }`}
+            >
+              <TagChip tag={tag} />
+              <span className="text-xs text-gray-500">
+                {tag.task_count} task{tag.task_count === 1 ? '' : 's'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
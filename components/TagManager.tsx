@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import { getErrorMessage, tagColorSchema, type TagColor, type TagSummary } from '../lib/api';
+import { useDeleteTag, useMergeTag, useTags, useUpdateTag } from '../lib/queries';
+import TagChip from './TagChip';
+
+/** The admin panel's tag list: rename, recolor, merge and delete tags for everyone. */
+export default function TagManager() {
+  const { data: tags = [], isPending, error: loadError } = useTags();
+  const updateTag = useUpdateTag();
+  const mergeTag = useMergeTag();
+  const deleteTag = useDeleteTag();
+
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editColor, setEditColor] = useState<TagColor>('gray');
+  const [mergeTargets, setMergeTargets] = useState<Record<number, number>>({});
+  const [error, setError] = useState('');
+
+  const startEditing = (tag: TagSummary) => {
+    setEditingId(tag.id);
+    setEditName(tag.name);
+    setEditColor(tag.color);
+  };
+
+  const handleSave = (id: number) => {
+    setError('');
+    if (!editName.trim()) {
+      setError('Tag name is required');
+      return;
+    }
+    updateTag.mutate(
+      { id, changes: { name: editName.trim(), color: editColor } },
+      {
+        onSuccess: () => setEditingId(null),
+        onError: (err) => setError(getErrorMessage(err, 'Failed to update tag')),
+      }
+    );
+  };
+
+  const handleMerge = (tag: TagSummary) => {
+    const target = tags.find((other) => other.id === mergeTargets[tag.id]);
+    if (!target) return;
+    if (!confirm(`Merge #${tag.name} into #${target.name}? Every task tagged #${tag.name} gets #${target.name} instead.`)) {
+      return;
+    }
+    setError('');
+    mergeTag.mutate(
+      { id: tag.id, into: target.id },
+      { onError: (err) => setError(getErrorMessage(err, 'Failed to merge tags')) }
+    );
+  };
+
+  const handleDelete = (tag: TagSummary) => {
+    if (!confirm(`Delete #${tag.name}? It is removed from every task that has it.`)) return;
+    setError('');
+    deleteTag.mutate(tag.id, { onError: (err) => setError(getErrorMessage(err, 'Failed to delete tag')) });
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">Manage Tags</h2>
+
+      {(error || loadError) && (
+        <div className="mb-4 rounded-md bg-red-50 p-4">
+          <p className="text-sm font-medium text-red-800">{error || getErrorMessage(loadError, 'Failed to load tags')}</p>
+        </div>
+      )}
+
+      {isPending ? (
+        <p className="text-gray-600">Loading...</p>
+      ) : tags.length === 0 ? (
+        <p className="text-gray-600">No tags yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="px-6 py-3 text-left text-sm font-medium text-gray-900">Tag</th>
+                <th className="px-6 py-3 text-left text-sm font-medium text-gray-900">Tasks</th>
+                <th className="px-6 py-3 text-left text-sm font-medium text-gray-900">Merge into</th>
+                <th className="px-6 py-3 text-left text-sm font-medium text-gray-900">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {tags.map((tag) => (
+                <tr key={tag.id}>
+                  <td className="px-6 py-4 text-sm">
+                    {editingId === tag.id ? (
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={editName}
+                          onChange={(e) => setEditName(e.target.value)}
+                          aria-label="Tag name"
+                          className="px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <select
+                          value={editColor}
+                          onChange={(e) => setEditColor(e.target.value as TagColor)}
+                          aria-label="Tag color"
+                          className="px-2 py-1 border border-gray-300 rounded-lg"
+                        >
+                          {tagColorSchema.options.map((color) => (
+                            <option key={color} value={color}>
+                              {color}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ) : (
+                      <TagChip tag={tag} />
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{tag.task_count}</td>
+                  <td className="px-6 py-4 text-sm">
+                    <div className="flex gap-2">
+                      <select
+                        value={mergeTargets[tag.id] ?? ''}
+                        onChange={(e) => setMergeTargets({ ...mergeTargets, [tag.id]: Number(e.target.value) })}
+                        aria-label={`Merge ${tag.name} into`}
+                        className="px-2 py-1 border border-gray-300 rounded-lg"
+                      >
+                        <option value="">Choose a tag...</option>
+                        {tags
+                          .filter((other) => other.id !== tag.id)
+                          .map((other) => (
+                            <option key={other.id} value={other.id}>
+                              {other.name}
+                            </option>
+                          ))}
+                      </select>
+                      <button
+                        onClick={() => handleMerge(tag)}
+                        disabled={!mergeTargets[tag.id]}
+                        className="text-blue-600 hover:text-blue-800 font-medium disabled:opacity-40"
+                      >
+                        Merge
+                      </button>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    <div className="flex gap-4">
+                      {editingId === tag.id ? (
+                        <>
+                          <button
+                            onClick={() => handleSave(tag.id)}
+                            className="text-blue-600 hover:text-blue-800 font-medium"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={() => setEditingId(null)}
+                            className="text-gray-600 hover:text-gray-800 font-medium"
+                          >
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => startEditing(tag)}
+                          className="text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          Rename
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDelete(tag)}
+                        className="text-red-600 hover:text-red-800 font-medium"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
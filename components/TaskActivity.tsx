@@ -0,0 +1,156 @@
+'use client';
+
+import { useState } from 'react';
+import { History, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { Activity, FieldChange, TrackedField } from '../lib/api';
+import { diffWords } from '../lib/diff';
+import { useTaskActivity } from '../lib/queries';
+
+const FIELD_LABELS: Record<TrackedField, string> = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  due_date: 'due date',
+  tags: 'tags',
+  assignee: 'assignee',
+};
+
+const VALUE_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
+
+const ACTION_ICONS = { created: Plus, updated: Pencil, deleted: Trash2 };
+
+interface TaskActivityProps {
+  taskId: number;
+}
+
+function formatTimestamp(value: string) {
+  return new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function formatValue(change: FieldChange, value: string) {
+  if (!value) return change.field === 'assignee' ? 'nobody' : 'none';
+  if (change.field === 'assignee') return value;
+  if (change.field === 'due_date') {
+    return new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC', year: 'numeric', month: 'short', day: 'numeric' });
+  }
+  return VALUE_LABELS[value] ?? value;
+}
+
+function DescriptionDiff({ change }: { change: FieldChange }) {
+  return (
+    <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap leading-relaxed bg-gray-50 rounded-lg p-3 border border-gray-100">
+      {diffWords(change.from, change.to).map((part, i) =>
+        part.kind === 'added' ? (
+          <ins key={i} className="bg-green-100 text-green-800 no-underline">
+            {part.text}
+          </ins>
+        ) : part.kind === 'removed' ? (
+          <del key={i} className="bg-red-100 text-red-700">
+            {part.text}
+          </del>
+        ) : (
+          <span key={i}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+function ChangeLine({ change }: { change: FieldChange }) {
+  const [showDiff, setShowDiff] = useState(false);
+
+  if (change.field === 'description') {
+    return (
+      <li>
+        {change.from ? 'edited the description' : 'added a description'}
+        {change.from && (
+          <button
+            onClick={() => setShowDiff((open) => !open)}
+            className="ml-2 text-xs font-medium text-indigo-600 hover:text-indigo-700"
+          >
+            {showDiff ? 'Hide changes' : 'Show changes'}
+          </button>
+        )}
+        {showDiff && <DescriptionDiff change={change} />}
+      </li>
+    );
+  }
+  return (
+    <li>
+      changed {FIELD_LABELS[change.field]} from{' '}
+      <span className="font-medium text-gray-900">{formatValue(change, change.from)}</span> to{' '}
+      <span className="font-medium text-gray-900">{formatValue(change, change.to)}</span>
+    </li>
+  );
+}
+
+function ActivityEntry({ entry }: { entry: Activity }) {
+  const Icon = ACTION_ICONS[entry.action];
+  return (
+    <li className="flex gap-3">
+      <span
+        className={`flex items-center justify-center w-8 h-8 rounded-full flex-shrink-0 ${
+          entry.action === 'deleted' ? 'bg-red-100 text-red-600' : 'bg-indigo-100 text-indigo-600'
+        }`}
+      >
+        <Icon className="w-4 h-4" />
+      </span>
+      <div className="flex-1 text-sm text-gray-700">
+        <p>
+          <span className="font-semibold text-gray-900">{entry.actor_name}</span>
+          {entry.action === 'created' && ' created this task'}
+          {entry.action === 'deleted' && ' deleted this task'}
+          <span className="text-xs text-gray-500 ml-2">{formatTimestamp(entry.created_at)}</span>
+        </p>
+        {entry.changes.length > 0 && (
+          <ul className="mt-1 space-y-1">
+            {entry.changes.map((change) => (
+              <ChangeLine key={change.field} change={change} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/** Who changed what on a task and when, newest first. */
+export default function TaskActivity({ taskId }: TaskActivityProps) {
+  const { data: activity = [], isPending, error } = useTaskActivity(taskId);
+
+  if (error || (!isPending && activity.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8">
+      <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-3">
+        <History className="w-4 h-4" />
+        Activity
+      </label>
+      {isPending ? (
+        <p className="text-sm text-gray-500">Loading activity...</p>
+      ) : (
+        <ol className="space-y-4">
+          {[...activity].reverse().map((entry) => (
+            <ActivityEntry key={entry.id} entry={entry} />
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
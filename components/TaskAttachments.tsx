@@ -0,0 +1,282 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Download, FileText, Paperclip, Trash2, Upload, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { attachmentAPI, getErrorMessage, isCanceled, type Attachment, type Task } from '../lib/api';
+import { ATTACHMENT_TYPES, MAX_ATTACHMENT_BYTES, attachmentProblem, formatBytes, isPreviewable } from '../lib/attachments';
+import { useAttachments, useDeleteAttachment, useUploadAttachment } from '../lib/queries';
+
+// The file picker offers the allowed types by MIME type and extension.
+const ACCEPT = Object.entries(ATTACHMENT_TYPES).flat().join(',');
+
+interface PendingUpload {
+  id: number;
+  name: string;
+  /** From 0 to 1. */
+  progress: number;
+  controller: AbortController;
+}
+
+interface TaskAttachmentsProps {
+  task: Task;
+}
+
+/** Files attached to a task: drop or pick files to upload, preview images and PDFs, download or delete. */
+export default function TaskAttachments({ task }: TaskAttachmentsProps) {
+  const { user, isAdmin } = useAuth();
+  const { data: attachments = [], isPending } = useAttachments(task.id);
+  const uploadAttachment = useUploadAttachment(task.id);
+  const deleteAttachment = useDeleteAttachment(task.id);
+
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [dragging, setDragging] = useState(false);
+  const [previewing, setPreviewing] = useState<Attachment | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const nextUploadId = useRef(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const updateUpload = (id: number, progress: number) =>
+    setUploads((current) => current.map((upload) => (upload.id === id ? { ...upload, progress } : upload)));
+  const removeUpload = (id: number) => setUploads((current) => current.filter((upload) => upload.id !== id));
+
+  // Files that break the limits are reported without being sent; the rest
+  // upload side by side. mutateAsync, since per-call callbacks of `mutate`
+  // only run for the latest of overlapping calls.
+  const handleFiles = (files: File[]) => {
+    setErrors(files.flatMap((file) => attachmentProblem(file) ?? []));
+    for (const file of files.filter((f) => !attachmentProblem(f))) {
+      const id = nextUploadId.current++;
+      const controller = new AbortController();
+      setUploads((current) => [...current, { id, name: file.name, progress: 0, controller }]);
+      uploadAttachment
+        .mutateAsync({ file, signal: controller.signal, onProgress: (progress) => updateUpload(id, progress) })
+        .catch((err: unknown) => {
+          if (!isCanceled(err)) {
+            setErrors((current) => [...current, `${file.name}: ${getErrorMessage(err, 'Failed to upload')}`]);
+          }
+        })
+        .finally(() => removeUpload(id));
+    }
+  };
+
+  const handleDelete = (attachment: Attachment) => {
+    if (!confirm(`Delete ${attachment.file_name}?`)) return;
+
+    setErrors([]);
+    deleteAttachment.mutate(attachment.id, {
+      onError: (err) => setErrors([getErrorMessage(err, 'Failed to delete attachment')]),
+    });
+  };
+
+  const canDelete = (attachment: Attachment) =>
+    attachment.user_id === user?.id || task.user_id === user?.id || isAdmin;
+
+  return (
+    <div className="mb-8">
+      <label className="block text-sm font-semibold text-gray-700 mb-3">
+        Attachments{attachments.length > 0 && ` (${attachments.length})`}
+      </label>
+
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          handleFiles(Array.from(e.dataTransfer.files));
+        }}
+        className={`flex flex-col items-center gap-2 border-2 border-dashed rounded-xl p-6 text-center transition-colors ${
+          dragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300'
+        }`}
+      >
+        <Upload className="w-6 h-6 text-indigo-500" />
+        <p className="text-sm text-gray-700">
+          Drop files here or{' '}
+          <button
+            type="button"
+            onClick={() => inputRef.current?.click()}
+            className="font-semibold text-indigo-600 hover:text-indigo-700"
+          >
+            choose files
+          </button>
+        </p>
+        <p className="text-xs text-gray-500">
+          Images, PDFs, text, CSV and ZIP files up to {formatBytes(MAX_ATTACHMENT_BYTES)}
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          accept={ACCEPT}
+          className="sr-only"
+          onChange={(e) => {
+            handleFiles(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {errors.map((message) => (
+            <li key={message} className="text-sm font-medium text-red-700">
+              {message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {uploads.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {uploads.map((upload) => (
+            <li key={upload.id} className="flex items-center gap-3 text-sm">
+              <span className="w-40 truncate text-gray-700">{upload.name}</span>
+              <span
+                role="progressbar"
+                aria-label={`Uploading ${upload.name}`}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(upload.progress * 100)}
+                className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden"
+              >
+                <span
+                  style={{ width: `${upload.progress * 100}%` }}
+                  className="block h-full bg-gradient-to-r from-indigo-600 to-purple-600 transition-all duration-200"
+                />
+              </span>
+              <span className="w-10 text-right text-gray-500">{Math.round(upload.progress * 100)}%</span>
+              <button
+                type="button"
+                onClick={() => upload.controller.abort()}
+                aria-label={`Cancel uploading ${upload.name}`}
+                className="text-gray-400 hover:text-red-600"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isPending ? (
+        <p className="text-sm text-gray-500 mt-4">Loading attachments...</p>
+      ) : (
+        attachments.length > 0 && (
+          <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3 mt-4">
+            {attachments.map((attachment) => {
+              const previewable = isPreviewable(attachment.content_type);
+              return (
+                <li key={attachment.id} className="border border-gray-200 rounded-xl overflow-hidden bg-white">
+                  <button
+                    type="button"
+                    onClick={() => setPreviewing(attachment)}
+                    disabled={!previewable}
+                    aria-label={`Preview ${attachment.file_name}`}
+                    className="w-full h-28 flex items-center justify-center bg-gray-50 enabled:hover:bg-gray-100"
+                  >
+                    {attachment.content_type.startsWith('image/') ? (
+                      // eslint-disable-next-line @next/next/no-img-element -- served by the API, not a static asset
+                      <img
+                        src={attachmentAPI.contentUrl(task.id, attachment.id)}
+                        alt={attachment.file_name}
+                        loading="lazy"
+                        className="w-full h-full object-cover"
+                      />
+                    ) : attachment.content_type === 'application/pdf' ? (
+                      <FileText className="w-10 h-10 text-red-500" />
+                    ) : (
+                      <Paperclip className="w-10 h-10 text-gray-400" />
+                    )}
+                  </button>
+                  <div className="p-2">
+                    <p className="text-sm font-medium text-gray-900 truncate" title={attachment.file_name}>
+                      {attachment.file_name}
+                    </p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {formatBytes(attachment.size)} · {attachment.uploader_name}
+                    </p>
+                    <div className="flex justify-end gap-2 mt-1">
+                      <a
+                        href={attachmentAPI.contentUrl(task.id, attachment.id, { download: true })}
+                        download={attachment.file_name}
+                        aria-label={`Download ${attachment.file_name}`}
+                        className="text-gray-400 hover:text-indigo-600"
+                      >
+                        <Download className="w-4 h-4" />
+                      </a>
+                      {canDelete(attachment) && (
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(attachment)}
+                          aria-label={`Delete ${attachment.file_name}`}
+                          className="text-gray-400 hover:text-red-600"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )
+      )}
+
+      {previewing && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4"
+          onClick={() => setPreviewing(null)}
+        >
+          <div
+            role="dialog"
+            aria-modal="true"
+            aria-label={previewing.file_name}
+            onClick={(e) => e.stopPropagation()}
+            className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full max-h-[90vh] flex flex-col overflow-hidden"
+          >
+            <div className="flex items-center justify-between gap-4 px-4 py-3 border-b border-gray-200">
+              <p className="font-semibold text-gray-900 truncate">{previewing.file_name}</p>
+              <div className="flex items-center gap-3">
+                <a
+                  href={attachmentAPI.contentUrl(task.id, previewing.id, { download: true })}
+                  download={previewing.file_name}
+                  className="flex items-center gap-1 text-sm font-semibold text-indigo-600 hover:text-indigo-700"
+                >
+                  <Download className="w-4 h-4" />
+                  Download
+                </a>
+                <button
+                  type="button"
+                  onClick={() => setPreviewing(null)}
+                  aria-label="Close preview"
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+            {previewing.content_type === 'application/pdf' ? (
+              <iframe
+                src={attachmentAPI.contentUrl(task.id, previewing.id)}
+                title={previewing.file_name}
+                className="w-full h-[80vh]"
+              />
+            ) : (
+              // eslint-disable-next-line @next/next/no-img-element -- served by the API, not a static asset
+              <img
+                src={attachmentAPI.contentUrl(task.id, previewing.id)}
+                alt={previewing.file_name}
+                className="max-h-[80vh] object-contain mx-auto"
+              />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
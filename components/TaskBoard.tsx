@@ -0,0 +1,168 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import type { Task, TaskStatus } from '../lib/api';
+import { formatDateKey } from '../lib/recurrence';
+import TagChip from './TagChip';
+
+const COLUMNS: { status: TaskStatus; label: string; accent: string }[] = [
+  { status: 'pending', label: 'Pending', accent: 'from-yellow-500 to-orange-600' },
+  { status: 'in_progress', label: 'In Progress', accent: 'from-indigo-500 to-purple-600' },
+  { status: 'completed', label: 'Completed', accent: 'from-green-500 to-emerald-600' },
+];
+
+interface TaskBoardProps {
+  tasks: Task[];
+  onMove: (taskId: number, status: TaskStatus) => void;
+}
+
+export default function TaskBoard({ tasks, onMove }: TaskBoardProps) {
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<TaskStatus | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+
+  const moveTask = (task: Task, status: TaskStatus) => {
+    if (task.status === status) return;
+    onMove(task.id, status);
+    const column = COLUMNS.find((c) => c.status === status);
+    setAnnouncement(`Moved "${task.title}" to ${column?.label}`);
+  };
+
+  const handleDrop = (e: React.DragEvent, status: TaskStatus) => {
+    e.preventDefault();
+    const task = tasks.find((t) => t.id === Number(e.dataTransfer.getData('text/plain')));
+    if (task) {
+      moveTask(task, status);
+    }
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  // Arrow keys move the focused card one column left or right; focus follows
+  // the card into its new column.
+  const handleCardKeyDown = (e: React.KeyboardEvent, task: Task) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+    e.preventDefault();
+    const index = COLUMNS.findIndex((c) => c.status === task.status);
+    const target = COLUMNS[index + (e.key === 'ArrowRight' ? 1 : -1)];
+    if (!target) return;
+    moveTask(task, target.status);
+    requestAnimationFrame(() => {
+      document.querySelector<HTMLElement>(`[data-board-task="${task.id}"]`)?.focus();
+    });
+  };
+
+  return (
+    <>
+      <p id="task-board-instructions" className="sr-only">
+        Drag a card to another column, or focus it and press the left or right arrow key to move it.
+      </p>
+      <p className="sr-only" aria-live="polite">
+        {announcement}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {COLUMNS.map((column) => {
+          const columnTasks = tasks.filter((t) => t.status === column.status);
+          return (
+            <section
+              key={column.status}
+              aria-label={column.label}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(column.status);
+              }}
+              onDragLeave={() => setDropTarget((current) => (current === column.status ? null : current))}
+              onDrop={(e) => handleDrop(e, column.status)}
+              className={`rounded-2xl p-4 min-h-[16rem] border-2 transition-all duration-200 ${
+                dropTarget === column.status
+                  ? 'border-indigo-300 bg-indigo-50'
+                  : 'border-gray-100 bg-gray-50'
+              }`}
+            >
+              <h3 className="flex items-center justify-between mb-4">
+                <span className="flex items-center gap-2 font-bold text-gray-900">
+                  <span className={`w-3 h-3 rounded-full bg-gradient-to-br ${column.accent}`}></span>
+                  {column.label}
+                </span>
+                <span className="text-sm font-semibold text-gray-500">{columnTasks.length}</span>
+              </h3>
+
+              <div className="space-y-3">
+                {columnTasks.map((task) => (
+                  <div
+                    key={task.id}
+                    data-board-task={task.id}
+                    draggable
+                    tabIndex={0}
+                    aria-describedby="task-board-instructions"
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/plain', String(task.id));
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggingId(task.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setDropTarget(null);
+                    }}
+                    onKeyDown={(e) => handleCardKeyDown(e, task)}
+                    className={`bg-white border-2 border-gray-100 rounded-xl p-4 shadow-sm hover:shadow-md hover:border-indigo-200 transition-all duration-200 cursor-grab focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                      draggingId === task.id ? 'opacity-50' : ''
+                    }`}
+                  >
+                    <Link
+                      href={`/tasks/${task.id}`}
+                      className="font-semibold text-gray-900 hover:text-indigo-600 transition-colors"
+                    >
+                      {task.title}
+                    </Link>
+                    <div className="flex flex-wrap gap-2 mt-3">
+                      <span
+                        className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                          task.priority === 'high'
+                            ? 'bg-gradient-to-r from-red-500 to-pink-500 text-white'
+                            : task.priority === 'medium'
+                            ? 'bg-gradient-to-r from-yellow-400 to-orange-400 text-white'
+                            : 'bg-gradient-to-r from-green-400 to-emerald-400 text-white'
+                        }`}
+                      >
+                        {task.priority.toUpperCase()}
+                      </span>
+                      {task.due_date && (
+                        <span className="px-3 py-1 rounded-full text-xs font-semibold bg-purple-100 text-purple-700">
+                          📅 {formatDateKey(task.due_date)}
+                        </span>
+                      )}
+                      {task.subtask_count > 0 && (
+                        <span className="px-3 py-1 rounded-full text-xs font-semibold bg-indigo-100 text-indigo-700">
+                          ☑ {task.subtasks_completed}/{task.subtask_count}
+                        </span>
+                      )}
+                      {task.comment_count > 0 && (
+                        <span className="px-3 py-1 rounded-full text-xs font-semibold bg-gray-100 text-gray-700">
+                          💬 {task.comment_count}
+                        </span>
+                      )}
+                      {task.attachment_count > 0 && (
+                        <span className="px-3 py-1 rounded-full text-xs font-semibold bg-gray-100 text-gray-700">
+                          📎 {task.attachment_count}
+                        </span>
+                      )}
+                      {task.tags.map((tag) => (
+                        <TagChip key={tag.id} tag={tag} />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                {columnTasks.length === 0 && (
+                  <p className="text-sm text-gray-400 text-center py-6">Drop tasks here</p>
+                )}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+    </>
+  );
+}
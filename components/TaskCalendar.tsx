@@ -0,0 +1,205 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { Task } from '../lib/api';
+
+type CalendarMode = 'month' | 'week';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Day keys are local-calendar `YYYY-MM-DD` strings, the same format the
+// due date input and the backend use.
+function toDateKey(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function addDays(date: Date, days: number) {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+function startOfWeek(date: Date) {
+  return addDays(new Date(date.getFullYear(), date.getMonth(), date.getDate()), -date.getDay());
+}
+
+function visibleDays(cursor: Date, mode: CalendarMode) {
+  if (mode === 'week') {
+    const start = startOfWeek(cursor);
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+  }
+  const start = startOfWeek(new Date(cursor.getFullYear(), cursor.getMonth(), 1));
+  return Array.from({ length: 42 }, (_, i) => addDays(start, i));
+}
+
+const PRIORITY_CHIP: Record<Task['priority'], string> = {
+  high: 'bg-red-100 text-red-800 border-red-200',
+  medium: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  low: 'bg-green-100 text-green-800 border-green-200',
+};
+
+/** The first and last visible day, as `YYYY-MM-DD` keys. */
+export interface CalendarRange {
+  from: string;
+  to: string;
+}
+
+interface TaskCalendarProps {
+  /** The tasks due in the visible range, which is reported through `onRangeChange`. */
+  tasks: Task[];
+  onRangeChange: (range: CalendarRange) => void;
+  onReschedule: (taskId: number, dueDate: string) => void;
+  onCreateOnDate: (dueDate: string) => void;
+}
+
+export default function TaskCalendar({ tasks, onRangeChange, onReschedule, onCreateOnDate }: TaskCalendarProps) {
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [cursor, setCursor] = useState(() => new Date());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const days = visibleDays(cursor, mode);
+  const todayKey = toDateKey(new Date());
+  const tasksByDay = new Map<string, Task[]>();
+  for (const task of tasks) {
+    if (!task.due_date) continue;
+    const key = task.due_date.slice(0, 10);
+    tasksByDay.set(key, [...(tasksByDay.get(key) ?? []), task]);
+  }
+
+  const from = toDateKey(days[0]);
+  const to = toDateKey(days[days.length - 1]);
+  useEffect(() => onRangeChange({ from, to }), [from, to, onRangeChange]);
+
+  const step = (direction: 1 | -1) => {
+    setCursor((current) =>
+      mode === 'week'
+        ? addDays(current, 7 * direction)
+        : new Date(current.getFullYear(), current.getMonth() + direction, 1)
+    );
+  };
+
+  const title =
+    mode === 'week'
+      ? `${days[0].toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${days[6].toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+      : cursor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+  const handleDrop = (e: React.DragEvent, dayKey: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const task = tasks.find((t) => t.id === Number(e.dataTransfer.getData('text/plain')));
+    if (task && task.due_date.slice(0, 10) !== dayKey) {
+      onReschedule(task.id, dayKey);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => step(-1)}
+            aria-label={mode === 'week' ? 'Previous week' : 'Previous month'}
+            className="p-2 rounded-lg text-gray-600 hover:bg-gray-100"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <button
+            onClick={() => setCursor(new Date())}
+            className="px-3 py-1.5 rounded-lg text-sm font-semibold text-gray-600 hover:bg-gray-100"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => step(1)}
+            aria-label={mode === 'week' ? 'Next week' : 'Next month'}
+            className="p-2 rounded-lg text-gray-600 hover:bg-gray-100"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+          </button>
+          <h3 className="text-lg font-bold text-gray-900 ml-2">{title}</h3>
+        </div>
+        <div className="flex gap-1 bg-gray-50 rounded-xl p-1" role="group" aria-label="Calendar range">
+          {(['month', 'week'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              aria-pressed={mode === option}
+              className={`px-3 py-1.5 rounded-lg text-sm font-semibold transition-all duration-200 ${
+                mode === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {option === 'month' ? 'Month' : 'Week'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 gap-px bg-gray-200 rounded-xl overflow-hidden border border-gray-200">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="bg-gray-50 px-2 py-2 text-xs font-semibold text-gray-600 text-center">
+            {weekday}
+          </div>
+        ))}
+        {days.map((day) => {
+          const dayKey = toDateKey(day);
+          const dayTasks = tasksByDay.get(dayKey) ?? [];
+          const outsideMonth = mode === 'month' && day.getMonth() !== cursor.getMonth();
+          return (
+            <div
+              key={dayKey}
+              onClick={() => onCreateOnDate(dayKey)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(dayKey);
+              }}
+              onDragLeave={() => setDropTarget((current) => (current === dayKey ? null : current))}
+              onDrop={(e) => handleDrop(e, dayKey)}
+              title="Click to create a task on this day"
+              className={`p-1.5 cursor-pointer transition-colors ${mode === 'week' ? 'min-h-[16rem]' : 'min-h-[6.5rem]'} ${
+                dropTarget === dayKey ? 'bg-indigo-50' : outsideMonth ? 'bg-gray-50' : 'bg-white hover:bg-gray-50'
+              }`}
+            >
+              <div
+                className={`text-xs font-semibold mb-1 w-6 h-6 flex items-center justify-center rounded-full ${
+                  dayKey === todayKey
+                    ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white'
+                    : outsideMonth
+                    ? 'text-gray-400'
+                    : 'text-gray-700'
+                }`}
+              >
+                {day.getDate()}
+              </div>
+              <div className="space-y-1">
+                {dayTasks.map((task) => (
+                  <Link
+                    key={task.id}
+                    href={`/tasks/${task.id}`}
+                    draggable
+                    onClick={(e) => e.stopPropagation()}
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/plain', String(task.id));
+                      e.dataTransfer.effectAllowed = 'move';
+                    }}
+                    className={`block truncate px-2 py-1 rounded-md border text-xs font-medium ${PRIORITY_CHIP[task.priority]} ${
+                      task.status === 'completed' ? 'opacity-50 line-through' : ''
+                    }`}
+                  >
+                    {task.title}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { Pencil, Trash2 } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { getErrorMessage, type Comment } from '../lib/api';
+import { useComments, useCreateComment, useDeleteComment, useUpdateComment } from '../lib/queries';
+import Markdown from './Markdown';
+
+interface TaskCommentsProps {
+  taskId: number;
+}
+
+function formatTimestamp(value: string) {
+  return new Date(value).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/** The discussion thread under a task's description. */
+export default function TaskComments({ taskId }: TaskCommentsProps) {
+  const { user, isAdmin } = useAuth();
+  const { data: comments = [], isPending } = useComments(taskId);
+  const createComment = useCreateComment(taskId);
+  const updateComment = useUpdateComment(taskId);
+  const deleteComment = useDeleteComment(taskId);
+
+  const [draft, setDraft] = useState('');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [error, setError] = useState('');
+
+  const onError = (fallback: string) => (err: unknown) => setError(getErrorMessage(err, fallback));
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (!draft.trim()) return;
+
+    createComment.mutate(draft, {
+      onSuccess: () => setDraft(''),
+      onError: onError('Failed to post comment'),
+    });
+  };
+
+  const startEditing = (comment: Comment) => {
+    setEditingId(comment.id);
+    setEditBody(comment.body);
+  };
+
+  const handleSaveEdit = (id: number) => {
+    setError('');
+    if (!editBody.trim()) {
+      setError('Comment cannot be empty');
+      return;
+    }
+
+    // The editor stays open with the text until the save goes through.
+    updateComment.mutate(
+      { id, body: editBody },
+      {
+        onSuccess: () => setEditingId((current) => (current === id ? null : current)),
+        onError: onError('Failed to update comment'),
+      }
+    );
+  };
+
+  const handleDelete = (comment: Comment) => {
+    const moderating = comment.user_id !== user?.id;
+    if (!confirm(moderating ? `Delete ${comment.author_name}'s comment?` : 'Delete this comment?')) return;
+
+    setError('');
+    deleteComment.mutate(comment.id, { onError: onError('Failed to delete comment') });
+  };
+
+  return (
+    <div className="mb-8">
+      <label className="block text-sm font-semibold text-gray-700 mb-3">
+        Comments{comments.length > 0 && ` (${comments.length})`}
+      </label>
+
+      {error && <p className="text-sm font-medium text-red-700 mb-3">{error}</p>}
+
+      {isPending ? (
+        <p className="text-sm text-gray-500">Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No comments yet. Start the discussion below.</p>
+      ) : (
+        <ul className="space-y-4 mb-6">
+          {comments.map((comment) => {
+            const isAuthor = comment.user_id === user?.id;
+            return (
+              <li key={comment.id} className="bg-gray-50 rounded-xl p-4 border border-gray-100">
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <div>
+                    <span className="font-semibold text-gray-900">{comment.author_name}</span>
+                    <span className="text-xs text-gray-500 ml-2">
+                      {formatTimestamp(comment.created_at)}
+                      {comment.updated_at && ' (edited)'}
+                    </span>
+                  </div>
+                  <div className="flex gap-1">
+                    {isAuthor && editingId !== comment.id && (
+                      <button
+                        onClick={() => startEditing(comment)}
+                        className="p-1 text-gray-500 hover:text-indigo-600"
+                        title="Edit comment"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                    )}
+                    {(isAuthor || isAdmin) && (
+                      <button
+                        onClick={() => handleDelete(comment)}
+                        className="p-1 text-gray-500 hover:text-red-600"
+                        title={isAuthor ? 'Delete comment' : 'Delete comment (moderation)'}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {editingId === comment.id ? (
+                  <div>
+                    <textarea
+                      value={editBody}
+                      onChange={(e) => setEditBody(e.target.value)}
+                      rows={4}
+                      className="w-full px-4 py-3 border-2 border-indigo-500 rounded-xl text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                    />
+                    <div className="flex gap-2 mt-2">
+                      <button
+                        onClick={() => handleSaveEdit(comment.id)}
+                        disabled={updateComment.isPending}
+                        className="px-4 py-1.5 text-sm font-medium bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setEditingId(null)}
+                        className="px-4 py-1.5 text-sm font-medium bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <Markdown className="text-gray-700 leading-relaxed">{comment.body}</Markdown>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreate}>
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={3}
+          placeholder="Write a comment..."
+          className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+        />
+        <div className="flex items-center justify-between mt-2">
+          <p className="text-xs text-gray-500">Markdown supported: **bold**, _italic_, `code`, lists and links.</p>
+          <button
+            type="submit"
+            disabled={!draft.trim() || createComment.isPending}
+            className="px-5 py-2 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-lg hover:from-indigo-700 hover:to-purple-700 disabled:opacity-50 font-medium"
+          >
+            Comment
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
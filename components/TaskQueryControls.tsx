@@ -0,0 +1,98 @@
+'use client';
+
+import type { SortOrder, TaskPriority, TaskQuery, TaskSortField } from '../lib/api';
+
+const SORT_FIELDS: { value: TaskSortField; label: string }[] = [
+  { value: 'created_at', label: 'Created' },
+  { value: 'due_date', label: 'Due date' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'title', label: 'Title' },
+  { value: 'status', label: 'Status' },
+];
+
+interface TaskQueryControlsProps {
+  query: TaskQuery;
+  onChange: (patch: Partial<Record<keyof TaskQuery, string>>) => void;
+}
+
+const controlClass =
+  'px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+/** Sort, priority and due-date range controls shared by task listings. */
+export default function TaskQueryControls({ query, onChange }: TaskQueryControlsProps) {
+  const order: SortOrder = query.order ?? 'desc';
+  const hasFilters = query.priority || query.due_from || query.due_to;
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <label className="text-sm font-semibold text-gray-700">
+        <span className="block mb-1">Sort by</span>
+        <div className="flex gap-1">
+          <select
+            value={query.sort ?? 'created_at'}
+            onChange={(e) => onChange({ sort: e.target.value })}
+            className={controlClass}
+          >
+            {SORT_FIELDS.map((field) => (
+              <option key={field.value} value={field.value}>
+                {field.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => onChange({ order: order === 'asc' ? 'desc' : 'asc' })}
+            aria-label={order === 'asc' ? 'Ascending, switch to descending' : 'Descending, switch to ascending'}
+            className="px-3 py-2 border-2 border-gray-200 rounded-lg text-sm hover:bg-gray-50"
+          >
+            {order === 'asc' ? '↑' : '↓'}
+          </button>
+        </div>
+      </label>
+
+      <label className="text-sm font-semibold text-gray-700">
+        <span className="block mb-1">Priority</span>
+        <select
+          value={query.priority ?? ''}
+          onChange={(e) => onChange({ priority: e.target.value as TaskPriority | '' })}
+          className={controlClass}
+        >
+          <option value="">Any</option>
+          <option value="high">High</option>
+          <option value="medium">Medium</option>
+          <option value="low">Low</option>
+        </select>
+      </label>
+
+      <label className="text-sm font-semibold text-gray-700">
+        <span className="block mb-1">Due from</span>
+        <input
+          type="date"
+          value={query.due_from ?? ''}
+          onChange={(e) => onChange({ due_from: e.target.value })}
+          className={controlClass}
+        />
+      </label>
+
+      <label className="text-sm font-semibold text-gray-700">
+        <span className="block mb-1">Due to</span>
+        <input
+          type="date"
+          value={query.due_to ?? ''}
+          onChange={(e) => onChange({ due_to: e.target.value })}
+          className={controlClass}
+        />
+      </label>
+
+      {hasFilters && (
+        <button
+          type="button"
+          onClick={() => onChange({ priority: '', due_from: '', due_to: '' })}
+          className="px-3 py-2 text-sm font-semibold text-indigo-600 hover:text-indigo-700"
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
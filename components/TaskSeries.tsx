@@ -0,0 +1,87 @@
+'use client';
+
+import Link from 'next/link';
+import { Repeat } from 'lucide-react';
+import type { Task } from '../lib/api';
+import { describeRecurrence, todayKey, upcomingDates } from '../lib/recurrence';
+import { useTaskSeries } from '../lib/queries';
+
+const UPCOMING_PREVIEW = 3;
+
+const STATUS_LABELS = { pending: 'Pending', in_progress: 'In Progress', completed: 'Completed' } as const;
+
+function formatDate(value: string) {
+  return value
+    ? new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC', year: 'numeric', month: 'short', day: 'numeric' })
+    : 'No due date';
+}
+
+interface TaskSeriesProps {
+  task: Task;
+}
+
+/** The occurrences of a recurring task so far, and the dates of the next few. */
+export default function TaskSeries({ task }: TaskSeriesProps) {
+  const isRecurring = task.series_id !== null;
+  const { data: series = [], isPending } = useTaskSeries(task.id, isRecurring);
+
+  if (!isRecurring) {
+    return null;
+  }
+
+  const latest = series[series.length - 1] ?? task;
+  const upcoming =
+    latest.recurrence && latest.occurrence !== null
+      ? upcomingDates(latest.recurrence, latest.due_date || todayKey(), latest.occurrence, UPCOMING_PREVIEW)
+      : [];
+
+  return (
+    <div className="mb-8">
+      <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 mb-3">
+        <Repeat className="w-4 h-4" />
+        Series
+        <span className="font-normal text-gray-500">
+          · {task.recurrence ? describeRecurrence(task.recurrence) : 'No longer repeats'}
+        </span>
+      </label>
+
+      {isPending ? (
+        <p className="text-sm text-gray-500">Loading series...</p>
+      ) : (
+        <ol className="space-y-2">
+          {series.map((occurrence) => (
+            <li key={occurrence.id}>
+              <Link
+                href={`/tasks/${occurrence.id}`}
+                aria-current={occurrence.id === task.id ? 'page' : undefined}
+                className={`flex items-center justify-between gap-4 rounded-lg px-3 py-2 text-sm border-2 ${
+                  occurrence.id === task.id
+                    ? 'border-indigo-200 bg-indigo-50'
+                    : 'border-transparent bg-gray-50 hover:border-indigo-100'
+                }`}
+              >
+                <span className="font-medium text-gray-900">
+                  #{occurrence.occurrence} · {formatDate(occurrence.due_date)}
+                </span>
+                <span className={occurrence.status === 'completed' ? 'text-green-700' : 'text-gray-600'}>
+                  {STATUS_LABELS[occurrence.status]}
+                </span>
+              </Link>
+            </li>
+          ))}
+          {upcoming.map((date, i) => (
+            <li
+              key={date}
+              className="flex items-center justify-between gap-4 rounded-lg px-3 py-2 text-sm border-2 border-dashed border-gray-200 text-gray-500"
+            >
+              <span>
+                #{(latest.occurrence ?? 0) + i + 1} · {formatDate(date)}
+              </span>
+              <span>Created when the previous one is completed</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+export interface TimelineSeries<K extends string> {
+  key: K;
+  label: string;
+  /** Background color classes for the bars and the legend swatch. */
+  className: string;
+}
+
+interface TimelineChartProps<K extends string> {
+  /** One entry per day, or per week starting on `date`, oldest first. */
+  days: ({ date: string } & Record<K, number>)[];
+  series: TimelineSeries<K>[];
+  unit?: 'day' | 'week';
+  /** Called with the day and series of the bar clicked; without it the bars only show their counts. */
+  onSelect?: (date: string, series: K) => void;
+}
+
+function formatDay(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', month: 'short', day: 'numeric' });
+}
+
+/** Counts over time, as a group of bars per day or week. */
+export default function TimelineChart<K extends string>({ days, series, unit = 'day', onSelect }: TimelineChartProps<K>) {
+  const max = Math.max(1, ...days.flatMap((day) => series.map((s) => day[s.key])));
+  // Enough labels to read the axis without crowding it.
+  const labelEvery = Math.ceil(days.length / 8);
+
+  return (
+    <div>
+      <div className="flex gap-4 mb-3 text-xs text-gray-600">
+        {series.map((s) => (
+          <span key={s.key} className="flex items-center gap-1.5">
+            <span className={`w-3 h-3 rounded-sm ${s.className}`} />
+            {s.label}
+          </span>
+        ))}
+        <span className="ml-auto text-gray-400">
+          Peak: {max} a {unit}
+        </span>
+      </div>
+
+      <div className="flex items-end gap-px h-48 border-b border-l border-gray-200 px-1">
+        {days.map((day) => (
+          <div key={day.date} className="flex-1 min-w-0 flex items-end justify-center gap-px h-full">
+            {series.map((s) => {
+              const count = day[s.key];
+              const label = `${count} ${s.label.toLowerCase()} ${unit === 'week' ? 'in the week of' : 'on'} ${formatDay(day.date)}`;
+              return (
+                <button
+                  key={s.key}
+                  type="button"
+                  onClick={() => onSelect?.(day.date, s.key)}
+                  disabled={!onSelect || count === 0}
+                  title={label}
+                  aria-label={label}
+                  style={{ height: `${(count / max) * 100}%` }}
+                  className={`flex-1 max-w-4 rounded-t-sm transition-colors ${s.className}`}
+                />
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-px px-1 mt-1 text-[10px] text-gray-500">
+        {days.map((day, i) => (
+          <div key={day.date} className="flex-1 min-w-0 text-center overflow-visible whitespace-nowrap">
+            {i % labelEvery === 0 ? formatDay(day.date) : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
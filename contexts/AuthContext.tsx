@@ -1,74 +1,67 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { authAPI } from '../lib/api';
-
-interface User {
-  id: number;
-  email: string;
-  name: string;
-  role: 'user' | 'admin';
-}
+import { useQueryClient } from '@tanstack/react-query';
+import { authAPI, onSessionExpired, type User } from '../lib/api';
+import { setOutboxUser } from '../lib/offline/outbox';
 
 interface AuthContextType {
   user: User | null;
-  token: string | null;
-  loading: boolean;
-  register: (email: string, password: string, name: string) => Promise<void>;
-  login: (email: string, password: string) => Promise<void>;
-  logout: () => void;
+  register: (email: string, password: string, name: string) => Promise<User>;
+  /** `newPassword` is only needed once an admin has forced a password reset. */
+  login: (email: string, password: string, newPassword?: string) => Promise<User>;
+  logout: () => Promise<void>;
   isAdmin: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-export function AuthProvider({ children }: { children: React.ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
-  const [token, setToken] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+// The session lives in httpOnly cookies; the root layout resolves the user on
+// the server and hands it in as `initialUser`.
+export function AuthProvider({
+  children,
+  initialUser,
+}: {
+  children: React.ReactNode;
+  initialUser: User | null;
+}) {
+  const [user, setUser] = useState<User | null>(initialUser);
+  const queryClient = useQueryClient();
 
- 
-  useEffect(() => {
-    const savedToken = localStorage.getItem('token');
-    if (savedToken) {
-      setToken(savedToken);
-      fetchUser();
-    } else {
-      setLoading(false);
-    }
-  }, []);
+  // Once a refresh fails the session cookies are already cleared; reload into
+  // the login page so no page keeps rendering with a half-valid session.
+  useEffect(
+    () =>
+      onSessionExpired(() => {
+        const { pathname, search } = window.location;
+        if (pathname.startsWith('/login')) return;
+        const params = new URLSearchParams({ reason: 'session_expired', returnTo: pathname + search });
+        window.location.assign(`/login?${params}`);
+      }),
+    []
+  );
 
-  const fetchUser = async () => {
-    try {
-      const response = await authAPI.getMe();
-      setUser(response.data);
-    } catch (_error) {
-      localStorage.removeItem('token');
-      setToken(null);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Queued offline writes are replayed only for the user who made them.
+  useEffect(() => setOutboxUser(user?.id ?? null), [user]);
 
   const register = async (email: string, password: string, name: string) => {
-    const response = await authAPI.register(email, password, name);
-    const { token: newToken, user: userData } = response.data;
-    localStorage.setItem('token', newToken);
-    setToken(newToken);
+    const userData = await authAPI.register(email, password, name);
+    queryClient.clear();
     setUser(userData);
+    return userData;
   };
 
-  const login = async (email: string, password: string) => {
-    const response = await authAPI.login(email, password);
-    const { token: newToken, user: userData } = response.data;
-    localStorage.setItem('token', newToken);
-    setToken(newToken);
+  const login = async (email: string, password: string, newPassword?: string) => {
+    const userData = await authAPI.login(email, password, newPassword);
+    queryClient.clear();
     setUser(userData);
+    return userData;
   };
 
-  const logout = () => {
-    localStorage.removeItem('token');
-    setToken(null);
+  const logout = async () => {
+    await authAPI.logout();
+    // Nothing cached for one account may leak into the next session.
+    queryClient.clear();
     setUser(null);
   };
 
@@ -76,8 +69,6 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     <AuthContext.Provider
       value={{
         user,
-        token,
-        loading,
         register,
         login,
         logout,
@@ -0,0 +1,86 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { QueryClient, useQueryClient } from '@tanstack/react-query';
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import { kvStorage } from '../lib/offline/idb';
+import { loadOutbox } from '../lib/offline/outbox';
+import { syncOutbox } from '../lib/offline/sync';
+import { tagKeys, taskKeys } from '../lib/queries';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useOutbox } from '../hooks/useOutbox';
+
+// Cached task data is kept this long, in memory and in IndexedDB, so the
+// dashboard still has something to show after a long stretch offline.
+const OFFLINE_CACHE_TIME = 7 * 24 * 60 * 60 * 1000;
+const SYNC_RETRY_INTERVAL = 30 * 1000;
+
+// Replays the outbox whenever there is something queued and the browser is
+// online, retrying periodically since `navigator.onLine` can be optimistic.
+function OutboxSync() {
+  const queryClient = useQueryClient();
+  const online = useOnlineStatus();
+  const pending = useOutbox().entries.length;
+
+  useEffect(() => {
+    loadOutbox();
+  }, []);
+
+  useEffect(() => {
+    if (!online || pending === 0) return;
+    syncOutbox(queryClient);
+    const timer = setInterval(() => syncOutbox(queryClient), SYNC_RETRY_INTERVAL);
+    return () => clearInterval(timer);
+  }, [online, pending, queryClient]);
+
+  return null;
+}
+
+export function QueryProvider({ children }: { children: React.ReactNode }) {
+  // One client per browser session; created in state so server renders don't
+  // share a cache between requests.
+  const [queryClient] = useState(
+    () =>
+      new QueryClient({
+        defaultOptions: {
+          queries: {
+            staleTime: 30 * 1000,
+            gcTime: OFFLINE_CACHE_TIME,
+            retry: 1,
+          },
+          // Task writes decide for themselves whether to send or queue (see
+          // lib/queries.ts), so mutations must not pause while offline.
+          mutations: {
+            networkMode: 'always',
+          },
+        },
+      })
+  );
+  const [persister] = useState(() =>
+    createAsyncStoragePersister({
+      storage: typeof window === 'undefined' ? undefined : kvStorage,
+      key: 'query-cache',
+    })
+  );
+
+  return (
+    <PersistQueryClientProvider
+      client={queryClient}
+      persistOptions={{
+        persister,
+        maxAge: OFFLINE_CACHE_TIME,
+        // Only the caller's own tasks, and the tags for autocomplete, are
+        // needed offline.
+        dehydrateOptions: {
+          shouldDehydrateQuery: (query) =>
+            query.state.status === 'success' &&
+            (query.queryKey[0] === taskKeys.all[0] || query.queryKey[0] === tagKeys.all[0]),
+        },
+      }}
+    >
+      <OutboxSync />
+      {children}
+    </PersistQueryClientProvider>
+  );
+}
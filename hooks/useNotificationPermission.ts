@@ -0,0 +1,34 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+
+// Notification.permission has no change event of its own, so `request`
+// announces the answer with this one.
+const CHANGE_EVENT = 'notification-permission-change';
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+function subscribe(onChange: () => void) {
+  window.addEventListener(CHANGE_EVENT, onChange);
+  return () => window.removeEventListener(CHANGE_EVENT, onChange);
+}
+
+function getPermission(): NotificationPermissionState {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+/**
+ * Whether the browser may show notifications, and a function that asks the
+ * user. Renders 'default' on the server and until hydration.
+ */
+export function useNotificationPermission() {
+  const permission = useSyncExternalStore(subscribe, getPermission, () => 'default' as const);
+
+  const request = useCallback(async () => {
+    if (typeof Notification === 'undefined') return;
+    await Notification.requestPermission();
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  return [permission, request] as const;
+}
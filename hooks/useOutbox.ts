@@ -0,0 +1,9 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { getOutboxSnapshot, subscribeOutbox } from '../lib/offline/outbox';
+
+/** The signed-in user's queued writes and unresolved conflicts. */
+export function useOutbox() {
+  return useSyncExternalStore(subscribeOutbox, getOutboxSnapshot, getOutboxSnapshot);
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+
+// Same-tab writes don't fire the `storage` event, so setters announce
+// themselves with this one instead.
+const CHANGE_EVENT = 'preference-change';
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('storage', onChange);
+  window.addEventListener(CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener('storage', onChange);
+    window.removeEventListener(CHANGE_EVENT, onChange);
+  };
+}
+
+/**
+ * A string preference kept in localStorage. Renders `defaultValue` on the
+ * server and until hydration, then the stored value.
+ */
+export function usePreference<T extends string>(key: string, defaultValue: T, allowed: readonly T[]) {
+  const stored = useSyncExternalStore(
+    subscribe,
+    () => localStorage.getItem(key),
+    () => null
+  );
+  const value = stored !== null && allowed.includes(stored as T) ? (stored as T) : defaultValue;
+
+  const setValue = useCallback(
+    (next: T) => {
+      localStorage.setItem(key, next);
+      window.dispatchEvent(new Event(CHANGE_EVENT));
+    },
+    [key]
+  );
+
+  return [value, setValue] as const;
+}
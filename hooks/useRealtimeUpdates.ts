@@ -0,0 +1,58 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import type { TaskNotification } from '../lib/api';
+import { connectRealtime, type RealtimeStatus } from '../lib/realtime';
+import { adminKeys, applyRealtimeEvent, notificationKeys, taskKeys } from '../lib/queries';
+import { describeDue } from '../lib/reminders';
+
+// A reminder that just went off, shown by the browser outside the page when
+// the user allowed it. The notification center lists it either way.
+function showReminder(notification: TaskNotification, open: (href: string) => void) {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  const shown = new Notification(notification.task_title, {
+    body: `Reminder: ${describeDue(notification.due_date)}`,
+    // The same for every open tab, so the browser shows it once.
+    tag: `reminder-${notification.id}-${notification.remind_at}`,
+  });
+  shown.onclick = () => {
+    window.focus();
+    open(`/tasks/${notification.task_id}`);
+    shown.close();
+  };
+}
+
+/**
+ * Keeps the cached tasks (and, for admins, users) current while the calling
+ * page is mounted, by merging pushed changes into the query cache, and shows
+ * reminders as they go off. Returns the connection status.
+ */
+export function useRealtimeUpdates() {
+  const queryClient = useQueryClient();
+  const router = useRouter();
+  const [status, setStatus] = useState<RealtimeStatus>('connecting');
+
+  useEffect(
+    () =>
+      connectRealtime({
+        onEvent: (event) => {
+          applyRealtimeEvent(queryClient, event);
+          if (event.type === 'notification.created') {
+            showReminder(event.notification, router.push);
+          }
+        },
+        onStatusChange: setStatus,
+        // Whatever changed while the stream was down was never pushed.
+        onReconnect: () => {
+          queryClient.invalidateQueries({ queryKey: taskKeys.all });
+          queryClient.invalidateQueries({ queryKey: adminKeys.all });
+          queryClient.invalidateQueries({ queryKey: notificationKeys.all });
+        },
+      }),
+    [queryClient, router]
+  );
+
+  return status;
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { useState } from 'react';
+import type { BulkTarget, TaskQuery } from '../lib/api';
+
+interface Selection {
+  key: string;
+  /** Every task matching the filter, apart from `ids`; otherwise just `ids`. */
+  all: boolean;
+  ids: number[];
+  /** The last task clicked, where a shift-click range starts. */
+  anchor: number | null;
+}
+
+const empty = (key: string): Selection => ({ key, all: false, ids: [], anchor: null });
+
+/**
+ * The tasks picked for a bulk action from a filtered listing: single tasks,
+ * kept across pages, or every task matching `filter`. Changing the filter
+ * drops the selection, since it no longer describes the listing.
+ */
+export function useTaskSelection(filter: TaskQuery) {
+  const key = JSON.stringify(filter);
+  const [state, setState] = useState<Selection>(() => empty(key));
+  const selection = state.key === key ? state : empty(key);
+
+  const isSelected = (id: number) => selection.all !== selection.ids.includes(id);
+
+  const set = (ids: number[], selected: boolean, anchor = selection.anchor) => {
+    // In "all" mode `ids` lists the exceptions, so selecting removes from it.
+    const add = selected !== selection.all;
+    const rest = selection.ids.filter((id) => !ids.includes(id));
+    setState({ ...selection, ids: add ? [...rest, ...ids] : rest, anchor });
+  };
+
+  /** Toggles task `id`; with `extend`, every task of `pageIds` from the last one clicked up to it. */
+  const toggle = (id: number, pageIds: number[], extend: boolean) => {
+    const selected = !isSelected(id);
+    const from = selection.anchor === null ? -1 : pageIds.indexOf(selection.anchor);
+    const to = pageIds.indexOf(id);
+    if (extend && from !== -1 && to !== -1) {
+      set(pageIds.slice(Math.min(from, to), Math.max(from, to) + 1), selected, id);
+    } else {
+      set([id], selected, id);
+    }
+  };
+
+  return {
+    all: selection.all,
+    isSelected,
+    toggle,
+    /** Selects or deselects every task of `pageIds`. */
+    setPage: (pageIds: number[], selected: boolean) => set(pageIds, selected),
+    selectAll: () => setState({ key, all: true, ids: [], anchor: null }),
+    /** Replaces the selection with exactly `ids`. */
+    select: (ids: number[]) => setState({ key, all: false, ids, anchor: null }),
+    clear: () => setState(empty(key)),
+    /** How many tasks are selected, out of `total` matching the filter. */
+    count: (total: number) => (selection.all ? total - selection.ids.length : selection.ids.length),
+    target: (): BulkTarget =>
+      selection.all ? { filter, exclude: selection.ids } : { ids: selection.ids },
+  };
+}
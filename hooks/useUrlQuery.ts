@@ -0,0 +1,42 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+type QueryValue = string | number | undefined;
+
+/**
+ * Reads typed state from the URL query string and writes patches back with
+ * `router.replace`. Any patch that doesn't set `page` itself sends the list
+ * back to the first page, since the old page may no longer exist. Pass
+ * `{ reset: true }` to drop every other parameter.
+ */
+export function useUrlQuery<T extends object>(parse: (params: URLSearchParams) => T) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const queryString = searchParams.toString();
+
+  const query = useMemo(() => parse(new URLSearchParams(queryString)), [parse, queryString]);
+
+  const setQuery = useCallback(
+    (patch: { [K in keyof T]?: QueryValue } & Record<string, QueryValue>, { reset = false } = {}) => {
+      const next = new URLSearchParams(reset ? '' : queryString);
+      for (const [key, value] of Object.entries(patch)) {
+        if (value === undefined || value === '') {
+          next.delete(key);
+        } else {
+          next.set(key, String(value));
+        }
+      }
+      if (!('page' in patch)) {
+        next.delete('page');
+      }
+      const search = next.toString();
+      router.replace(search ? `${pathname}?${search}` : pathname, { scroll: false });
+    },
+    [pathname, queryString, router]
+  );
+
+  return [query, setQuery, queryString] as const;
+}
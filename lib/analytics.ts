@@ -0,0 +1,29 @@
+// Shared by the admin analytics tab and the personal insights page.
+
+/** The "Last n days" ranges offered next to the date pickers. */
+export const RANGE_PRESETS = [7, 30, 90];
+
+/** A duration in hours, in the largest unit that reads well: "25 min", "3.5 hours", "4.2 days". */
+export function formatHours(hours: number) {
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))} min`;
+  if (hours < 48) return `${hours.toFixed(1)} hours`;
+  return `${(hours / 24).toFixed(1)} days`;
+}
+
+/**
+ * Daily counts added up per week, weeks starting on Monday. Each week is
+ * dated by its first day in `days`, so a range starting midweek keeps its
+ * first, partial week.
+ */
+export function sumByWeek(days: { date: string; count: number }[]) {
+  const weeks: { date: string; count: number }[] = [];
+  for (const day of days) {
+    const last = weeks.at(-1);
+    if (last && new Date(`${day.date}T00:00:00Z`).getUTCDay() !== 1) {
+      last.count += day.count;
+    } else {
+      weeks.push({ date: day.date, count: day.count });
+    }
+  }
+  return weeks;
+}
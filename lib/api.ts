@@ -1,54 +1,533 @@
-import axios from 'axios';
+import axios, { type InternalAxiosRequestConfig } from 'axios';
+import { z } from 'zod';
+import {
+  activitySchema,
+  adminTaskSchema,
+  adminUserSchema,
+  analyticsSchema,
+  attachmentSchema,
+  bulkResponseSchema,
+  commentSchema,
+  insightsSchema,
+  notificationListSchema,
+  notificationSchema,
+  pageSchema,
+  reminderSettingsSchema,
+  sessionResponseSchema,
+  subtaskSchema,
+  tagSchema,
+  tagSummarySchema,
+  taskPageSchema,
+  taskSchema,
+  userSchema,
+  type Recurrence,
+  type Reminder,
+  type TagColor,
+  type TaskPriority,
+  type TaskStatus,
+} from './schemas';
 
-interface CreateTaskData {
+export * from './schemas';
+
+export interface CreateTaskData {
   title: string;
   description: string;
-  priority: 'low' | 'medium' | 'high';
+  priority: TaskPriority;
+  /** Left out, new tasks start pending. */
+  status?: TaskStatus;
   due_date?: string;
+  /** Tag names; ones that don't exist yet are created. */
+  tags?: string[];
+  recurrence?: Recurrence | null;
+  /** Null, or left out, follows the user's default reminders. */
+  reminders?: Reminder[] | null;
+  /** Left out, the task is assigned to its creator; null leaves it unassigned. */
+  assignee_id?: number | null;
 }
 
-interface UpdateTaskData {
+export interface UpdateTaskData {
   title?: string;
   description?: string;
-  status?: 'pending' | 'in_progress' | 'completed';
-  priority?: 'low' | 'medium' | 'high';
+  status?: TaskStatus;
+  priority?: TaskPriority;
   due_date?: string;
+  auto_complete?: boolean;
+  /** Replaces the task's tags; names that don't exist yet are created. */
+  tags?: string[];
+  /** Applies to the whole series; null stops it repeating. */
+  recurrence?: Recurrence | null;
+  /** Null goes back to the user's default reminders. */
+  reminders?: Reminder[] | null;
+  /** Null leaves the task unassigned. */
+  assignee_id?: number | null;
+}
+
+/**
+ * Which tasks of a recurring series an edit applies to: `this` occurrence
+ * only, or it and every occurrence after it, including ones not created yet.
+ */
+export type UpdateScope = 'this' | 'future';
+
+/**
+ * The tasks a bulk action applies to: the given `ids`, or every one of the
+ * caller's tasks matching `filter` (paging and sorting are ignored) apart
+ * from `exclude`.
+ */
+export type BulkTarget = { ids: number[] } | { filter: TaskQuery; exclude?: number[] };
+
+export type BulkAction =
+  | { action: 'update'; changes: Pick<UpdateTaskData, 'status' | 'priority' | 'due_date'> }
+  | { action: 'delete' };
+
+/** What happens to a deleted user's tasks: deleted with them, or handed over to user `to`. */
+export type DeletedUserTasks = { action: 'delete' } | { action: 'reassign'; to: number };
+
+export interface UpdateTagData {
+  name?: string;
+  color?: TagColor;
+}
+
+export type TagMatch = 'any' | 'all';
+
+/** How the caller relates to a task: it is `assigned` to them, or they `created` it. */
+export type TaskRelation = 'assigned' | 'created';
+
+export interface UpdateReminderSettingsData {
+  default_reminders?: Reminder[];
+  time_zone?: string;
+}
+
+export interface UpdateSubtaskData {
+  title?: string;
+  completed?: boolean;
+}
+
+export interface UploadOptions {
+  /** Called as the file is sent, with the share sent so far from 0 to 1. */
+  onProgress?: (progress: number) => void;
+  /** Aborting it cancels the upload; the call then rejects with an error `isCanceled` recognizes. */
+  signal?: AbortSignal;
 }
 
-const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api';
+export type SortOrder = 'asc' | 'desc';
+export type TaskSortField = 'created_at' | 'due_date' | 'priority' | 'title' | 'status';
+export type UserSortField = 'id' | 'name' | 'email' | 'role';
+
+/** Server-side paging, sorting and filtering for task listings. */
+export interface TaskQuery {
+  page?: number;
+  page_size?: number;
+  sort?: TaskSortField;
+  order?: SortOrder;
+  status?: TaskStatus;
+  priority?: TaskPriority;
+  /** Inclusive `YYYY-MM-DD` bounds on `due_date`. */
+  due_from?: string;
+  due_to?: string;
+  /** Comma-separated tag ids. */
+  tags?: string;
+  /** Whether a task needs `any` of `tags` (the default) or `all` of them. */
+  tag_match?: TagMatch;
+  /** Matched against title and description. */
+  search?: string;
+  /** Only the caller's tasks related to them this way; by default both. Ignored for admin listings. */
+  mine?: TaskRelation;
+  /** Inclusive `YYYY-MM-DD` bounds on `created_at`. */
+  created_from?: string;
+  created_to?: string;
+  /** Inclusive `YYYY-MM-DD` bounds on `completed_at`; only completed tasks match. */
+  completed_from?: string;
+  completed_to?: string;
+  /** Only tasks assigned to this user, or to nobody with `none`. */
+  assignee?: number | 'none';
+  /** Only open tasks past their due date. */
+  overdue?: boolean;
+}
+
+/** The inclusive `YYYY-MM-DD` range analytics and insights cover; the backend defaults to the last 30 days. */
+export interface AnalyticsQuery {
+  from?: string;
+  to?: string;
+}
+
+export interface UserQuery {
+  page?: number;
+  page_size?: number;
+  sort?: UserSortField;
+  order?: SortOrder;
+  /** Matched against name and email. */
+  search?: string;
+}
+
+/**
+ * Thrown when the backend answers with a payload that does not match the
+ * shape the frontend expects, so contract drift surfaces as an error instead
+ * of `undefined` in the UI.
+ */
+export class ApiContractError extends Error {
+  constructor(
+    public readonly endpoint: string,
+    public readonly issues: z.ZodIssue[]
+  ) {
+    super(
+      `Unexpected response from ${endpoint}: ` +
+        issues.map((issue) => `${issue.path.join('.') || '(root)'} ${issue.message}`).join('; ')
+    );
+    this.name = 'ApiContractError';
+  }
+}
+
+// Requests go to the Next.js route handlers under /api, which hold the session
+// in httpOnly cookies and forward to the backend (see lib/server/session.ts).
+const API_URL = '/api';
 
 export const api = axios.create({
   baseURL: API_URL,
 });
 
+let sessionExpiredHandler: (() => void) | null = null;
+
+/**
+ * Registers the callback run once the session can no longer be refreshed.
+ * Returns an unsubscribe function so it can be used directly in an effect.
+ */
+export function onSessionExpired(handler: () => void) {
+  sessionExpiredHandler = handler;
+  return () => {
+    if (sessionExpiredHandler === handler) {
+      sessionExpiredHandler = null;
+    }
+  };
+}
 
-api.interceptors.request.use((config) => {
-  const token = localStorage.getItem('token');
-  if (token) {
-    config.headers.Authorization = `Bearer ${token}`;
+// Shared by every request that hits a 401 while a refresh is in flight, so
+// the refresh endpoint is called once and the others retry behind it.
+let pendingRefresh: Promise<void> | null = null;
+
+/** Renews the session cookies; rejects (after notifying `onSessionExpired`) if that is no longer possible. */
+export function refreshSession(): Promise<void> {
+  if (!pendingRefresh) {
+    pendingRefresh = (async () => {
+      try {
+        // Plain axios so the refresh call bypasses these interceptors.
+        await axios.post(`${API_URL}/auth/refresh`);
+      } catch (err) {
+        sessionExpiredHandler?.();
+        throw err;
+      }
+    })().finally(() => {
+      pendingRefresh = null;
+    });
   }
-  return config;
+  return pendingRefresh;
+}
+
+const NO_REFRESH_ENDPOINTS = ['/auth/login', '/auth/register', '/auth/refresh'];
+
+api.interceptors.response.use(undefined, async (error) => {
+  const request = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+  if (
+    !axios.isAxiosError(error) ||
+    error.response?.status !== 401 ||
+    !request ||
+    request._retried ||
+    NO_REFRESH_ENDPOINTS.includes(request.url ?? '')
+  ) {
+    throw error;
+  }
+
+  request._retried = true;
+  try {
+    await refreshSession();
+  } catch {
+    throw error;
+  }
+  return api(request);
 });
 
+const userPageSchema = pageSchema(adminUserSchema);
+const subtaskListSchema = z.array(subtaskSchema);
+const commentListSchema = z.array(commentSchema);
+const attachmentListSchema = z.array(attachmentSchema);
+const activityListSchema = z.array(activitySchema);
+const tagListSchema = z.array(tagSummarySchema);
+const taskListSchema = z.array(taskSchema);
+const userListSchema = z.array(userSchema);
+const adminTaskPageSchema = pageSchema(adminTaskSchema);
+
+function parse<T extends z.ZodTypeAny>(schema: T, endpoint: string, data: unknown): z.output<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new ApiContractError(endpoint, result.error.issues);
+  }
+  return result.data;
+}
+
 export const authAPI = {
-  register: (email: string, password: string, name: string) =>
-    api.post('/auth/register', { email, password, name }),
-  login: (email: string, password: string) =>
-    api.post('/auth/login', { email, password }),
-  getMe: () => api.get('/auth/me'),
+  register: async (email: string, password: string, name: string) => {
+    const response = await api.post('/auth/register', { email, password, name });
+    return parse(sessionResponseSchema, 'POST /auth/register', response.data).user;
+  },
+  /** `newPassword` replaces the password when an admin has forced a reset. */
+  login: async (email: string, password: string, newPassword?: string) => {
+    const response = await api.post('/auth/login', { email, password, new_password: newPassword });
+    return parse(sessionResponseSchema, 'POST /auth/login', response.data).user;
+  },
+  getMe: async () => {
+    const response = await api.get('/auth/me');
+    return parse(userSchema, 'GET /auth/me', response.data);
+  },
+  logout: async () => {
+    await api.post('/auth/logout');
+  },
 };
 
 export const taskAPI = {
-  create: (data: CreateTaskData) => api.post('/tasks', data),
-  getAll: () => api.get('/tasks'),
-  getById: (id: number) => api.get(`/tasks/${id}`),
-  update: (id: number, data: UpdateTaskData) => api.put(`/tasks/${id}`, data),  // ← SUDAH ADA
-  delete: (id: number) => api.delete(`/tasks/${id}`),
+  create: async (data: CreateTaskData) => {
+    const response = await api.post('/tasks', data);
+    return parse(taskSchema, 'POST /tasks', response.data);
+  },
+  getAll: async (query: TaskQuery = {}) => {
+    const response = await api.get('/tasks', { params: query });
+    return parse(taskPageSchema, 'GET /tasks', response.data);
+  },
+  getById: async (id: number) => {
+    const response = await api.get(`/tasks/${id}`);
+    return parse(taskSchema, `GET /tasks/${id}`, response.data);
+  },
+  update: async (id: number, data: UpdateTaskData, scope: UpdateScope = 'this') => {
+    const response = await api.put(`/tasks/${id}`, data, { params: scope === 'this' ? undefined : { scope } });
+    return parse(taskSchema, `PUT /tasks/${id}`, response.data);
+  },
+  delete: async (id: number) => {
+    await api.delete(`/tasks/${id}`);
+  },
+  /**
+   * Applies one change, or a delete, to many tasks at once. Tasks fail
+   * independently; the results say which did and why.
+   */
+  bulk: async (target: BulkTarget, action: BulkAction) => {
+    const response = await api.post('/tasks/bulk', { ...target, ...action });
+    return parse(bulkResponseSchema, 'POST /tasks/bulk', response.data);
+  },
+  getInsights: async (query: AnalyticsQuery = {}) => {
+    const response = await api.get('/tasks/insights', { params: query });
+    return parse(insightsSchema, 'GET /tasks/insights', response.data);
+  },
+  /** Every task in the same recurring series as task `id`, in order. */
+  getSeries: async (id: number) => {
+    const response = await api.get(`/tasks/${id}/series`);
+    return parse(taskListSchema, `GET /tasks/${id}/series`, response.data);
+  },
+  /** The task's history, oldest first. Still available after the task is deleted. */
+  getActivity: async (id: number) => {
+    const response = await api.get(`/tasks/${id}/activity`);
+    return parse(activityListSchema, `GET /tasks/${id}/activity`, response.data);
+  },
+};
+
+export const subtaskAPI = {
+  getAll: async (taskId: number) => {
+    const response = await api.get(`/tasks/${taskId}/subtasks`);
+    return parse(subtaskListSchema, `GET /tasks/${taskId}/subtasks`, response.data);
+  },
+  create: async (taskId: number, title: string) => {
+    const response = await api.post(`/tasks/${taskId}/subtasks`, { title });
+    return parse(subtaskSchema, `POST /tasks/${taskId}/subtasks`, response.data);
+  },
+  update: async (taskId: number, subtaskId: number, data: UpdateSubtaskData) => {
+    const response = await api.put(`/tasks/${taskId}/subtasks/${subtaskId}`, data);
+    return parse(subtaskSchema, `PUT /tasks/${taskId}/subtasks/${subtaskId}`, response.data);
+  },
+  delete: async (taskId: number, subtaskId: number) => {
+    await api.delete(`/tasks/${taskId}/subtasks/${subtaskId}`);
+  },
+  /** Sets the order of all of a task's subtasks at once; `ids` lists every subtask. */
+  reorder: async (taskId: number, ids: number[]) => {
+    const response = await api.put(`/tasks/${taskId}/subtasks/order`, { ids });
+    return parse(subtaskListSchema, `PUT /tasks/${taskId}/subtasks/order`, response.data);
+  },
+};
+
+// Anyone who can see a task can comment on it. Authors edit and delete their
+// own comments; admins can delete any comment.
+export const commentAPI = {
+  getAll: async (taskId: number) => {
+    const response = await api.get(`/tasks/${taskId}/comments`);
+    return parse(commentListSchema, `GET /tasks/${taskId}/comments`, response.data);
+  },
+  create: async (taskId: number, body: string) => {
+    const response = await api.post(`/tasks/${taskId}/comments`, { body });
+    return parse(commentSchema, `POST /tasks/${taskId}/comments`, response.data);
+  },
+  update: async (taskId: number, commentId: number, body: string) => {
+    const response = await api.put(`/tasks/${taskId}/comments/${commentId}`, { body });
+    return parse(commentSchema, `PUT /tasks/${taskId}/comments/${commentId}`, response.data);
+  },
+  delete: async (taskId: number, commentId: number) => {
+    await api.delete(`/tasks/${taskId}/comments/${commentId}`);
+  },
+};
+
+export const attachmentAPI = {
+  getAll: async (taskId: number) => {
+    const response = await api.get(`/tasks/${taskId}/attachments`);
+    return parse(attachmentListSchema, `GET /tasks/${taskId}/attachments`, response.data);
+  },
+  /** Sends `file` as `multipart/form-data`. */
+  upload: async (taskId: number, file: File, { onProgress, signal }: UploadOptions = {}) => {
+    const form = new FormData();
+    form.append('file', file);
+    const response = await api.post(`/tasks/${taskId}/attachments`, form, {
+      signal,
+      onUploadProgress: (event) => onProgress?.(event.total ? event.loaded / event.total : 0),
+    });
+    return parse(attachmentSchema, `POST /tasks/${taskId}/attachments`, response.data);
+  },
+  delete: async (taskId: number, attachmentId: number) => {
+    await api.delete(`/tasks/${taskId}/attachments/${attachmentId}`);
+  },
+  /**
+   * Where the browser loads the file from, e.g. as an image source. Images
+   * and PDFs are served for viewing, other files and `download` ones as
+   * downloads.
+   */
+  contentUrl: (taskId: number, attachmentId: number, { download = false } = {}) =>
+    `${API_URL}/tasks/${taskId}/attachments/${attachmentId}/content${download ? '?download=1' : ''}`,
+};
+
+export const tagAPI = {
+  getAll: async () => {
+    const response = await api.get('/tags');
+    return parse(tagListSchema, 'GET /tags', response.data);
+  },
+};
+
+// The people a task can be assigned to; open to every user, unlike the admin
+// listing.
+export const userAPI = {
+  /** Active users whose name or email matches `search`, at most 20. */
+  search: async (search: string) => {
+    const response = await api.get('/users', { params: { search } });
+    return parse(userListSchema, 'GET /users', response.data);
+  },
+};
+
+// Reminders go off on the backend, which pushes each one over the realtime
+// channel as it does; the list here is the notification center's history.
+export const notificationAPI = {
+  getAll: async () => {
+    const response = await api.get('/notifications');
+    return parse(notificationListSchema, 'GET /notifications', response.data);
+  },
+  markRead: async (id: number, read: boolean) => {
+    const response = await api.put(`/notifications/${id}`, { read });
+    return parse(notificationSchema, `PUT /notifications/${id}`, response.data);
+  },
+  markAllRead: async () => {
+    await api.post('/notifications/read-all');
+  },
+  /** Hides the notification for `minutes`, after which it goes off again. */
+  snooze: async (id: number, minutes: number) => {
+    const response = await api.post(`/notifications/${id}/snooze`, { minutes });
+    return parse(notificationSchema, `POST /notifications/${id}/snooze`, response.data);
+  },
+  getSettings: async () => {
+    const response = await api.get('/notifications/settings');
+    return parse(reminderSettingsSchema, 'GET /notifications/settings', response.data);
+  },
+  updateSettings: async (data: UpdateReminderSettingsData) => {
+    const response = await api.put('/notifications/settings', data);
+    return parse(reminderSettingsSchema, 'PUT /notifications/settings', response.data);
+  },
 };
 
 export const adminAPI = {
-  getAllUsers: () => api.get('/admin/users'),
-  getAllTasks: () => api.get('/admin/tasks'),
-  promoteUser: (userId: number) => api.post(`/admin/promote/${userId}`),
-  deleteTask: (taskId: number) => api.delete(`/admin/tasks/${taskId}`),
+  getAllUsers: async (query: UserQuery = {}) => {
+    const response = await api.get('/admin/users', { params: query });
+    return parse(userPageSchema, 'GET /admin/users', response.data);
+  },
+  getAllTasks: async (query: TaskQuery = {}) => {
+    const response = await api.get('/admin/tasks', { params: query });
+    return parse(adminTaskPageSchema, 'GET /admin/tasks', response.data);
+  },
+  getAnalytics: async (query: AnalyticsQuery = {}) => {
+    const response = await api.get('/admin/analytics', { params: query });
+    return parse(analyticsSchema, 'GET /admin/analytics', response.data);
+  },
+  promoteUser: async (userId: number) => {
+    await api.post(`/admin/promote/${userId}`);
+  },
+  demoteUser: async (userId: number) => {
+    await api.post(`/admin/demote/${userId}`);
+  },
+  /** Signs the user out everywhere; they can't sign in again until reactivated. */
+  deactivateUser: async (userId: number) => {
+    await api.post(`/admin/deactivate/${userId}`);
+  },
+  reactivateUser: async (userId: number) => {
+    await api.post(`/admin/reactivate/${userId}`);
+  },
+  /** Signs the user out everywhere and makes them choose a new password at their next sign-in. */
+  forcePasswordReset: async (userId: number) => {
+    await api.post(`/admin/reset-password/${userId}`);
+  },
+  deleteUser: async (userId: number, tasks: DeletedUserTasks) => {
+    await api.delete(`/admin/users/${userId}`, {
+      params: tasks.action === 'reassign' ? { tasks: 'reassign', reassign_to: tasks.to } : { tasks: 'delete' },
+    });
+  },
+  deleteTask: async (taskId: number) => {
+    await api.delete(`/admin/tasks/${taskId}`);
+  },
+  /** Reassigns any task; null leaves it unassigned. */
+  assignTask: async (taskId: number, assigneeId: number | null) => {
+    const response = await api.put(`/admin/tasks/${taskId}/assignee`, { assignee_id: assigneeId });
+    return parse(adminTaskSchema, `PUT /admin/tasks/${taskId}/assignee`, response.data);
+  },
+  updateTag: async (tagId: number, data: UpdateTagData) => {
+    const response = await api.put(`/admin/tags/${tagId}`, data);
+    return parse(tagSchema, `PUT /admin/tags/${tagId}`, response.data);
+  },
+  /** Moves every task tagged `tagId` over to `intoId`, then deletes `tagId`. */
+  mergeTag: async (tagId: number, intoId: number) => {
+    const response = await api.post(`/admin/tags/${tagId}/merge`, { into: intoId });
+    return parse(tagSchema, `POST /admin/tags/${tagId}/merge`, response.data);
+  },
+  deleteTag: async (tagId: number) => {
+    await api.delete(`/admin/tags/${tagId}`);
+  },
 };
+
+/**
+ * Extracts a user-facing message from a failed API call: the backend's
+ * `{ error }` body when present, the contract violation for malformed
+ * payloads, otherwise the given fallback.
+ */
+export function getErrorMessage(err: unknown, fallback: string): string {
+  if (axios.isAxiosError<{ error?: string }>(err)) {
+    return err.response?.data?.error || fallback;
+  }
+  if (err instanceof ApiContractError) {
+    return err.message;
+  }
+  return fallback;
+}
+
+/**
+ * The machine-readable `code` of a failed API call, for the few errors the UI
+ * reacts to rather than just shows.
+ */
+export function getErrorCode(err: unknown): string | undefined {
+  return axios.isAxiosError<{ code?: string }>(err) ? err.response?.data?.code : undefined;
+}
+
+/** True when the request was aborted through its `signal`. */
+export function isCanceled(err: unknown) {
+  return axios.isCancel(err);
+}
+
+/** True when a request got no answer at all, e.g. because the device is offline. */
+export function isNetworkError(err: unknown) {
+  return axios.isAxiosError(err) && !err.response;
+}
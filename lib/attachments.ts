@@ -0,0 +1,73 @@
+// Limits on task attachments, shared by the upload form (to reject a file
+// before sending it) and the mock backend (which enforces them).
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/** The file types that can be attached, with the extensions the picker offers. */
+export const ATTACHMENT_TYPES: Record<string, string> = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg,.jpeg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'application/pdf': '.pdf',
+  'text/plain': '.txt',
+  'text/csv': '.csv',
+  'application/zip': '.zip',
+};
+
+// Other names browsers report for the same types: Windows gives CSV and ZIP
+// files the types of the programs registered for them.
+const TYPE_ALIASES: Record<string, string> = {
+  'application/vnd.ms-excel': 'text/csv',
+  'application/csv': 'text/csv',
+  'application/x-zip-compressed': 'application/zip',
+  'application/x-zip': 'application/zip',
+  'image/jpg': 'image/jpeg',
+};
+
+// Types that say nothing about the file, for which the extension decides.
+const GENERIC_TYPES = ['', 'application/octet-stream'];
+
+/** The allowed type `file` is stored and served as, or null if it can't be attached. */
+export function attachmentType(file: { name: string; type: string }) {
+  if (Object.hasOwn(ATTACHMENT_TYPES, file.type)) {
+    return file.type;
+  }
+  if (Object.hasOwn(TYPE_ALIASES, file.type)) {
+    return TYPE_ALIASES[file.type];
+  }
+  if (GENERIC_TYPES.includes(file.type)) {
+    const extension = /\.[^.]+$/.exec(file.name.toLowerCase())?.[0];
+    const match = Object.entries(ATTACHMENT_TYPES).find(([, extensions]) =>
+      extensions.split(',').includes(extension ?? '')
+    );
+    return match?.[0] ?? null;
+  }
+  return null;
+}
+
+// Images and PDFs open in the browser; everything else is only downloaded,
+// so uploaded files can't run as pages of this site.
+export function isPreviewable(contentType: string) {
+  return contentType.startsWith('image/') || contentType === 'application/pdf';
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Why `file` can't be attached, or null if it can. */
+export function attachmentProblem(file: { name: string; type: string; size: number }) {
+  if (!attachmentType(file)) {
+    return `${file.name}: only images, PDFs, text, CSV and ZIP files can be attached`;
+  }
+  if (file.size === 0) {
+    return `${file.name} is empty`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is ${formatBytes(file.size)}; attachments can be at most ${formatBytes(MAX_ATTACHMENT_BYTES)}`;
+  }
+  return null;
+}
@@ -0,0 +1,60 @@
+export interface DiffPart {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Past this many words on either side the LCS table gets too large to build
+// in the browser, so the whole text is shown as replaced instead.
+const MAX_WORDS = 2000;
+
+function tokenize(text: string) {
+  // Whitespace runs are kept as tokens so the parts join back into the text.
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+function push(parts: DiffPart[], kind: DiffPart['kind'], text: string) {
+  const last = parts[parts.length - 1];
+  if (last?.kind === kind) {
+    last.text += text;
+  } else {
+    parts.push({ kind, text });
+  }
+}
+
+/** A word-level diff of `before` and `after`, via the longest common subsequence. */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+
+  if (a.length > MAX_WORDS || b.length > MAX_WORDS) {
+    if (before) push(parts, 'removed', before);
+    if (after) push(parts, 'added', after);
+    return parts;
+  }
+
+  // lcs[i][j] is the LCS length of a[i..] and b[j..].
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(parts, 'same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push(parts, 'removed', a[i++]);
+    } else {
+      push(parts, 'added', b[j++]);
+    }
+  }
+  for (; i < a.length; i++) push(parts, 'removed', a[i]);
+  for (; j < b.length; j++) push(parts, 'added', b[j]);
+  return parts;
+}
@@ -0,0 +1,192 @@
+import type { Page, Task } from './schemas';
+import { describeRecurrence, todayKey } from './recurrence';
+
+// Turns task listings into downloadable files: CSV for spreadsheets, JSON for
+// backups and iCalendar for calendar and to-do apps. Everything is built in
+// the browser from the same listings the pages show.
+
+export type ExportFormat = 'csv' | 'json' | 'ics';
+
+/** Admin listings carry the owner's name as well. */
+export type ExportTask = Task & { owner_name?: string };
+
+/** Identifies the JSON backup format; bump `EXPORT_VERSION` whenever its shape changes. */
+export const EXPORT_FORMAT_ID = 'task-manager/tasks';
+export const EXPORT_VERSION = 1;
+
+// Page size and cap for collecting every matching task.
+const EXPORT_PAGE_SIZE = 100;
+export const MAX_EXPORT_TASKS = 10_000;
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  ics: 'text/calendar;charset=utf-8',
+};
+
+/** Every item of a paginated listing, page by page, up to MAX_EXPORT_TASKS. */
+export async function fetchAllPages<T>(fetchPage: (page: number, pageSize: number) => Promise<Page<T>>) {
+  const items: T[] = [];
+  for (let page = 1; ; page++) {
+    const result = await fetchPage(page, EXPORT_PAGE_SIZE);
+    items.push(...result.items);
+    if (result.items.length === 0 || items.length >= result.total || items.length >= MAX_EXPORT_TASKS) {
+      return items.slice(0, MAX_EXPORT_TASKS);
+    }
+  }
+}
+
+function pad(value: number) {
+  return String(value).padStart(2, '0');
+}
+
+// An ISO 8601 timestamp in the browser's time zone with its UTC offset, e.g.
+// 2026-03-01T09:30:00+01:00, so spreadsheets show the exporter's wall clock
+// without losing the instant.
+function localTimestamp(value: string) {
+  if (!value) return '';
+  const date = new Date(value);
+  const offset = -date.getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}` +
+    `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+  );
+}
+
+// RFC 4180: fields with a comma, quote or line break are quoted, quotes
+// doubled. Text that a spreadsheet would run as a formula gets a leading
+// apostrophe.
+function csvField(value: string | number) {
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS: { header: string; value: (task: ExportTask) => string | number }[] = [
+  { header: 'id', value: (task) => task.id },
+  { header: 'title', value: (task) => task.title },
+  { header: 'description', value: (task) => task.description },
+  { header: 'status', value: (task) => task.status },
+  { header: 'priority', value: (task) => task.priority },
+  { header: 'due_date', value: (task) => task.due_date.slice(0, 10) },
+  { header: 'created_at', value: (task) => localTimestamp(task.created_at) },
+  { header: 'completed_at', value: (task) => localTimestamp(task.completed_at) },
+  { header: 'owner', value: (task) => task.owner_name || task.creator_name },
+  { header: 'assignee', value: (task) => task.assignee_name },
+  { header: 'tags', value: (task) => task.tags.map((tag) => tag.name).join(', ') },
+  { header: 'repeats', value: (task) => (task.recurrence ? describeRecurrence(task.recurrence) : '') },
+  { header: 'subtasks_done', value: (task) => (task.subtask_count > 0 ? `${task.subtasks_completed}/${task.subtask_count}` : '') },
+];
+
+/** CSV text for `rows`, the first of them the header. */
+export function csvText(rows: (string | number)[][]) {
+  // The byte order mark makes Excel read the file as UTF-8.
+  return `\uFEFF${rows.map((row) => row.map(csvField).join(',')).join('\r\n')}\r\n`;
+}
+
+export function toCSV(tasks: ExportTask[]) {
+  return csvText([
+    CSV_COLUMNS.map((column) => column.header),
+    ...tasks.map((task) => CSV_COLUMNS.map((column) => column.value(task))),
+  ]);
+}
+
+/** A versioned backup: the tasks exactly as the API returned them. */
+export function toJSON(tasks: ExportTask[]) {
+  return JSON.stringify(
+    {
+      format: EXPORT_FORMAT_ID,
+      version: EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      tasks,
+    },
+    null,
+    2
+  );
+}
+
+// RFC 5545 text values escape backslashes, semicolons, commas and newlines.
+function icsText(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// A UTC date-time, e.g. 20260301T083000Z.
+function icsTimestamp(value: string) {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Lines longer than 75 octets are folded onto continuation lines that start
+// with a space, without splitting a multi-byte character.
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const ICS_STATUS: Record<Task['status'], string> = {
+  pending: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  completed: 'COMPLETED',
+};
+
+// RFC 5545 priorities run from 1 (highest) to 9 (lowest).
+const ICS_PRIORITY: Record<Task['priority'], number> = { high: 1, medium: 5, low: 9 };
+
+/**
+ * An iCalendar file with one VTODO per task that has a due date. Due dates
+ * have no time of day, so they are all-day dates that every time zone reads
+ * the same; the other timestamps are in UTC.
+ */
+export function toICS(tasks: ExportTask[]) {
+  const stamp = icsTimestamp(new Date().toISOString());
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Task Manager//Task Export//EN', 'CALSCALE:GREGORIAN'];
+  for (const task of tasks.filter((t) => t.due_date)) {
+    lines.push(
+      'BEGIN:VTODO',
+      `UID:task-${task.id}@task-manager`,
+      `DTSTAMP:${stamp}`,
+      `CREATED:${icsTimestamp(task.created_at)}`,
+      `SUMMARY:${icsText(task.title)}`,
+      ...(task.description ? [`DESCRIPTION:${icsText(task.description)}`] : []),
+      `DUE;VALUE=DATE:${task.due_date.slice(0, 10).replace(/-/g, '')}`,
+      `STATUS:${ICS_STATUS[task.status]}`,
+      `PRIORITY:${ICS_PRIORITY[task.priority]}`,
+      ...(task.completed_at ? [`COMPLETED:${icsTimestamp(task.completed_at)}`] : []),
+      ...(task.tags.length > 0 ? [`CATEGORIES:${task.tags.map((tag) => icsText(tag.name)).join(',')}`] : []),
+      'END:VTODO'
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+const SERIALIZERS: Record<ExportFormat, (tasks: ExportTask[]) => string> = { csv: toCSV, json: toJSON, ics: toICS };
+
+/** Saves `text` as `<name>-<today>.<format>` through the browser's download. */
+export function downloadFile(text: string, format: ExportFormat, name: string) {
+  const blob = new Blob([text], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}-${todayKey()}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadTasks(tasks: ExportTask[], format: ExportFormat, name: string) {
+  downloadFile(SERIALIZERS[format](tasks), format, name);
+}
@@ -0,0 +1,236 @@
+import { taskPrioritySchema, taskStatusSchema, type CreateTaskData } from './api';
+import { EXPORT_FORMAT_ID, EXPORT_VERSION, csvText } from './export';
+
+// Reads task files for the import wizard: CSV from spreadsheets and other
+// trackers, or this app's own JSON backup. Rows are checked against the same
+// rules as the create form before anything is sent.
+
+export type ImportField = 'title' | 'description' | 'priority' | 'status' | 'due_date';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: 'title', label: 'Title', required: true },
+  { field: 'description', label: 'Description' },
+  { field: 'priority', label: 'Priority' },
+  { field: 'status', label: 'Status' },
+  { field: 'due_date', label: 'Due date' },
+];
+
+/** The column each field is read from; '' leaves the field at its default. */
+export type ColumnMapping = Record<ImportField, string>;
+
+/** A file's rows as text, keyed by column name. */
+export interface ImportSource {
+  columns: string[];
+  rows: Record<string, string>[];
+}
+
+/** A validated row: the task to create, or, with `task` null, what's wrong with it. */
+export interface ParsedRow {
+  row: number;
+  task: CreateTaskData | null;
+  errors: string[];
+}
+
+export const MAX_IMPORT_ROWS = 1000;
+
+// Column names, lowercased without punctuation, that map onto each field
+// without the user having to pick them.
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  title: ['title', 'name', 'task', 'taskname', 'summary', 'subject'],
+  description: ['description', 'notes', 'details', 'body'],
+  priority: ['priority', 'importance'],
+  status: ['status', 'state'],
+  due_date: ['duedate', 'due', 'dueon', 'deadline'],
+};
+
+// The delimiter used most on the header line: comma, or the semicolon and tab
+// that spreadsheets write in some locales.
+function detectDelimiter(text: string) {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map((delimiter) => ({ delimiter, count: header.split(delimiter).length }));
+  return counts.reduce((best, entry) => (entry.count > best.count ? entry : best)).delimiter;
+}
+
+// RFC 4180 records: quoted fields may hold delimiters, doubled quotes and
+// line breaks.
+function parseCSVRecords(text: string) {
+  const delimiter = detectDelimiter(text);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      records.push([...record, field]);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    records.push([...record, field]);
+  }
+  return records;
+}
+
+// Exports prefix text a spreadsheet would run as a formula with an
+// apostrophe; reading our own files back takes it off again.
+function unguard(value: string) {
+  return /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value;
+}
+
+// Blank column names get a placeholder and repeated ones a number, so every
+// column can be picked on its own.
+function uniqueColumns(names: string[]) {
+  const seen = new Set<string>();
+  return names.map((name, index) => {
+    const base = name.trim() || `Column ${index + 1}`;
+    let column = base;
+    for (let n = 2; seen.has(column); n++) {
+      column = `${base} (${n})`;
+    }
+    seen.add(column);
+    return column;
+  });
+}
+
+function parseCSV(text: string): ImportSource {
+  const [header = [], ...records] = parseCSVRecords(text).filter((record) => record.some((value) => value.trim()));
+  const columns = uniqueColumns(header);
+  const rows = records.map((record) =>
+    Object.fromEntries(columns.map((column, index) => [column, unguard(record[index] ?? '')]))
+  );
+  return { columns, rows };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Either a backup written by the export, or a plain array of task objects.
+// Only the text, number and boolean values become columns.
+function parseJSON(text: string): ImportSource | string {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return 'The file is not valid JSON';
+  }
+  if (isRecord(data) && data.format === EXPORT_FORMAT_ID) {
+    if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+      return `This backup was written by a newer version (${String(data.version)}) and can't be read`;
+    }
+    data = data.tasks;
+  }
+  if (!Array.isArray(data) || !data.every(isRecord)) {
+    return 'Expected a task backup or an array of task objects';
+  }
+
+  const columns: string[] = [];
+  const rows = data.map((item) => {
+    const row: Record<string, string> = {};
+    for (const [key, value] of Object.entries(item)) {
+      if (!['string', 'number', 'boolean'].includes(typeof value)) continue;
+      if (!columns.includes(key)) columns.push(key);
+      row[key] = String(value);
+    }
+    return row;
+  });
+  return { columns, rows };
+}
+
+/** The rows of an uploaded file, or why it can't be imported. */
+export function parseImportFile(name: string, text: string): ImportSource | string {
+  const content = text.replace(/^\uFEFF/, '');
+  const source = /\.json$/i.test(name) || /^\s*[[{]/.test(content) ? parseJSON(content) : parseCSV(content);
+  if (typeof source === 'string') return source;
+  if (source.rows.length === 0) return 'The file has no rows to import';
+  if (source.rows.length > MAX_IMPORT_ROWS) {
+    return `The file has ${source.rows.length} rows; at most ${MAX_IMPORT_ROWS} can be imported at once`;
+  }
+  return source;
+}
+
+/** For each field, the first column whose name matches it, if any. */
+export function guessMapping(columns: string[]): ColumnMapping {
+  const normalized = columns.map((column) => column.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  const pick = (field: ImportField) => {
+    const index = normalized.findIndex((name) => COLUMN_ALIASES[field].includes(name));
+    return index === -1 ? '' : columns[index];
+  };
+  return {
+    title: pick('title'),
+    description: pick('description'),
+    priority: pick('priority'),
+    status: pick('status'),
+    due_date: pick('due_date'),
+  };
+}
+
+// `YYYY-MM-DD` or the date of an ISO timestamp, as a date key; null for
+// anything else, rather than guessing what "5.3.2026" or "1" means.
+function parseDate(value: string) {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:$|T)/.exec(value);
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? match.slice(1, 4).join('-') : null;
+}
+
+// "In Progress", "in-progress" and "IN_PROGRESS" all read as in_progress.
+function enumValue(value: string) {
+  return value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/** Checks one row the way the create form does; `row` numbers it from 1 for messages and the report. */
+export function validateRow(values: Record<string, string>, mapping: ColumnMapping, row: number): ParsedRow {
+  const read = (field: ImportField) => (mapping[field] ? (values[mapping[field]] ?? '') : '');
+  const errors: string[] = [];
+
+  const title = read('title').trim();
+  if (!title) errors.push('Title is required');
+
+  const priority = taskPrioritySchema.safeParse(enumValue(read('priority')) || 'medium');
+  if (!priority.success) errors.push(`Priority must be low, medium or high, not "${read('priority')}"`);
+
+  const status = taskStatusSchema.safeParse(enumValue(read('status')) || 'pending');
+  if (!status.success) errors.push(`Status must be pending, in progress or completed, not "${read('status')}"`);
+
+  const dueText = read('due_date').trim();
+  const dueDate = dueText ? parseDate(dueText) : '';
+  if (dueDate === null) errors.push(`"${dueText}" is not a YYYY-MM-DD date`);
+
+  if (!priority.success || !status.success || dueDate === null || errors.length > 0) {
+    return { row, task: null, errors };
+  }
+  return {
+    row,
+    task: { title, description: read('description'), priority: priority.data, status: status.data, due_date: dueDate },
+    errors,
+  };
+}
+
+/** The rows that weren't imported, as they were in the file, with the reason in an extra column. */
+export function failureReport(source: ImportSource, failures: { row: number; error: string }[]) {
+  return csvText([
+    ['row', ...source.columns, 'error'],
+    ...failures.map(({ row, error }) => [row, ...source.columns.map((column) => source.rows[row - 1][column] ?? ''), error]),
+  ]);
+}
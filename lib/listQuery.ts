@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { taskPrioritySchema, taskStatusSchema } from './schemas';
+import type { AnalyticsQuery, TaskQuery, UserQuery } from './api';
+
+// Listing state lives in the URL query string so filtered views can be
+// bookmarked, shared and reloaded. Anything unparseable is dropped rather
+// than breaking the page.
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const PAGE_SIZES = [10, 20, 50, 100] as const;
+
+const optional = <T extends z.ZodTypeAny>(schema: T) => schema.optional().catch(undefined);
+
+const pagingShape = {
+  page: optional(z.coerce.number().int().min(1)),
+  page_size: optional(z.coerce.number().int().refine((size) => (PAGE_SIZES as readonly number[]).includes(size))),
+  order: optional(z.enum(['asc', 'desc'])),
+  search: optional(z.string().min(1)),
+};
+
+const dateKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const taskQuerySchema = z.object({
+  ...pagingShape,
+  sort: optional(z.enum(['created_at', 'due_date', 'priority', 'title', 'status'])),
+  status: optional(taskStatusSchema),
+  priority: optional(taskPrioritySchema),
+  due_from: optional(dateKey),
+  due_to: optional(dateKey),
+  tags: optional(z.string().regex(/^\d+(,\d+)*$/)),
+  tag_match: optional(z.enum(['any', 'all'])),
+  mine: optional(z.enum(['assigned', 'created'])),
+  created_from: optional(dateKey),
+  created_to: optional(dateKey),
+  completed_from: optional(dateKey),
+  completed_to: optional(dateKey),
+  assignee: optional(z.union([z.literal('none'), z.coerce.number().int().min(1)])),
+  overdue: optional(z.enum(['true']).transform(() => true)),
+});
+
+const analyticsQuerySchema = z.object({
+  from: optional(dateKey),
+  to: optional(dateKey),
+});
+
+const userQuerySchema = z.object({
+  ...pagingShape,
+  sort: optional(z.enum(['id', 'name', 'email', 'role'])),
+});
+
+function fromParams(params: URLSearchParams) {
+  return Object.fromEntries(params.entries());
+}
+
+export function parseTaskQuery(params: URLSearchParams): TaskQuery {
+  return taskQuerySchema.parse(fromParams(params));
+}
+
+const PAGING_KEYS = ['page', 'page_size', 'sort', 'order'];
+
+/** `query` without its paging and sorting: just what decides which tasks match. */
+export function taskFilter(query: TaskQuery): TaskQuery {
+  return Object.fromEntries(Object.entries(query).filter(([key]) => !PAGING_KEYS.includes(key)));
+}
+
+export function parseAnalyticsQuery(params: URLSearchParams): AnalyticsQuery {
+  return analyticsQuerySchema.parse(fromParams(params));
+}
+
+export function parseUserQuery(params: URLSearchParams): UserQuery {
+  return userQuerySchema.parse(fromParams(params));
+}
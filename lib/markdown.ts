@@ -0,0 +1,27 @@
+// Markdown descriptions flattened to plain text for places that show only a
+// line or two of them, such as task cards, where markup and links would be
+// noise (and links inside a clickable card can't work).
+
+const MARKUP: [RegExp, string][] = [
+  [/^```.*$/gm, ''], // code fence lines, keeping the code
+  [/!\[([^\]]*)\]\([^)]*\)/g, '$1'], // images: their alt text
+  [/\[([^\]]+)\]\([^)]*\)/g, '$1'], // links: their text
+  [/<[^>]+>/g, ''], // HTML tags
+  [/^[ \t]*(?:>[ \t]*)+/gm, ''], // blockquotes
+  [/^[ \t]*#{1,6}[ \t]+/gm, ''], // headings
+  [/^[ \t]*(?:[-*+]|\d+[.)])[ \t]+(?:\[[ xX]\][ \t]+)?/gm, ''], // list bullets and checkboxes
+  [/^[ \t]*(?:[-*_][ \t]*){3,}$/gm, ''], // thematic breaks
+  [/^[ \t]*\|?[ \t:-]+\|[ \t|:-]*$/gm, ''], // table delimiter rows
+  [/\|/g, ' '], // table cell borders
+  [/(\*\*|~~|\*|`)(\S(?:.*?\S)?)\1/g, '$2'], // emphasis, strikethrough and inline code
+  [/(^|\W)(__?)(\S(?:.*?\S)?)\2(?!\w)/g, '$1$3'], // underscore emphasis, which never starts mid-word
+];
+
+/** `markdown` as one line of plain text, with the markup removed and whitespace collapsed. */
+export function markdownExcerpt(markdown: string) {
+  let text = markdown;
+  for (const [pattern, replacement] of MARKUP) {
+    text = text.replace(pattern, replacement);
+  }
+  return text.replace(/\s+/g, ' ').trim();
+}
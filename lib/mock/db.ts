@@ -0,0 +1,361 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type {
+  Activity,
+  Attachment,
+  Comment,
+  Recurrence,
+  ReminderSettings,
+  Subtask,
+  Tag,
+  Task,
+  TaskNotification,
+  TaskPriority,
+  User,
+} from '../schemas';
+
+export interface MockUser extends User {
+  password: string;
+  deactivated?: boolean;
+  /** Set by an admin; the next sign-in has to choose a new password. */
+  password_reset_required?: boolean;
+}
+
+export interface MockSession {
+  user_id: number;
+  expires_at: number;
+}
+
+// Activity stays behind when its task is deleted; `owner_id` records whose
+// task it was, so the owner can still read it.
+export interface MockActivity extends Activity {
+  owner_id: number;
+}
+
+// What each new occurrence of a recurring task is created from. Edits to
+// "this and future" occurrences update it; `recurrence` is null once the
+// series has been stopped.
+export interface MockSeries {
+  id: number;
+  user_id: number;
+  title: string;
+  description: string;
+  priority: TaskPriority;
+  tags: Tag[];
+  recurrence: Recurrence | null;
+}
+
+// `keys` name the due date and reminders a notification went off for, so
+// each reminder goes off once.
+export interface MockNotification extends TaskNotification {
+  user_id: number;
+  keys: string[];
+}
+
+export interface MockState {
+  users: MockUser[];
+  tasks: Task[];
+  subtasks: Subtask[];
+  comments: Comment[];
+  /** The files themselves are kept in ATTACHMENT_DIR, named by id. */
+  attachments: Attachment[];
+  activity: MockActivity[];
+  tags: Tag[];
+  series: MockSeries[];
+  notifications: MockNotification[];
+  /** Keyed by user id; users without an entry get DEFAULT_REMINDER_SETTINGS. */
+  reminderSettings: Record<number, ReminderSettings>;
+  // Keyed by token. Access and refresh tokens are kept apart so one can't be
+  // used in place of the other.
+  accessTokens: Record<string, MockSession>;
+  refreshTokens: Record<string, MockSession>;
+  nextUserId: number;
+  nextTaskId: number;
+  nextSubtaskId: number;
+  nextCommentId: number;
+  nextAttachmentId: number;
+  nextActivityId: number;
+  nextTagId: number;
+  nextSeriesId: number;
+  nextNotificationId: number;
+  scenario: string;
+}
+
+// Persisted next to the project so state survives dev-server restarts and
+// page reloads. Delete the file (or POST /api/mock/reset) to start over.
+const DB_FILE = process.env.MOCK_DB_FILE || join(process.cwd(), '.mock-db.json');
+// Attachment contents would bloat the state file, so they get files of their own.
+const ATTACHMENT_DIR = process.env.MOCK_ATTACHMENT_DIR || join(process.cwd(), '.mock-attachments');
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  default_reminders: [{ days_before: 1, time: '09:00' }],
+  time_zone: 'UTC',
+};
+
+export const SEED_USERS: MockUser[] = [
+  { id: 1, email: 'user@example.com', password: 'password', name: 'Demo User', role: 'user' },
+  { id: 2, email: 'admin@example.com', password: 'password', name: 'Demo Admin', role: 'admin' },
+];
+
+function daysFromNow(days: number) {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function daysAgo(days: number) {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function seed(): MockState {
+  const now = new Date().toISOString();
+  // Spread over the past week so the admin analytics have a history to show.
+  const createdAt = { 1: now, 2: daysAgo(3), 3: daysAgo(8), 4: daysAgo(1) };
+  const tags: Tag[] = [
+    { id: 1, name: 'frontend', color: 'blue' },
+    { id: 2, name: 'billing', color: 'green' },
+    { id: 3, name: 'bug', color: 'red' },
+  ];
+  const weeklyReport: Recurrence = {
+    frequency: 'weekly',
+    interval: 1,
+    weekdays: [new Date(daysFromNow(2)).getUTCDay()],
+    month_day: null,
+    until: '',
+    count: null,
+  };
+  const created = (id: number, task_id: 1 | 2 | 3 | 4, user: MockUser): MockActivity => ({
+    id,
+    task_id,
+    owner_id: user.id,
+    user_id: user.id,
+    actor_name: user.name,
+    action: 'created',
+    changes: [],
+    created_at: createdAt[task_id],
+  });
+  return {
+    users: SEED_USERS.map((user) => ({ ...user })),
+    tasks: [
+      {
+        id: 1,
+        user_id: 1,
+        creator_name: 'Demo User',
+        assignee_id: 1,
+        assignee_name: 'Demo User',
+        title: 'Write the weekly report',
+        description: 'Summarise what shipped and what is blocked.',
+        status: 'pending',
+        priority: 'medium',
+        due_date: daysFromNow(2),
+        created_at: createdAt[1],
+        completed_at: '',
+        subtask_count: 0,
+        subtasks_completed: 0,
+        auto_complete: false,
+        comment_count: 0,
+        attachment_count: 0,
+        tags: [],
+        recurrence: weeklyReport,
+        series_id: 1,
+        occurrence: 1,
+        reminders: null,
+      },
+      {
+        id: 2,
+        user_id: 1,
+        creator_name: 'Demo User',
+        assignee_id: 1,
+        assignee_name: 'Demo User',
+        title: 'Fix login redirect',
+        description: 'Users land on the dashboard instead of the page they asked for.',
+        status: 'in_progress',
+        priority: 'high',
+        due_date: daysFromNow(0),
+        created_at: createdAt[2],
+        completed_at: '',
+        subtask_count: 3,
+        subtasks_completed: 1,
+        auto_complete: false,
+        comment_count: 2,
+        attachment_count: 0,
+        tags: [tags[2], tags[0]],
+        recurrence: null,
+        series_id: null,
+        occurrence: null,
+        reminders: null,
+      },
+      {
+        id: 3,
+        user_id: 1,
+        creator_name: 'Demo User',
+        assignee_id: 1,
+        assignee_name: 'Demo User',
+        title: 'Clean up old branches',
+        description: '',
+        status: 'completed',
+        priority: 'low',
+        due_date: '',
+        created_at: createdAt[3],
+        completed_at: daysAgo(2),
+        subtask_count: 0,
+        subtasks_completed: 0,
+        auto_complete: false,
+        comment_count: 0,
+        attachment_count: 0,
+        tags: [],
+        recurrence: null,
+        series_id: null,
+        occurrence: null,
+        reminders: null,
+      },
+      {
+        id: 4,
+        user_id: 2,
+        creator_name: 'Demo Admin',
+        assignee_id: 2,
+        assignee_name: 'Demo Admin',
+        title: 'Review access requests',
+        description: 'Promote the new team leads.',
+        status: 'pending',
+        priority: 'high',
+        due_date: daysFromNow(5),
+        created_at: createdAt[4],
+        completed_at: '',
+        subtask_count: 0,
+        subtasks_completed: 0,
+        auto_complete: false,
+        comment_count: 0,
+        attachment_count: 0,
+        tags: [tags[1]],
+        recurrence: null,
+        series_id: null,
+        occurrence: null,
+        reminders: null,
+      },
+    ],
+    subtasks: [
+      { id: 1, task_id: 2, title: 'Reproduce with an expired session', completed: true, position: 0 },
+      { id: 2, task_id: 2, title: 'Keep returnTo through the login form', completed: false, position: 1 },
+      { id: 3, task_id: 2, title: 'Check the admin login too', completed: false, position: 2 },
+    ],
+    comments: [
+      {
+        id: 1,
+        task_id: 2,
+        user_id: 1,
+        author_name: 'Demo User',
+        body: 'Happens after the session cookie expires; `returnTo` is dropped by the **login form**.',
+        created_at: now,
+        updated_at: '',
+      },
+      {
+        id: 2,
+        task_id: 2,
+        user_id: 2,
+        author_name: 'Demo Admin',
+        body: 'Please check the admin login page as well.',
+        created_at: now,
+        updated_at: '',
+      },
+    ],
+    attachments: [],
+    activity: [
+      created(1, 1, SEED_USERS[0]),
+      created(2, 2, SEED_USERS[0]),
+      created(3, 3, SEED_USERS[0]),
+      created(4, 4, SEED_USERS[1]),
+      {
+        id: 5,
+        task_id: 2,
+        owner_id: 1,
+        user_id: 1,
+        actor_name: 'Demo User',
+        action: 'updated',
+        changes: [
+          { field: 'status', from: 'pending', to: 'in_progress' },
+          { field: 'priority', from: 'medium', to: 'high' },
+        ],
+        created_at: daysAgo(2),
+      },
+      {
+        id: 6,
+        task_id: 3,
+        owner_id: 1,
+        user_id: 1,
+        actor_name: 'Demo User',
+        action: 'updated',
+        changes: [{ field: 'status', from: 'pending', to: 'completed' }],
+        created_at: daysAgo(2),
+      },
+    ],
+    tags,
+    series: [
+      {
+        id: 1,
+        user_id: 1,
+        title: 'Write the weekly report',
+        description: 'Summarise what shipped and what is blocked.',
+        priority: 'medium',
+        tags: [],
+        recurrence: weeklyReport,
+      },
+    ],
+    notifications: [],
+    reminderSettings: {},
+    accessTokens: {},
+    refreshTokens: {},
+    nextUserId: 3,
+    nextTaskId: 5,
+    nextSubtaskId: 4,
+    nextCommentId: 3,
+    nextAttachmentId: 1,
+    nextActivityId: 7,
+    nextTagId: 4,
+    nextSeriesId: 2,
+    nextNotificationId: 1,
+    scenario: process.env.MOCK_SCENARIO || 'normal',
+  };
+}
+
+function load(): MockState {
+  if (existsSync(DB_FILE)) {
+    try {
+      return { ...seed(), ...JSON.parse(readFileSync(DB_FILE, 'utf8')) };
+    } catch {
+      // A corrupt file is not worth failing the dev server over; reseed.
+    }
+  }
+  return seed();
+}
+
+// Kept on globalThis so hot reloads in `next dev` don't drop the state.
+const store = globalThis as typeof globalThis & { __mockState?: MockState };
+
+export function getState(): MockState {
+  store.__mockState ??= load();
+  return store.__mockState;
+}
+
+export function save() {
+  writeFileSync(DB_FILE, JSON.stringify(getState(), null, 2));
+}
+
+export function reset() {
+  store.__mockState = seed();
+  save();
+  rmSync(ATTACHMENT_DIR, { recursive: true, force: true });
+}
+
+export function writeAttachment(id: number, data: Uint8Array) {
+  mkdirSync(ATTACHMENT_DIR, { recursive: true });
+  writeFileSync(join(ATTACHMENT_DIR, String(id)), data);
+}
+
+export function readAttachment(id: number) {
+  return new Uint8Array(readFileSync(join(ATTACHMENT_DIR, String(id))));
+}
+
+export function removeAttachment(id: number) {
+  rmSync(join(ATTACHMENT_DIR, String(id)), { force: true });
+}
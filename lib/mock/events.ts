@@ -0,0 +1,63 @@
+import type { RealtimeEvent } from '../schemas';
+import type { MockUser } from './db';
+
+// The mock's stand-in for the backend's event stream: route handlers publish
+// here after a write, and every open GET /events stream filters what it sees.
+
+type Listener = (event: RealtimeEvent, recipients: number[]) => void;
+
+const KEEPALIVE_INTERVAL = 25 * 1000;
+
+// Kept on globalThis for the same reason as the mock state in db.ts.
+const store = globalThis as typeof globalThis & { __mockListeners?: Set<Listener> };
+const listeners = (store.__mockListeners ??= new Set());
+
+/** Sends `event` to the users `recipients` and, unless it is a notification, to every admin. */
+export function publish(event: RealtimeEvent, recipients: number | number[]) {
+  const ids = typeof recipients === 'number' ? [recipients] : recipients;
+  listeners.forEach((listener) => listener(event, ids));
+}
+
+export function eventStream(user: MockUser, signal: AbortSignal) {
+  const encoder = new TextEncoder();
+  let closed = false;
+  let cleanup = () => {};
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const listener: Listener = (event, recipients) => {
+        if (recipients.includes(user.id) || (user.role === 'admin' && event.type !== 'notification.created')) {
+          send(`data: ${JSON.stringify(event)}\n\n`);
+        }
+      };
+      // Comment lines keep proxies from timing out an idle stream.
+      const keepalive = setInterval(() => send(': keepalive\n\n'), KEEPALIVE_INTERVAL);
+
+      cleanup = () => {
+        closed = true;
+        clearInterval(keepalive);
+        listeners.delete(listener);
+      };
+      // The client went away; the stream is closed from this end.
+      signal.addEventListener('abort', () => {
+        if (closed) return;
+        cleanup();
+        controller.close();
+      });
+
+      listeners.add(listener);
+      send(': connected\n\n');
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
@@ -0,0 +1,1719 @@
+import { randomUUID } from 'node:crypto';
+import {
+  recurrenceSchema,
+  reminderSchema,
+  tagColorSchema,
+  type FieldChange,
+  type Recurrence,
+  type Reminder,
+  type Tag,
+  type Task,
+  type TaskPriority,
+  type TaskStatus,
+  type TrackedField,
+} from '../schemas';
+import { addDays, nextDate, todayKey, withinEnd } from '../recurrence';
+import { MAX_ATTACHMENT_BYTES, attachmentProblem, attachmentType, isPreviewable } from '../attachments';
+import { MAX_REMINDERS, dueDateEnd, isValidTimeZone, normalizeReminders, reminderTime } from '../reminders';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  getState,
+  readAttachment,
+  removeAttachment,
+  reset,
+  save,
+  writeAttachment,
+  type MockActivity,
+  type MockNotification,
+  type MockSeries,
+  type MockUser,
+} from './db';
+import {
+  MockHttpError,
+  field,
+  json,
+  noContent,
+  numericParam,
+  route,
+  type MockContext,
+  type MockRoute,
+} from './router';
+import { countByStatus, filterTasks, isOverdue, queryTasks, queryUsers } from './query';
+import { eventStream, publish } from './events';
+import { SCENARIOS } from './scenarios';
+
+// In-process stand-in for the backend, enabled with MOCK_API=1. It speaks the
+// same HTTP contract, so backendFetch hands it a Request and gets a Response.
+
+export const MOCK_ORIGIN = 'http://mock.local';
+
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 6;
+const USER_SEARCH_LIMIT = 20;
+const STATUSES: TaskStatus[] = ['pending', 'in_progress', 'completed'];
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high'];
+const TRACKED_FIELDS: TrackedField[] = ['title', 'description', 'status', 'priority', 'due_date', 'tags', 'assignee'];
+const TAG_COLORS = tagColorSchema.options;
+const MAX_TAG_LENGTH = 30;
+// Fields an edit to "this and future" occurrences carries over to the rest
+// of the series.
+const SERIES_FIELDS = ['title', 'description', 'priority', 'tags'] as const;
+const MAX_SNOOZE_MINUTES = 7 * 24 * 60;
+const NOTIFICATION_LIMIT = 50;
+const ANALYTICS_DEFAULT_DAYS = 30;
+const ANALYTICS_MAX_DAYS = 366;
+const REMINDER_CHECK_INTERVAL = 30 * 1000;
+const MAX_BULK_TASKS = 500;
+// What a bulk update may change; everything else is per task.
+const BULK_FIELDS = ['status', 'priority', 'due_date'];
+
+function publicUser({ id, email, name, role }: MockUser) {
+  return { id, email, name, role };
+}
+
+function adminUser(user: MockUser) {
+  return {
+    ...publicUser(user),
+    active: !user.deactivated,
+    password_reset_required: Boolean(user.password_reset_required),
+    task_count: getState().tasks.filter((task) => task.user_id === user.id).length,
+  };
+}
+
+function publicActivity({ id, task_id, user_id, actor_name, action, changes, created_at }: MockActivity) {
+  return { id, task_id, user_id, actor_name, action, changes, created_at };
+}
+
+function publicNotification({ id, task_id, task_title, due_date, remind_at, read, snoozed_until }: MockNotification) {
+  return { id, task_id, task_title, due_date, remind_at, read, snoozed_until };
+}
+
+function issueTokens(user: MockUser) {
+  const state = getState();
+  const token = `mock-access-${randomUUID()}`;
+  const refresh_token = `mock-refresh-${randomUUID()}`;
+  const scenario = SCENARIOS[state.scenario] ?? SCENARIOS.normal;
+  state.accessTokens[token] = { user_id: user.id, expires_at: Date.now() + scenario.accessTokenTtlMs };
+  state.refreshTokens[refresh_token] = { user_id: user.id, expires_at: Date.now() + REFRESH_TOKEN_TTL };
+  save();
+  return { token, refresh_token };
+}
+
+function authenticate(request: Request): MockUser | null {
+  const state = getState();
+  const token = request.headers.get('Authorization')?.replace(/^Bearer /, '');
+  const session = token ? state.accessTokens[token] : undefined;
+  if (!session || session.expires_at < Date.now()) {
+    return null;
+  }
+  return state.users.find((user) => user.id === session.user_id) ?? null;
+}
+
+function findUser(id: number) {
+  const user = getState().users.find((u) => u.id === id);
+  if (!user) {
+    throw new MockHttpError(404, 'User not found');
+  }
+  return user;
+}
+
+// Drops every token the user holds, so they are signed out at their next
+// request.
+function revokeSessions(user: MockUser) {
+  const state = getState();
+  for (const tokens of [state.accessTokens, state.refreshTokens]) {
+    for (const [token, session] of Object.entries(tokens)) {
+      if (session.user_id === user.id) delete tokens[token];
+    }
+  }
+}
+
+// Nothing an admin does may leave the app without an active admin.
+function guardLastAdmin(user: MockUser, action: string) {
+  const admins = getState().users.filter((u) => u.role === 'admin' && !u.deactivated);
+  if (admins.length === 1 && admins[0] === user) {
+    throw new MockHttpError(409, `Can't ${action} the last admin`);
+  }
+}
+
+function guardSelf(user: MockUser, actor: MockUser, action: string) {
+  if (user.id === actor.id) {
+    throw new MockHttpError(409, `You can't ${action} your own account`);
+  }
+}
+
+function userChanged(user: MockUser, message: string) {
+  save();
+  publish({ type: 'user.updated', user: publicUser(user) }, user.id);
+  return json({ message });
+}
+
+function isParticipant(task: Task, user: MockUser) {
+  return task.user_id === user.id || task.assignee_id === user.id;
+}
+
+// A task is open to its creator and its assignee; without `user`, to anyone.
+function findTask(id: number, user?: MockUser) {
+  const task = getState().tasks.find((t) => t.id === id);
+  if (!task || (user && !isParticipant(task, user))) {
+    throw new MockHttpError(404, 'Task not found');
+  }
+  return task;
+}
+
+/** Who hears about changes to `task`: its creator, its assignee and any of `also`. */
+function audience(task: Task, ...also: (number | null)[]) {
+  return [...new Set([task.user_id, task.assignee_id, ...also])].filter((id): id is number => id !== null);
+}
+
+/**
+ * The caller's tasks: those they created or are assigned, narrowed by the
+ * `mine` query parameter to one of the two.
+ */
+function relatedTasks(user: MockUser, query: URLSearchParams) {
+  const mine = query.get('mine');
+  if (mine && mine !== 'assigned' && mine !== 'created') {
+    throw new MockHttpError(400, 'mine must be one of assigned, created');
+  }
+  return getState().tasks.filter((task) => {
+    if (mine === 'assigned') return task.assignee_id === user.id;
+    if (mine === 'created') return task.user_id === user.id;
+    return isParticipant(task, user);
+  });
+}
+
+/** Reads `assignee_id` from `body`: an active user, null for nobody, or undefined when it isn't set. */
+function assigneeField(body: unknown): MockUser | null | undefined {
+  const value = (body as Record<string, unknown> | null)?.assignee_id;
+  if (value === undefined || value === null) {
+    return value;
+  }
+  const assignee = getState().users.find((user) => user.id === value && !user.deactivated);
+  if (!assignee) {
+    throw new MockHttpError(400, 'assignee_id must be an active user');
+  }
+  return assignee;
+}
+
+function applyAssignee(task: Task, assignee: MockUser | null) {
+  task.assignee_id = assignee?.id ?? null;
+  task.assignee_name = assignee?.name ?? '';
+}
+
+// Only the creator deletes a task; the assignee can just hand it back.
+function checkCanDelete(task: Task, user: MockUser) {
+  if (task.user_id !== user.id) {
+    throw new MockHttpError(403, "Only the task's creator can delete it");
+  }
+}
+
+// Admins can read any task (and moderate its comments); everyone else only
+// their own.
+function findVisibleTask(id: number, user: MockUser) {
+  return findTask(id, user.role === 'admin' ? undefined : user);
+}
+
+function enumField<T extends string>(body: unknown, key: string, allowed: T[]): T | undefined {
+  const value = field(body, key, 'string');
+  if (value !== undefined && !allowed.includes(value as T)) {
+    throw new MockHttpError(400, `${key} must be one of ${allowed.join(', ')}`);
+  }
+  return value as T | undefined;
+}
+
+function tagName(value: unknown) {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name || name.length > MAX_TAG_LENGTH) {
+    throw new MockHttpError(400, `Tag names must be 1 to ${MAX_TAG_LENGTH} characters`);
+  }
+  return name;
+}
+
+// Tag names are unique regardless of case.
+function findTagByName(name: string) {
+  return getState().tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+}
+
+function findTag(id: number) {
+  const tag = getState().tags.find((t) => t.id === id);
+  if (!tag) {
+    throw new MockHttpError(404, 'Tag not found');
+  }
+  return tag;
+}
+
+// A new tag's color is picked from its name, so a name always starts out
+// the same color.
+function defaultTagColor(name: string) {
+  let hash = 0;
+  for (const char of name.toLowerCase()) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return TAG_COLORS[hash % TAG_COLORS.length];
+}
+
+/** Reads the `tags` names in a task write, without creating the tags that don't exist yet. */
+function tagsField(body: unknown): string[] | undefined {
+  const value = (body as Record<string, unknown> | null)?.tags;
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    throw new MockHttpError(400, 'tags must be an array of names');
+  }
+  return value.map(tagName);
+}
+
+/** The tags called `names`, creating the ones that don't exist yet. */
+function resolveTags(names: string[]) {
+  const state = getState();
+  const tags: Tag[] = [];
+  for (const name of names) {
+    let tag = findTagByName(name);
+    if (!tag) {
+      tag = { id: state.nextTagId++, name, color: defaultTagColor(name) };
+      state.tags.push(tag);
+    }
+    if (!tags.some((t) => t.id === tag.id)) {
+      tags.push({ ...tag });
+    }
+  }
+  return tags;
+}
+
+/** Applies `update` to every task's tags, then saves and announces the tasks it changed. */
+function retag(update: (tags: Tag[]) => Tag[]) {
+  for (const series of getState().series) {
+    series.tags = update(series.tags);
+  }
+  for (const task of getState().tasks) {
+    const before = JSON.stringify(task.tags);
+    task.tags = update(task.tags);
+    if (JSON.stringify(task.tags) !== before) {
+      publish({ type: 'task.updated', task }, audience(task));
+    }
+  }
+  save();
+}
+
+function recurrenceField(body: unknown): Recurrence | null | undefined {
+  const value = (body as Record<string, unknown> | null)?.recurrence;
+  if (value === undefined || value === null) {
+    return value;
+  }
+  const result = recurrenceSchema.safeParse(value);
+  if (!result.success) {
+    throw new MockHttpError(400, `Invalid recurrence: ${result.error.issues[0].path.join('.')} ${result.error.issues[0].message}`);
+  }
+  return result.data;
+}
+
+// Pins a rule to its first occurrence's weekday or day of the month, so
+// occurrences don't drift (from the 31st to the 28th and then stay there).
+function pinRecurrence(rule: Recurrence, from: string): Recurrence {
+  const date = new Date(from);
+  if (rule.frequency === 'weekly' && rule.weekdays.length === 0) {
+    return { ...rule, weekdays: [date.getUTCDay()] };
+  }
+  if (rule.frequency === 'monthly' && rule.month_day === null) {
+    return { ...rule, month_day: date.getUTCDate() };
+  }
+  return rule;
+}
+
+function findSeries(task: Task) {
+  return getState().series.find((series) => series.id === task.series_id);
+}
+
+function seriesTasks(seriesId: number) {
+  return getState()
+    .tasks.filter((task) => task.series_id === seriesId)
+    .sort((a, b) => (a.occurrence ?? 0) - (b.occurrence ?? 0));
+}
+
+/** Makes `task` the first occurrence of a new series repeating by `rule`. */
+function startSeries(task: Task, rule: Recurrence) {
+  const state = getState();
+  const series: MockSeries = {
+    id: state.nextSeriesId++,
+    user_id: task.user_id,
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    tags: task.tags.map((tag) => ({ ...tag })),
+    recurrence: pinRecurrence(rule, task.due_date || todayKey()),
+  };
+  state.series.push(series);
+  task.series_id = series.id;
+  task.occurrence = 1;
+  task.recurrence = series.recurrence;
+}
+
+/** Changes the rule of `task`'s series, starting one if it has none; null stops it repeating. */
+function setRecurrence(task: Task, rule: Recurrence | null) {
+  const series = findSeries(task);
+  if (!series) {
+    if (rule) startSeries(task, rule);
+    return;
+  }
+  series.recurrence = rule && pinRecurrence(rule, task.due_date || todayKey());
+  for (const sibling of seriesTasks(series.id)) {
+    sibling.recurrence = series.recurrence;
+    if (sibling !== task) {
+      publish({ type: 'task.updated', task: sibling }, audience(sibling));
+    }
+  }
+}
+
+/**
+ * Carries the fields `body` set on `task` over to its series, for new
+ * occurrences, and to the open occurrences after it.
+ */
+function applyToFutureOccurrences(task: Task, body: unknown, actor: MockUser) {
+  const series = findSeries(task);
+  if (!series) return;
+  const fields = SERIES_FIELDS.filter((key) => (body as Record<string, unknown> | null)?.[key] !== undefined);
+  const copy = (target: Pick<Task, (typeof SERIES_FIELDS)[number]>) => {
+    for (const key of fields) {
+      (target as Record<string, unknown>)[key] = key === 'tags' ? task.tags.map((tag) => ({ ...tag })) : task[key];
+    }
+  };
+  copy(series);
+  for (const sibling of seriesTasks(series.id)) {
+    if ((sibling.occurrence ?? 0) <= (task.occurrence ?? 0) || sibling.status === 'completed') continue;
+    const before = trackedValues(sibling);
+    copy(sibling);
+    recordChanges(sibling, actor, before);
+    publish({ type: 'task.updated', task: sibling }, audience(sibling));
+  }
+}
+
+/**
+ * Creates the occurrence after `task`, which was just completed, unless the
+ * series has stopped or ended or that occurrence already exists.
+ */
+function continueSeries(task: Task, actor: MockUser) {
+  const series = findSeries(task);
+  if (!series?.recurrence || task.occurrence === null) return;
+  const state = getState();
+  if (seriesTasks(series.id).some((t) => (t.occurrence ?? 0) > task.occurrence!)) return;
+
+  const occurrence = task.occurrence + 1;
+  const due_date = nextDate(series.recurrence, task.due_date || todayKey());
+  if (!withinEnd(series.recurrence, due_date, occurrence)) return;
+
+  const next: Task = {
+    id: state.nextTaskId++,
+    user_id: task.user_id,
+    creator_name: task.creator_name,
+    assignee_id: task.assignee_id,
+    assignee_name: task.assignee_name,
+    title: series.title,
+    description: series.description,
+    status: 'pending',
+    priority: series.priority,
+    due_date,
+    created_at: new Date().toISOString(),
+    completed_at: '',
+    subtask_count: 0,
+    subtasks_completed: 0,
+    auto_complete: task.auto_complete,
+    comment_count: 0,
+    attachment_count: 0,
+    tags: series.tags.map((tag) => ({ ...tag })),
+    recurrence: series.recurrence,
+    series_id: series.id,
+    occurrence,
+    reminders: task.reminders,
+  };
+  state.tasks.push(next);
+  // The checklist carries over, unchecked.
+  for (const subtask of taskSubtasks(task.id)) {
+    state.subtasks.push({ ...subtask, id: state.nextSubtaskId++, task_id: next.id, completed: false });
+  }
+  syncDerivedFields(next);
+  recordActivity(next, actor, 'created');
+  publish({ type: 'task.created', task: next }, audience(next));
+}
+
+/** Reads a list of reminders from `body[key]`; null is passed through. */
+function remindersField(body: unknown, key: string): Reminder[] | null | undefined {
+  const value = (body as Record<string, unknown> | null)?.[key];
+  if (value === undefined || value === null) {
+    return value;
+  }
+  if (!Array.isArray(value) || value.length > MAX_REMINDERS) {
+    throw new MockHttpError(400, `${key} must be a list of at most ${MAX_REMINDERS} reminders`);
+  }
+  return normalizeReminders(
+    value.map((item) => {
+      const result = reminderSchema.safeParse(item);
+      if (!result.success) {
+        throw new MockHttpError(400, `Each of ${key} needs days_before (0 or more) and a time as HH:MM`);
+      }
+      return result.data;
+    })
+  );
+}
+
+function reminderSettingsFor(userId: number) {
+  return getState().reminderSettings[userId] ?? DEFAULT_REMINDER_SETTINGS;
+}
+
+function findNotification(id: number, user: MockUser) {
+  const notification = getState().notifications.find((n) => n.id === id && n.user_id === user.id);
+  if (!notification) {
+    throw new MockHttpError(404, 'Notification not found');
+  }
+  return notification;
+}
+
+/**
+ * Sends the notifications that are due: reminders whose time has come for
+ * open tasks that aren't overdue yet, and snoozed notifications coming back.
+ * When several of a task's reminders come due at once (say it was created
+ * the day before it is due), one notification covers them all.
+ */
+function deliverReminders() {
+  const state = getState();
+  const now = Date.now();
+  const delivered: MockNotification[] = [];
+
+  for (const task of state.tasks) {
+    if (task.status === 'completed' || !task.due_date) continue;
+    // Reminders are for whoever has to do the task.
+    const recipient = task.assignee_id ?? task.user_id;
+    const settings = reminderSettingsFor(recipient);
+    if (now >= dueDateEnd(task.due_date, settings.time_zone)) continue;
+    const sent = new Set(state.notifications.filter((n) => n.task_id === task.id).flatMap((n) => n.keys));
+    const keys = (task.reminders ?? settings.default_reminders)
+      .filter((reminder) => reminderTime(reminder, task.due_date, settings.time_zone) <= now)
+      .map((reminder) => `${task.due_date}:${reminder.days_before}@${reminder.time}`)
+      .filter((key) => !sent.has(key));
+    if (keys.length === 0) continue;
+    const notification: MockNotification = {
+      id: state.nextNotificationId++,
+      user_id: recipient,
+      keys,
+      task_id: task.id,
+      task_title: task.title,
+      due_date: task.due_date,
+      remind_at: new Date(now).toISOString(),
+      read: false,
+      snoozed_until: '',
+    };
+    state.notifications.push(notification);
+    delivered.push(notification);
+  }
+
+  for (const notification of state.notifications) {
+    if (notification.snoozed_until && Date.parse(notification.snoozed_until) <= now) {
+      notification.remind_at = notification.snoozed_until;
+      notification.snoozed_until = '';
+      notification.read = false;
+      delivered.push(notification);
+    }
+  }
+
+  if (delivered.length === 0) return;
+  save();
+  for (const notification of delivered) {
+    publish({ type: 'notification.created', notification: publicNotification(notification) }, notification.user_id);
+  }
+}
+
+// Reminders go off on their own, not just when notifications are asked for,
+// so the mock checks on a timer once the first request comes in. Kept on
+// globalThis so hot reloads don't start another.
+const timers = globalThis as typeof globalThis & { __mockReminderTimer?: ReturnType<typeof setInterval> };
+
+function startReminderTimer() {
+  if (timers.__mockReminderTimer) return;
+  timers.__mockReminderTimer = setInterval(deliverReminders, REMINDER_CHECK_INTERVAL);
+  timers.__mockReminderTimer.unref?.();
+}
+
+/**
+ * The caller's tasks a bulk action names, by `ids` or by `filter` minus
+ * `exclude`. Ids that aren't the caller's tasks come back without a task.
+ */
+function bulkTargets(user: MockUser, body: unknown): { id: number; task?: Task }[] {
+  const { ids, filter, exclude } = (body ?? {}) as Record<string, unknown>;
+  const own = relatedTasks(user, new URLSearchParams());
+  let targets: { id: number; task?: Task }[];
+
+  if (Array.isArray(ids)) {
+    if (!ids.every(Number.isInteger)) {
+      throw new MockHttpError(400, 'ids must be a list of task ids');
+    }
+    targets = [...new Set(ids as number[])].map((id) => ({ id, task: own.find((task) => task.id === id) }));
+  } else if (filter && typeof filter === 'object') {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filter)) {
+      if (value !== undefined && value !== null) params.set(key, String(value));
+    }
+    const excluded = Array.isArray(exclude) ? exclude : [];
+    targets = filterTasks(relatedTasks(user, params), params)
+      .filter((task) => !excluded.includes(task.id))
+      .map((task) => ({ id: task.id, task }));
+  } else {
+    throw new MockHttpError(400, 'ids or filter is required');
+  }
+
+  if (targets.length > MAX_BULK_TASKS) {
+    throw new MockHttpError(400, `A bulk action can change at most ${MAX_BULK_TASKS} tasks`);
+  }
+  return targets;
+}
+
+/** The `changes` of a bulk update, checked up front so a bad value fails the whole request. */
+function bulkChanges(body: unknown) {
+  const changes = (body as Record<string, unknown> | null)?.changes;
+  const keys = changes && typeof changes === 'object' ? Object.keys(changes) : [];
+  if (keys.length === 0 || !keys.every((key) => BULK_FIELDS.includes(key))) {
+    throw new MockHttpError(400, `changes must set some of ${BULK_FIELDS.join(', ')} and nothing else`);
+  }
+  return taskChanges(changes);
+}
+
+/** Reads a `YYYY-MM-DD` date from `body[key]`; '' clears it. */
+function dateField(body: unknown, key: string) {
+  const value = field(body, key, 'string');
+  if (value && !(/^\d{4}-\d{2}-\d{2}$/.test(value) && addDays(value, 0) === value)) {
+    throw new MockHttpError(400, `${key} must be a YYYY-MM-DD date`);
+  }
+  return value;
+}
+
+type TaskChanges = Partial<
+  Pick<Task, 'title' | 'description' | 'status' | 'priority' | 'due_date' | 'auto_complete' | 'reminders'>
+> & { tags?: string[]; assignee?: MockUser | null };
+
+/**
+ * The fields a task write sets, all checked before any is applied, so a bad
+ * value leaves the task (and the tag list) as it was.
+ */
+function taskChanges(body: unknown): TaskChanges {
+  const title = field(body, 'title', 'string');
+  if (title !== undefined && !title.trim()) {
+    throw new MockHttpError(400, 'Title is required');
+  }
+  return {
+    title,
+    description: field(body, 'description', 'string'),
+    status: enumField(body, 'status', STATUSES),
+    priority: enumField(body, 'priority', PRIORITIES),
+    due_date: dateField(body, 'due_date'),
+    auto_complete: field(body, 'auto_complete', 'boolean'),
+    tags: tagsField(body),
+    reminders: remindersField(body, 'reminders'),
+    assignee: assigneeField(body),
+  };
+}
+
+function applyTaskChanges(task: Task, changes: TaskChanges) {
+  task.title = changes.title ?? task.title;
+  task.description = changes.description ?? task.description;
+  task.status = changes.status ?? task.status;
+  task.priority = changes.priority ?? task.priority;
+  task.due_date = changes.due_date ?? task.due_date;
+  task.auto_complete = changes.auto_complete ?? task.auto_complete;
+  if (changes.tags) {
+    task.tags = resolveTags(changes.tags);
+  }
+  if (changes.reminders !== undefined) {
+    task.reminders = changes.reminders;
+  }
+  if (changes.assignee !== undefined) {
+    applyAssignee(task, changes.assignee);
+  }
+  stampCompletion(task);
+}
+
+/** Keeps `completed_at` in step with `status`. */
+function stampCompletion(task: Task) {
+  if (task.status !== 'completed') {
+    task.completed_at = '';
+  } else if (!task.completed_at) {
+    task.completed_at = new Date().toISOString();
+  }
+}
+
+function trackedValue(task: Task, key: TrackedField) {
+  if (key === 'tags') return task.tags.map((tag) => tag.name).join(', ');
+  if (key === 'assignee') return task.assignee_name;
+  return task[key];
+}
+
+function trackedValues(task: Task) {
+  return Object.fromEntries(TRACKED_FIELDS.map((key) => [key, trackedValue(task, key)])) as Record<
+    TrackedField,
+    string
+  >;
+}
+
+/** The tracked fields of `task` that differ from `before`. */
+function changesSince(before: Record<TrackedField, string>, task: Task): FieldChange[] {
+  const after = trackedValues(task);
+  return TRACKED_FIELDS.filter((key) => after[key] !== before[key]).map((key) => ({
+    field: key,
+    from: before[key],
+    to: after[key],
+  }));
+}
+
+/** Records what changed on `task` since `before`, and continues its series if it was just completed. */
+function recordChanges(task: Task, actor: MockUser, before: Record<TrackedField, string>) {
+  const changes = changesSince(before, task);
+  if (changes.length > 0) {
+    recordActivity(task, actor, 'updated', changes);
+  }
+  if (before.status !== 'completed' && task.status === 'completed') {
+    continueSeries(task, actor);
+  }
+}
+
+function recordActivity(task: Task, actor: MockUser, action: MockActivity['action'], changes: FieldChange[] = []) {
+  const state = getState();
+  state.activity.push({
+    id: state.nextActivityId++,
+    task_id: task.id,
+    owner_id: task.user_id,
+    user_id: actor.id,
+    actor_name: actor.name,
+    action,
+    changes,
+    created_at: new Date().toISOString(),
+  });
+}
+
+function deleteTask(task: Task, actor: MockUser) {
+  recordActivity(task, actor, 'deleted');
+  const state = getState();
+  state.tasks = state.tasks.filter((t) => t !== task);
+  state.subtasks = state.subtasks.filter((subtask) => subtask.task_id !== task.id);
+  state.comments = state.comments.filter((comment) => comment.task_id !== task.id);
+  taskAttachments(task.id).forEach((attachment) => removeAttachment(attachment.id));
+  state.attachments = state.attachments.filter((attachment) => attachment.task_id !== task.id);
+  state.notifications = state.notifications.filter((notification) => notification.task_id !== task.id);
+  save();
+  publish({ type: 'task.deleted', task_id: task.id, user_id: task.user_id }, audience(task));
+}
+
+/**
+ * Removes `user`. Their tasks are deleted with them or, with `tasks=reassign`,
+ * handed over to the `reassign_to` user along with their series and history.
+ * Tasks others assigned to them go to that user too, or are left unassigned.
+ */
+function deleteUser(user: MockUser, actor: MockUser, query: URLSearchParams) {
+  const state = getState();
+  const owned = state.tasks.filter((task) => task.user_id === user.id);
+  const assigned = state.tasks.filter((task) => task.assignee_id === user.id);
+  const mode = query.get('tasks');
+  if (mode === 'reassign') {
+    const heir = state.users.find((u) => u.id === Number(query.get('reassign_to')));
+    if (!heir || heir === user || heir.deactivated) {
+      throw new MockHttpError(400, 'reassign_to must be another active user');
+    }
+    owned.forEach((task) => Object.assign(task, { user_id: heir.id, creator_name: heir.name }));
+    assigned.forEach((task) => Object.assign(task, { assignee_id: heir.id, assignee_name: heir.name }));
+    state.series.filter((series) => series.user_id === user.id).forEach((series) => (series.user_id = heir.id));
+    state.activity.filter((entry) => entry.owner_id === user.id).forEach((entry) => (entry.owner_id = heir.id));
+    new Set([...owned, ...assigned]).forEach((task) => publish({ type: 'task.updated', task }, audience(task)));
+  } else if (mode === 'delete') {
+    owned.forEach((task) => deleteTask(task, actor));
+    state.series = state.series.filter((series) => series.user_id !== user.id);
+    for (const task of assigned.filter((t) => t.user_id !== user.id)) {
+      Object.assign(task, { assignee_id: null, assignee_name: '' });
+      publish({ type: 'task.updated', task }, audience(task));
+    }
+  } else {
+    throw new MockHttpError(400, 'tasks must be one of delete, reassign');
+  }
+
+  state.users = state.users.filter((u) => u !== user);
+  state.notifications = state.notifications.filter((notification) => notification.user_id !== user.id);
+  delete state.reminderSettings[user.id];
+  revokeSessions(user);
+  save();
+  publish({ type: 'user.deleted', user_id: user.id }, user.id);
+}
+
+function taskSubtasks(taskId: number) {
+  return getState()
+    .subtasks.filter((subtask) => subtask.task_id === taskId)
+    .sort((a, b) => a.position - b.position);
+}
+
+function findSubtask(task: Task, id: number) {
+  const subtask = taskSubtasks(task.id).find((s) => s.id === id);
+  if (!subtask) {
+    throw new MockHttpError(404, 'Subtask not found');
+  }
+  return subtask;
+}
+
+function subtaskTitle(body: unknown) {
+  const title = field(body, 'title', 'string');
+  if (title !== undefined && !title.trim()) {
+    throw new MockHttpError(400, 'Title is required');
+  }
+  return title?.trim();
+}
+
+function taskComments(taskId: number) {
+  return getState().comments.filter((comment) => comment.task_id === taskId);
+}
+
+function commentBody(body: unknown) {
+  const text = field(body, 'body', 'string')?.trim();
+  if (!text) {
+    throw new MockHttpError(400, 'Comment cannot be empty');
+  }
+  return text;
+}
+
+function findComment(task: Task, id: number) {
+  const comment = taskComments(task.id).find((c) => c.id === id);
+  if (!comment) {
+    throw new MockHttpError(404, 'Comment not found');
+  }
+  return comment;
+}
+
+function taskAttachments(taskId: number) {
+  return getState().attachments.filter((attachment) => attachment.task_id === taskId);
+}
+
+function findAttachment(task: Task, id: number) {
+  const attachment = taskAttachments(task.id).find((a) => a.id === id);
+  if (!attachment) {
+    throw new MockHttpError(404, 'Attachment not found');
+  }
+  return attachment;
+}
+
+// Reads the `file` part of a multipart upload and checks it against the
+// limits the upload form applies too.
+async function uploadedFile(request: Request) {
+  const form = await request.formData().catch(() => null);
+  const file = form?.get('file');
+  if (!(file instanceof File)) {
+    throw new MockHttpError(400, 'file is required');
+  }
+  const problem = attachmentProblem(file);
+  if (problem) {
+    throw new MockHttpError(file.size > MAX_ATTACHMENT_BYTES ? 413 : 400, problem);
+  }
+  return file;
+}
+
+// Refreshes the counts a task carries for its subtasks, comments and attachments, and
+// applies `auto_complete`.
+function syncDerivedFields(task: Task) {
+  const subtasks = taskSubtasks(task.id);
+  task.subtask_count = subtasks.length;
+  task.subtasks_completed = subtasks.filter((subtask) => subtask.completed).length;
+  task.comment_count = taskComments(task.id).length;
+  task.attachment_count = taskAttachments(task.id).length;
+  if (task.auto_complete && task.subtask_count > 0 && task.subtasks_completed === task.subtask_count) {
+    task.status = 'completed';
+  }
+  stampCompletion(task);
+}
+
+/**
+ * Saves a subtask, comment or attachment write and tells the task's subscribers about the
+ * new counts. A status change from `auto_complete` goes into the history as
+ * `actor`'s.
+ */
+function childrenChanged(task: Task, actor: MockUser, response: Response) {
+  const before = trackedValues(task);
+  syncDerivedFields(task);
+  recordChanges(task, actor, before);
+  save();
+  publish({ type: 'task.updated', task }, audience(task));
+  return response;
+}
+
+function dateParam(query: URLSearchParams, key: string) {
+  const value = query.get(key);
+  if (value !== null && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new MockHttpError(400, `${key} must be a YYYY-MM-DD date`);
+  }
+  return value ?? undefined;
+}
+
+/** The inclusive range `from`..`to` in `query`; by default the days up to `today`. */
+function dateRange(query: URLSearchParams, today: string) {
+  const to = dateParam(query, 'to') ?? today;
+  const from = dateParam(query, 'from') ?? addDays(to, 1 - ANALYTICS_DEFAULT_DAYS);
+  if (from > to) {
+    throw new MockHttpError(400, 'from must not be after to');
+  }
+  if (addDays(from, ANALYTICS_MAX_DAYS) <= to) {
+    throw new MockHttpError(400, `The range can cover at most ${ANALYTICS_MAX_DAYS} days`);
+  }
+  return { from, to };
+}
+
+/** The `YYYY-MM-DD` date `timestamp` falls on in `timeZone`. */
+function dateIn(timestamp: string, timeZone: string) {
+  return new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date(timestamp));
+}
+
+// The numbers behind the admin analytics tab; see analyticsSchema for what
+// each one covers.
+function analytics(query: URLSearchParams) {
+  const { from, to } = dateRange(query, todayKey());
+  const { users, tasks } = getState();
+  const day = (timestamp: string) => timestamp.slice(0, 10);
+  const inRange = (timestamp: string) => timestamp !== '' && day(timestamp) >= from && day(timestamp) <= to;
+  const created = tasks.filter((task) => inRange(task.created_at));
+  const completed = tasks.filter((task) => inRange(task.completed_at));
+
+  const timeline = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    timeline.push({
+      date,
+      created: created.filter((task) => day(task.created_at) === date).length,
+      completed: completed.filter((task) => day(task.completed_at) === date).length,
+    });
+  }
+
+  const today = todayKey();
+  const overdue = new Map<number | null, { user_id: number | null; name: string; overdue: number }>();
+  for (const task of created.filter((t) => isOverdue(t, today))) {
+    const entry = overdue.get(task.assignee_id) ?? {
+      user_id: task.assignee_id,
+      name: task.assignee_id === null ? 'Unassigned' : task.assignee_name,
+      overdue: 0,
+    };
+    entry.overdue++;
+    overdue.set(task.assignee_id, entry);
+  }
+
+  const hours = completed.map((task) => (Date.parse(task.completed_at) - Date.parse(task.created_at)) / 3_600_000);
+  const user_activity = users
+    .filter((user) => !user.deactivated)
+    .map((user) => ({
+      user_id: user.id,
+      name: user.name,
+      created: created.filter((task) => task.user_id === user.id).length,
+      completed: completed.filter((task) => task.assignee_id === user.id).length,
+    }))
+    .sort((a, b) => b.created + b.completed - (a.created + a.completed) || a.name.localeCompare(b.name));
+
+  return {
+    from,
+    to,
+    timeline,
+    status_counts: countByStatus(created),
+    priority_counts: Object.fromEntries(
+      PRIORITIES.map((priority) => [priority, created.filter((task) => task.priority === priority).length])
+    ),
+    overdue_by_user: [...overdue.values()].sort((a, b) => b.overdue - a.overdue),
+    avg_completion_hours: hours.length > 0 ? hours.reduce((sum, h) => sum + h, 0) / hours.length : null,
+    user_activity,
+  };
+}
+
+// The caller's insights page; see insightsSchema. Days are in the caller's
+// time zone, and the burndown replays each task's status changes from its
+// history.
+function insights(user: MockUser, query: URLSearchParams) {
+  const { time_zone } = reminderSettingsFor(user.id);
+  const day = (timestamp: string) => dateIn(timestamp, time_zone);
+  const today = day(new Date().toISOString());
+  const { from, to } = dateRange(query, today);
+  const state = getState();
+  const tasks = state.tasks.filter((task) => task.assignee_id === user.id);
+  const completed = tasks.filter((task) => task.completed_at !== '' && day(task.completed_at) >= from && day(task.completed_at) <= to);
+
+  const statusChanges = new Map(
+    tasks.map((task) => [
+      task.id,
+      state.activity
+        .filter((entry) => entry.task_id === task.id)
+        .flatMap((entry) =>
+          entry.changes.filter((change) => change.field === 'status').map((change) => ({ date: day(entry.created_at), ...change }))
+        ),
+    ])
+  );
+  const openAt = (task: Task, date: string) => {
+    if (day(task.created_at) > date) return false;
+    const changes = statusChanges.get(task.id) ?? [];
+    const last = changes.filter((change) => change.date <= date).at(-1);
+    // Before its first change a task had the status that change started from.
+    return (last?.to ?? changes[0]?.from ?? task.status) !== 'completed';
+  };
+
+  const days = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    days.push({
+      date,
+      completed: completed.filter((task) => day(task.completed_at) === date).length,
+      open: tasks.filter((task) => openAt(task, date)).length,
+    });
+  }
+
+  const completionDays = new Set(tasks.filter((task) => task.completed_at !== '').map((task) => day(task.completed_at)));
+  let longest = 0;
+  let run = 0;
+  let previous = '';
+  for (const date of [...completionDays].sort()) {
+    run = previous && addDays(previous, 1) === date ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  }
+  // A streak isn't broken until a day has passed without a completion.
+  let current = 0;
+  for (let date = completionDays.has(today) ? today : addDays(today, -1); completionDays.has(date); date = addDays(date, -1)) {
+    current++;
+  }
+
+  const cycleHours = (priority: TaskPriority) => {
+    const hours = completed
+      .filter((task) => task.priority === priority)
+      .map((task) => (Date.parse(task.completed_at) - Date.parse(task.created_at)) / 3_600_000);
+    return hours.length > 0 ? hours.reduce((sum, h) => sum + h, 0) / hours.length : null;
+  };
+
+  return {
+    from,
+    to,
+    days,
+    streak: { current, longest },
+    punctuality: {
+      on_time: completed.filter((task) => task.due_date && day(task.completed_at) <= task.due_date.slice(0, 10)).length,
+      late: completed.filter((task) => task.due_date && day(task.completed_at) > task.due_date.slice(0, 10)).length,
+      undated: completed.filter((task) => !task.due_date).length,
+    },
+    cycle_hours: Object.fromEntries(PRIORITIES.map((priority) => [priority, cycleHours(priority)])),
+  };
+}
+
+const routes: MockRoute[] = [
+  route(
+    'POST',
+    '/auth/register',
+    ({ body }) => {
+      const state = getState();
+      const email = field(body, 'email', 'string')?.trim().toLowerCase();
+      const password = field(body, 'password', 'string');
+      const name = field(body, 'name', 'string')?.trim();
+      if (!email || !password || !name) {
+        throw new MockHttpError(400, 'Email, password and name are required');
+      }
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        throw new MockHttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      }
+      if (state.users.some((user) => user.email === email)) {
+        throw new MockHttpError(409, 'Email already registered');
+      }
+      const user: MockUser = { id: state.nextUserId++, email, password, name, role: 'user' };
+      state.users.push(user);
+      return json({ ...issueTokens(user), user: publicUser(user) }, 201);
+    },
+    'none'
+  ),
+  route(
+    'POST',
+    '/auth/login',
+    ({ body }) => {
+      const email = field(body, 'email', 'string')?.trim().toLowerCase();
+      const password = field(body, 'password', 'string');
+      const user = getState().users.find((u) => u.email === email && u.password === password);
+      if (!user) {
+        throw new MockHttpError(401, 'Invalid email or password');
+      }
+      if (user.deactivated) {
+        throw new MockHttpError(403, 'This account has been deactivated. Contact an administrator to restore access.');
+      }
+      if (user.password_reset_required) {
+        const newPassword = field(body, 'new_password', 'string');
+        if (!newPassword) {
+          throw new MockHttpError(
+            403,
+            'An administrator has reset your password. Choose a new one to sign in.',
+            'password_reset_required'
+          );
+        }
+        if (newPassword.length < MIN_PASSWORD_LENGTH) {
+          throw new MockHttpError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+        }
+        if (newPassword === password) {
+          throw new MockHttpError(400, 'The new password must differ from the old one');
+        }
+        user.password = newPassword;
+        user.password_reset_required = false;
+      }
+      return json({ ...issueTokens(user), user: publicUser(user) });
+    },
+    'none'
+  ),
+  route(
+    'POST',
+    '/auth/refresh',
+    ({ body }) => {
+      const state = getState();
+      const refreshToken = field(body, 'refresh_token', 'string') ?? '';
+      const session = state.refreshTokens[refreshToken];
+      const user = session && state.users.find((u) => u.id === session.user_id);
+      if (!session || session.expires_at < Date.now() || !user) {
+        throw new MockHttpError(401, 'Invalid refresh token');
+      }
+      // Refresh tokens rotate: the one just used cannot be replayed.
+      delete state.refreshTokens[refreshToken];
+      return json(issueTokens(user));
+    },
+    'none'
+  ),
+  route(
+    'POST',
+    '/auth/logout',
+    ({ body, request }) => {
+      // Ends this session only: the refresh token sent and the access token
+      // it came with. The user's other sessions stay signed in.
+      const state = getState();
+      delete state.refreshTokens[field(body, 'refresh_token', 'string') ?? ''];
+      const token = request.headers.get('Authorization')?.replace(/^Bearer /, '');
+      if (token) {
+        delete state.accessTokens[token];
+      }
+      save();
+      return noContent();
+    },
+    'none'
+  ),
+  route('GET', '/auth/me', ({ user }) => json(publicUser(user!))),
+
+  route('GET', '/tasks', ({ user, query }) => {
+    const own = relatedTasks(user!, query);
+    return json({ ...queryTasks(own, query), status_counts: countByStatus(own) });
+  }),
+  route('POST', '/tasks', ({ user, body }) => {
+    const changes = taskChanges({ title: '', ...(body as object) });
+    const recurrence = recurrenceField(body);
+    const state = getState();
+    const task: Task = {
+      id: state.nextTaskId++,
+      user_id: user!.id,
+      creator_name: user!.name,
+      assignee_id: user!.id,
+      assignee_name: user!.name,
+      title: '',
+      description: '',
+      status: 'pending',
+      priority: 'medium',
+      due_date: '',
+      created_at: new Date().toISOString(),
+      completed_at: '',
+      subtask_count: 0,
+      subtasks_completed: 0,
+      auto_complete: false,
+      comment_count: 0,
+      attachment_count: 0,
+      tags: [],
+      recurrence: null,
+      series_id: null,
+      occurrence: null,
+      reminders: null,
+    };
+    applyTaskChanges(task, changes);
+    if (recurrence) {
+      startSeries(task, recurrence);
+    }
+    state.tasks.push(task);
+    recordActivity(task, user!, 'created');
+    save();
+    publish({ type: 'task.created', task }, audience(task));
+    return json(task, 201);
+  }),
+  route('POST', '/tasks/bulk', ({ user, body }) => {
+    const action = enumField(body, 'action', ['update', 'delete']);
+    if (!action) {
+      throw new MockHttpError(400, 'action is required');
+    }
+    const changes = action === 'update' ? bulkChanges(body) : undefined;
+    const targets = bulkTargets(user!, body);
+    const scenario = SCENARIOS[getState().scenario] ?? SCENARIOS.normal;
+
+    const results = targets.map(({ id, task }) => {
+      if (!task) {
+        return { id, ok: false, error: 'Task not found' };
+      }
+      // The flaky scenario fails tasks one by one too, to show partial failures.
+      if (scenario.failureRate && Math.random() < scenario.failureRate) {
+        return { id, title: task.title, ok: false, error: 'Internal server error (mock scenario)' };
+      }
+      if (action === 'delete') {
+        if (task.user_id !== user!.id) {
+          return { id, title: task.title, ok: false, error: "Only the task's creator can delete it" };
+        }
+        deleteTask(task, user!);
+        return { id, title: task.title, ok: true, task: null };
+      }
+      const before = trackedValues(task);
+      applyTaskChanges(task, changes!);
+      recordChanges(task, user!, before);
+      publish({ type: 'task.updated', task }, audience(task));
+      return { id, title: task.title, ok: true, task };
+    });
+    save();
+    return json({ results });
+  }),
+  route('GET', '/tasks/insights', ({ user, query }) => json(insights(user!, query))),
+  route('GET', '/tasks/:id', (ctx) => json(findVisibleTask(numericParam(ctx, 'id'), ctx.user!))),
+  route('PUT', '/tasks/:id', (ctx) => {
+    const task = findTask(numericParam(ctx, 'id'), ctx.user!);
+    const scope = ctx.query.get('scope') ?? 'this';
+    if (scope !== 'this' && scope !== 'future') {
+      throw new MockHttpError(400, 'scope must be one of this, future');
+    }
+    const changes = taskChanges(ctx.body);
+    const recurrence = recurrenceField(ctx.body);
+    const before = trackedValues(task);
+    const previousAssignee = task.assignee_id;
+    applyTaskChanges(task, changes);
+    if (recurrence !== undefined) {
+      setRecurrence(task, recurrence);
+    }
+    if (scope === 'future') {
+      applyToFutureOccurrences(task, ctx.body, ctx.user!);
+    }
+    syncDerivedFields(task);
+    recordChanges(task, ctx.user!, before);
+    save();
+    // Someone the task was just taken from hears about it too.
+    publish({ type: 'task.updated', task }, audience(task, previousAssignee));
+    return json(task);
+  }),
+  route('DELETE', '/tasks/:id', (ctx) => {
+    const task = findTask(numericParam(ctx, 'id'), ctx.user!);
+    checkCanDelete(task, ctx.user!);
+    deleteTask(task, ctx.user!);
+    return json({ message: 'Task deleted' });
+  }),
+  route('GET', '/tasks/:id/series', (ctx) => {
+    const task = findVisibleTask(numericParam(ctx, 'id'), ctx.user!);
+    return json(task.series_id === null ? [task] : seriesTasks(task.series_id));
+  }),
+  route('GET', '/tasks/:id/activity', (ctx) => {
+    const id = numericParam(ctx, 'id');
+    const user = ctx.user!;
+    const { tasks, activity } = getState();
+    const entries = activity.filter((entry) => entry.task_id === id);
+    if (tasks.some((task) => task.id === id)) {
+      findVisibleTask(id, user);
+    } else if (entries.length === 0 || (user.role !== 'admin' && entries[0].owner_id !== user.id)) {
+      throw new MockHttpError(404, 'Task not found');
+    }
+    return json(entries.map(publicActivity));
+  }),
+
+  route('GET', '/tasks/:id/subtasks', (ctx) =>
+    json(taskSubtasks(findVisibleTask(numericParam(ctx, 'id'), ctx.user!).id))
+  ),
+  route('POST', '/tasks/:id/subtasks', (ctx) => {
+    const task = findTask(numericParam(ctx, 'id'), ctx.user!);
+    const title = subtaskTitle(ctx.body);
+    if (!title) {
+      throw new MockHttpError(400, 'Title is required');
+    }
+    const state = getState();
+    const subtask = {
+      id: state.nextSubtaskId++,
+      task_id: task.id,
+      title,
+      completed: false,
+      position: taskSubtasks(task.id).length,
+    };
+    state.subtasks.push(subtask);
+    return childrenChanged(task, ctx.user!, json(subtask, 201));
+  }),
+  // Declared before PUT /tasks/:id/subtasks/:subtaskId so "order" isn't taken for an id.
+  route('PUT', '/tasks/:id/subtasks/order', (ctx) => {
+    const task = findTask(numericParam(ctx, 'id'), ctx.user!);
+    const subtasks = taskSubtasks(task.id);
+    const ids = (ctx.body as { ids?: unknown } | null)?.ids;
+    if (
+      !Array.isArray(ids) ||
+      ids.length !== subtasks.length ||
+      !subtasks.every((subtask) => ids.includes(subtask.id))
+    ) {
+      throw new MockHttpError(400, 'ids must list every subtask of the task exactly once');
+    }
+    subtasks.forEach((subtask) => {
+      subtask.position = ids.indexOf(subtask.id);
+    });
+    return childrenChanged(task, ctx.user!, json(taskSubtasks(task.id)));
+  }),
+  route('PUT', '/tasks/:id/subtasks/:subtaskId', (ctx) => {
+    const task = findTask(numericParam(ctx, 'id'), ctx.user!);
+    const subtask = findSubtask(task, numericParam(ctx, 'subtaskId'));
+    subtask.title = subtaskTitle(ctx.body) ?? subtask.title;
+    subtask.completed = field(ctx.body, 'completed', 'boolean') ?? subtask.completed;
+    return childrenChanged(task, ctx.user!, json(subtask));
+  }),
+  route('DELETE', '/tasks/:id/subtasks/:subtaskId', (ctx) => {
+    const task = findTask(numericParam(ctx, 'id'), ctx.user!);
+    const subtask = findSubtask(task, numericParam(ctx, 'subtaskId'));
+    const state = getState();
+    state.subtasks = state.subtasks.filter((s) => s !== subtask);
+    taskSubtasks(task.id).forEach((s, position) => {
+      s.position = position;
+    });
+    return childrenChanged(task, ctx.user!, noContent());
+  }),
+
+  route('GET', '/tasks/:id/comments', (ctx) =>
+    json(taskComments(findVisibleTask(numericParam(ctx, 'id'), ctx.user!).id))
+  ),
+  route('POST', '/tasks/:id/comments', (ctx) => {
+    const user = ctx.user!;
+    const task = findVisibleTask(numericParam(ctx, 'id'), user);
+    const state = getState();
+    const comment = {
+      id: state.nextCommentId++,
+      task_id: task.id,
+      user_id: user.id,
+      author_name: user.name,
+      body: commentBody(ctx.body),
+      created_at: new Date().toISOString(),
+      updated_at: '',
+    };
+    state.comments.push(comment);
+    return childrenChanged(task, user, json(comment, 201));
+  }),
+  route('PUT', '/tasks/:id/comments/:commentId', (ctx) => {
+    const task = findVisibleTask(numericParam(ctx, 'id'), ctx.user!);
+    const comment = findComment(task, numericParam(ctx, 'commentId'));
+    if (comment.user_id !== ctx.user!.id) {
+      throw new MockHttpError(403, 'Only the author can edit a comment');
+    }
+    comment.body = commentBody(ctx.body);
+    comment.updated_at = new Date().toISOString();
+    return childrenChanged(task, ctx.user!, json(comment));
+  }),
+  route('DELETE', '/tasks/:id/comments/:commentId', (ctx) => {
+    const user = ctx.user!;
+    const task = findVisibleTask(numericParam(ctx, 'id'), user);
+    const comment = findComment(task, numericParam(ctx, 'commentId'));
+    if (comment.user_id !== user.id && user.role !== 'admin') {
+      throw new MockHttpError(403, 'Only the author or an admin can delete a comment');
+    }
+    const state = getState();
+    state.comments = state.comments.filter((c) => c !== comment);
+    return childrenChanged(task, user, noContent());
+  }),
+
+  route('GET', '/tasks/:id/attachments', (ctx) =>
+    json(taskAttachments(findVisibleTask(numericParam(ctx, 'id'), ctx.user!).id))
+  ),
+  route('POST', '/tasks/:id/attachments', async (ctx) => {
+    const user = ctx.user!;
+    const task = findVisibleTask(numericParam(ctx, 'id'), user);
+    const file = await uploadedFile(ctx.request);
+    const state = getState();
+    const attachment = {
+      id: state.nextAttachmentId++,
+      task_id: task.id,
+      user_id: user.id,
+      uploader_name: user.name,
+      file_name: file.name,
+      content_type: attachmentType(file)!,
+      size: file.size,
+      created_at: new Date().toISOString(),
+    };
+    writeAttachment(attachment.id, new Uint8Array(await file.arrayBuffer()));
+    state.attachments.push(attachment);
+    return childrenChanged(task, user, json(attachment, 201));
+  }),
+  // Served with the stored type and `nosniff`, and only images and PDFs
+  // inline, so an upload can't be run as a page of the site.
+  route('GET', '/tasks/:id/attachments/:attachmentId/content', (ctx) => {
+    const task = findVisibleTask(numericParam(ctx, 'id'), ctx.user!);
+    const attachment = findAttachment(task, numericParam(ctx, 'attachmentId'));
+    const inline = isPreviewable(attachment.content_type) && ctx.query.get('download') !== '1';
+    const fileName = encodeURIComponent(attachment.file_name);
+    return new Response(readAttachment(attachment.id), {
+      headers: {
+        'Content-Type': attachment.content_type,
+        'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${fileName}`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  }),
+  route('DELETE', '/tasks/:id/attachments/:attachmentId', (ctx) => {
+    const user = ctx.user!;
+    const task = findVisibleTask(numericParam(ctx, 'id'), user);
+    const attachment = findAttachment(task, numericParam(ctx, 'attachmentId'));
+    if (attachment.user_id !== user.id && task.user_id !== user.id && user.role !== 'admin') {
+      throw new MockHttpError(403, "Only the uploader, the task's creator or an admin can delete an attachment");
+    }
+    const state = getState();
+    state.attachments = state.attachments.filter((a) => a !== attachment);
+    removeAttachment(attachment.id);
+    return childrenChanged(task, user, noContent());
+  }),
+
+  route('GET', '/users', ({ query }) => {
+    const search = query.get('search')?.trim().toLowerCase() ?? '';
+    return json(
+      getState()
+        .users.filter((user) => !user.deactivated)
+        .filter((user) => user.name.toLowerCase().includes(search) || user.email.includes(search))
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .slice(0, USER_SEARCH_LIMIT)
+        .map(publicUser)
+    );
+  }),
+
+  route('GET', '/tags', ({ user }) => {
+    const { tags, tasks } = getState();
+    // Usage is counted over the tasks the caller can see.
+    const visible = user!.role === 'admin' ? tasks : tasks.filter((task) => isParticipant(task, user!));
+    return json(
+      [...tags]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map((tag) => ({ ...tag, task_count: visible.filter((task) => task.tags.some((t) => t.id === tag.id)).length }))
+    );
+  }),
+
+  route('GET', '/notifications', ({ user }) => {
+    deliverReminders();
+    const own = getState().notifications.filter((notification) => notification.user_id === user!.id);
+    return json({
+      items: [...own]
+        .sort((a, b) => b.remind_at.localeCompare(a.remind_at) || b.id - a.id)
+        .slice(0, NOTIFICATION_LIMIT)
+        .map(publicNotification),
+      unread_count: own.filter((notification) => !notification.read && !notification.snoozed_until).length,
+    });
+  }),
+  route('POST', '/notifications/read-all', ({ user }) => {
+    for (const notification of getState().notifications) {
+      if (notification.user_id === user!.id && !notification.snoozed_until) {
+        notification.read = true;
+      }
+    }
+    save();
+    return noContent();
+  }),
+  route('GET', '/notifications/settings', ({ user }) => json(reminderSettingsFor(user!.id))),
+  // Declared before PUT /notifications/:id so "settings" isn't taken for an id.
+  route('PUT', '/notifications/settings', ({ user, body }) => {
+    const settings = { ...reminderSettingsFor(user!.id) };
+    const reminders = remindersField(body, 'default_reminders');
+    if (reminders !== undefined) {
+      settings.default_reminders = reminders ?? [];
+    }
+    const timeZone = field(body, 'time_zone', 'string');
+    if (timeZone !== undefined) {
+      if (!isValidTimeZone(timeZone)) {
+        throw new MockHttpError(400, 'time_zone must be an IANA time zone name, e.g. Europe/Berlin');
+      }
+      settings.time_zone = timeZone;
+    }
+    getState().reminderSettings[user!.id] = settings;
+    save();
+    return json(settings);
+  }),
+  route('PUT', '/notifications/:id', (ctx) => {
+    const notification = findNotification(numericParam(ctx, 'id'), ctx.user!);
+    const read = field(ctx.body, 'read', 'boolean');
+    if (read === undefined) {
+      throw new MockHttpError(400, 'read is required');
+    }
+    notification.read = read;
+    save();
+    return json(publicNotification(notification));
+  }),
+  route('POST', '/notifications/:id/snooze', (ctx) => {
+    const notification = findNotification(numericParam(ctx, 'id'), ctx.user!);
+    const minutes = field(ctx.body, 'minutes', 'number');
+    if (minutes === undefined || !Number.isInteger(minutes) || minutes < 1 || minutes > MAX_SNOOZE_MINUTES) {
+      throw new MockHttpError(400, `minutes must be a whole number from 1 to ${MAX_SNOOZE_MINUTES}`);
+    }
+    notification.snoozed_until = new Date(Date.now() + minutes * 60 * 1000).toISOString();
+    notification.read = true;
+    save();
+    return json(publicNotification(notification));
+  }),
+
+  route('GET', '/admin/users', ({ query }) => json(queryUsers(getState().users.map(adminUser), query)), 'admin'),
+  route(
+    'GET',
+    '/admin/tasks',
+    ({ query }) => {
+      const { users, tasks } = getState();
+      const page = queryTasks(tasks, query);
+      const ownerName = (id: number) => users.find((u) => u.id === id)?.name ?? '';
+      return json({ ...page, items: page.items.map((task) => ({ ...task, owner_name: ownerName(task.user_id) })) });
+    },
+    'admin'
+  ),
+  route('GET', '/admin/analytics', ({ query }) => json(analytics(query)), 'admin'),
+  route(
+    'POST',
+    '/admin/promote/:id',
+    (ctx) => {
+      const user = findUser(numericParam(ctx, 'id'));
+      user.role = 'admin';
+      save();
+      publish({ type: 'user.promoted', user: publicUser(user) }, user.id);
+      return json({ message: 'User promoted to admin' });
+    },
+    'admin'
+  ),
+  route(
+    'POST',
+    '/admin/demote/:id',
+    (ctx) => {
+      const user = findUser(numericParam(ctx, 'id'));
+      guardLastAdmin(user, 'demote');
+      user.role = 'user';
+      return userChanged(user, 'Admin demoted to user');
+    },
+    'admin'
+  ),
+  route(
+    'POST',
+    '/admin/deactivate/:id',
+    (ctx) => {
+      const user = findUser(numericParam(ctx, 'id'));
+      guardSelf(user, ctx.user!, 'deactivate');
+      guardLastAdmin(user, 'deactivate');
+      user.deactivated = true;
+      revokeSessions(user);
+      return userChanged(user, 'User deactivated');
+    },
+    'admin'
+  ),
+  route(
+    'POST',
+    '/admin/reactivate/:id',
+    (ctx) => {
+      const user = findUser(numericParam(ctx, 'id'));
+      user.deactivated = false;
+      return userChanged(user, 'User reactivated');
+    },
+    'admin'
+  ),
+  route(
+    'POST',
+    '/admin/reset-password/:id',
+    (ctx) => {
+      const user = findUser(numericParam(ctx, 'id'));
+      user.password_reset_required = true;
+      revokeSessions(user);
+      return userChanged(user, 'Password reset required at next sign-in');
+    },
+    'admin'
+  ),
+  route(
+    'DELETE',
+    '/admin/users/:id',
+    (ctx) => {
+      const user = findUser(numericParam(ctx, 'id'));
+      guardSelf(user, ctx.user!, 'delete');
+      guardLastAdmin(user, 'delete');
+      deleteUser(user, ctx.user!, ctx.query);
+      return json({ message: 'User deleted' });
+    },
+    'admin'
+  ),
+  route(
+    'DELETE',
+    '/admin/tasks/:id',
+    (ctx) => {
+      deleteTask(findTask(numericParam(ctx, 'id')), ctx.user!);
+      return json({ message: 'Task deleted' });
+    },
+    'admin'
+  ),
+  route(
+    'PUT',
+    '/admin/tasks/:id/assignee',
+    (ctx) => {
+      const task = findTask(numericParam(ctx, 'id'));
+      if ((ctx.body as Record<string, unknown> | null)?.assignee_id === undefined) {
+        throw new MockHttpError(400, 'assignee_id is required');
+      }
+      const before = trackedValues(task);
+      const previousAssignee = task.assignee_id;
+      applyAssignee(task, assigneeField(ctx.body) ?? null);
+      recordChanges(task, ctx.user!, before);
+      save();
+      publish({ type: 'task.updated', task }, audience(task, previousAssignee));
+      const owner = getState().users.find((u) => u.id === task.user_id);
+      return json({ ...task, owner_name: owner?.name ?? '' });
+    },
+    'admin'
+  ),
+
+  route(
+    'PUT',
+    '/admin/tags/:id',
+    (ctx) => {
+      const tag = findTag(numericParam(ctx, 'id'));
+      const name = field(ctx.body, 'name', 'string');
+      if (name !== undefined) {
+        const renamed = tagName(name);
+        const existing = findTagByName(renamed);
+        if (existing && existing !== tag) {
+          throw new MockHttpError(409, `A tag named "${existing.name}" already exists; merge into it instead`);
+        }
+        tag.name = renamed;
+      }
+      tag.color = enumField(ctx.body, 'color', TAG_COLORS) ?? tag.color;
+      retag((tags) => tags.map((t) => (t.id === tag.id ? { ...tag } : t)));
+      return json(tag);
+    },
+    'admin'
+  ),
+  route(
+    'POST',
+    '/admin/tags/:id/merge',
+    (ctx) => {
+      const source = findTag(numericParam(ctx, 'id'));
+      const into = field(ctx.body, 'into', 'number');
+      const target = getState().tags.find((tag) => tag.id === into);
+      if (!target || target === source) {
+        throw new MockHttpError(400, 'into must be the id of another tag');
+      }
+      const state = getState();
+      state.tags = state.tags.filter((tag) => tag !== source);
+      retag((tags) => {
+        if (!tags.some((t) => t.id === source.id)) return tags;
+        const rest = tags.filter((t) => t.id !== source.id && t.id !== target.id);
+        return [...rest, { ...target }];
+      });
+      return json(target);
+    },
+    'admin'
+  ),
+  route(
+    'DELETE',
+    '/admin/tags/:id',
+    (ctx) => {
+      const tag = findTag(numericParam(ctx, 'id'));
+      const state = getState();
+      state.tags = state.tags.filter((t) => t !== tag);
+      retag((tags) => tags.filter((t) => t.id !== tag.id));
+      return noContent();
+    },
+    'admin'
+  ),
+
+  // Server-sent events for every write above, see lib/mock/events.ts.
+  route('GET', '/events', ({ user, request }) => eventStream(user!, request.signal)),
+
+  // Control endpoints for the mock itself, reachable through /api/mock/*.
+  route(
+    'GET',
+    '/mock/scenario',
+    () => json({ scenario: getState().scenario, available: SCENARIOS }),
+    'none'
+  ),
+  route(
+    'PUT',
+    '/mock/scenario',
+    ({ body }) => {
+      const scenario = field(body, 'scenario', 'string');
+      if (!scenario || !SCENARIOS[scenario]) {
+        throw new MockHttpError(400, `scenario must be one of ${Object.keys(SCENARIOS).join(', ')}`);
+      }
+      getState().scenario = scenario;
+      save();
+      return json({ scenario });
+    },
+    'none'
+  ),
+  route(
+    'POST',
+    '/mock/reset',
+    () => {
+      reset();
+      return noContent();
+    },
+    'none'
+  ),
+];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Drops `status` and `title` from task-shaped objects, however deeply nested,
+// for the malformed scenario.
+function malform(data: unknown): unknown {
+  if (Array.isArray(data)) return data.map(malform);
+  if (data && typeof data === 'object' && 'title' in data && 'status' in data) {
+    const copy: Record<string, unknown> = { ...data };
+    delete copy.title;
+    delete copy.status;
+    return copy;
+  }
+  if (data && typeof data === 'object') {
+    return Object.fromEntries(Object.entries(data).map(([key, value]) => [key, malform(value)]));
+  }
+  return data;
+}
+
+export async function handleMockRequest(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  const path = url.pathname;
+  const isControl = path.startsWith('/mock/');
+  startReminderTimer();
+  const scenario = SCENARIOS[getState().scenario] ?? SCENARIOS.normal;
+
+  if (!isControl) {
+    await sleep(scenario.latencyMs);
+    if (scenario.failWith) {
+      return json({ error: 'Service unavailable (mock scenario)' }, scenario.failWith);
+    }
+    if (scenario.failureRate && Math.random() < scenario.failureRate) {
+      return json({ error: 'Internal server error (mock scenario)' }, 500);
+    }
+  }
+
+  let matched: MockRoute | undefined;
+  let params: Record<string, string> = {};
+  for (const candidate of routes) {
+    const match = candidate.method === request.method && candidate.pattern.exec(path);
+    if (match) {
+      matched = candidate;
+      params = Object.fromEntries(candidate.keys.map((key, i) => [key, decodeURIComponent(match[i + 1])]));
+      break;
+    }
+  }
+  if (!matched) {
+    return json({ error: `No mock for ${request.method} ${path}` }, 404);
+  }
+
+  const user = matched.auth === 'none' ? null : authenticate(request);
+  if (matched.auth !== 'none' && !user) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+  if (matched.auth === 'admin' && user?.role !== 'admin') {
+    return json({ error: 'Admin access required' }, 403);
+  }
+
+  const contentType = request.headers.get('content-type') ?? '';
+  const body = contentType.includes('application/json') ? await request.json().catch(() => null) : null;
+  const ctx: MockContext = { params, query: url.searchParams, body, user, request };
+
+  try {
+    const response = await matched.handle(ctx);
+    if (scenario.malformed && !isControl && response.headers.get('content-type')?.includes('json')) {
+      return json(malform(await response.json()), response.status);
+    }
+    return response;
+  } catch (err) {
+    if (err instanceof MockHttpError) {
+      return json({ error: err.message, code: err.code }, err.status);
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,123 @@
+import type { Task, TaskPriority, TaskStatus, User } from '../schemas';
+import { todayKey } from '../recurrence';
+import { MockHttpError } from './router';
+
+// Server-side paging, sorting and filtering with the same query parameters
+// the real backend accepts (see TaskQuery and UserQuery in lib/api.ts).
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { low: 0, medium: 1, high: 2 };
+const STATUS_RANK: Record<TaskStatus, number> = { pending: 0, in_progress: 1, completed: 2 };
+const MAX_PAGE_SIZE = 100;
+
+function compare(a: string | number, b: string | number) {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function paginate<T>(items: T[], query: URLSearchParams) {
+  const page = Math.max(1, Number(query.get('page')) || 1);
+  const page_size = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(query.get('page_size')) || 20));
+  return {
+    items: items.slice((page - 1) * page_size, page * page_size),
+    total: items.length,
+    page,
+    page_size,
+  };
+}
+
+function sortBy<T>(items: T[], key: (item: T) => string | number, query: URLSearchParams) {
+  const direction = query.get('order') === 'asc' ? 1 : -1;
+  return [...items].sort((a, b) => direction * compare(key(a), key(b)));
+}
+
+/** The tasks matching the filters in `query`, ignoring paging and sorting. */
+export function filterTasks(tasks: Task[], query: URLSearchParams) {
+  const search = query.get('search')?.toLowerCase();
+  const status = query.get('status');
+  const priority = query.get('priority');
+  const dueFrom = query.get('due_from');
+  const dueTo = query.get('due_to');
+  const tagIds = query.get('tags')?.split(',').map(Number).filter(Number.isInteger) ?? [];
+  const matchAllTags = query.get('tag_match') === 'all';
+  const createdFrom = query.get('created_from');
+  const createdTo = query.get('created_to');
+  const completedFrom = query.get('completed_from');
+  const completedTo = query.get('completed_to');
+  const assignee = query.get('assignee');
+  const overdue = query.get('overdue') === 'true';
+  const today = todayKey();
+
+  return tasks.filter((task) => {
+    const due = task.due_date.slice(0, 10);
+    const created = task.created_at.slice(0, 10);
+    const completed = task.completed_at.slice(0, 10);
+    const hasTag = (id: number) => task.tags.some((tag) => tag.id === id);
+    return (
+      (!status || task.status === status) &&
+      (!priority || task.priority === priority) &&
+      (!dueFrom || (due !== '' && due >= dueFrom)) &&
+      (!dueTo || (due !== '' && due <= dueTo)) &&
+      (!createdFrom || created >= createdFrom) &&
+      (!createdTo || created <= createdTo) &&
+      (!completedFrom || (completed !== '' && completed >= completedFrom)) &&
+      (!completedTo || (completed !== '' && completed <= completedTo)) &&
+      (!assignee || String(task.assignee_id ?? 'none') === assignee) &&
+      (!overdue || isOverdue(task, today)) &&
+      (tagIds.length === 0 || (matchAllTags ? tagIds.every(hasTag) : tagIds.some(hasTag))) &&
+      (!search ||
+        task.title.toLowerCase().includes(search) ||
+        task.description.toLowerCase().includes(search))
+    );
+  });
+}
+
+/** Whether `task` is still open on `today` (a date key) although it was due before. */
+export function isOverdue(task: Task, today: string) {
+  return task.status !== 'completed' && task.due_date !== '' && task.due_date.slice(0, 10) < today;
+}
+
+export function queryTasks(tasks: Task[], query: URLSearchParams) {
+  const filtered = filterTasks(tasks, query);
+  const sort = query.get('sort') ?? 'created_at';
+  const keys: Record<string, (task: Task) => string | number> = {
+    created_at: (task) => `${task.created_at}#${String(task.id).padStart(9, '0')}`,
+    // Undated tasks sort after every real date in ascending order.
+    due_date: (task) => task.due_date || '9999-12-31',
+    priority: (task) => PRIORITY_RANK[task.priority],
+    title: (task) => task.title.toLowerCase(),
+    status: (task) => STATUS_RANK[task.status],
+  };
+  if (!keys[sort]) {
+    throw new MockHttpError(400, `Cannot sort by ${sort}`);
+  }
+  return paginate(sortBy(filtered, keys[sort], query), query);
+}
+
+export function queryUsers(users: User[], query: URLSearchParams) {
+  const search = query.get('search')?.toLowerCase();
+  const filtered = users.filter(
+    (user) => !search || user.name.toLowerCase().includes(search) || user.email.toLowerCase().includes(search)
+  );
+
+  const sort = query.get('sort') ?? 'id';
+  const keys: Record<string, (user: User) => string | number> = {
+    id: (user) => user.id,
+    name: (user) => user.name.toLowerCase(),
+    email: (user) => user.email,
+    role: (user) => user.role,
+  };
+  if (!keys[sort]) {
+    throw new MockHttpError(400, `Cannot sort by ${sort}`);
+  }
+  // Users default to ascending id order, unlike tasks which are newest first.
+  const order = new URLSearchParams(query);
+  if (!order.has('order')) order.set('order', 'asc');
+  return paginate(sortBy(filtered, keys[sort], order), query);
+}
+
+export function countByStatus(tasks: Task[]) {
+  return {
+    pending: tasks.filter((task) => task.status === 'pending').length,
+    in_progress: tasks.filter((task) => task.status === 'in_progress').length,
+    completed: tasks.filter((task) => task.status === 'completed').length,
+  };
+}
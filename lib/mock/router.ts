@@ -0,0 +1,76 @@
+import type { MockUser } from './db';
+
+export interface MockContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+  /** The authenticated caller; routes declared with `auth: 'none'` get null. */
+  user: MockUser | null;
+  request: Request;
+}
+
+export interface MockRoute {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  auth: 'none' | 'user' | 'admin';
+  handle: (ctx: MockContext) => Response | Promise<Response>;
+}
+
+export class MockHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    /** Sent along as `code` for errors the frontend reacts to. */
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+export function route(
+  method: string,
+  path: string,
+  handle: MockRoute['handle'],
+  auth: MockRoute['auth'] = 'user'
+): MockRoute {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  return { method, pattern: new RegExp(`^${source}$`), keys, auth, handle };
+}
+
+export function json(data: unknown, status = 200) {
+  return Response.json(data, { status });
+}
+
+export function noContent() {
+  return new Response(null, { status: 204 });
+}
+
+export function numericParam(ctx: MockContext, key: string) {
+  const value = Number(ctx.params[key]);
+  if (!Number.isInteger(value)) {
+    throw new MockHttpError(400, `Invalid ${key}`);
+  }
+  return value;
+}
+
+/** Reads a JSON body field, rejecting values of the wrong type. */
+export function field<T extends 'string' | 'number' | 'boolean'>(
+  body: unknown,
+  key: string,
+  type: T
+): (T extends 'string' ? string : T extends 'number' ? number : boolean) | undefined {
+  const value = (body as Record<string, unknown> | null)?.[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== type) {
+    throw new MockHttpError(400, `${key} must be a ${type}`);
+  }
+  return value as never;
+}
@@ -0,0 +1,51 @@
+export interface MockScenario {
+  description: string;
+  latencyMs: number;
+  /** Share of requests (0–1) that fail with a 500. */
+  failureRate?: number;
+  /** Status every request fails with, e.g. 503 for a backend that is down. */
+  failWith?: number;
+  /** Lifetime of newly issued access tokens. */
+  accessTokenTtlMs: number;
+  /** Strip fields from task payloads to exercise contract validation. */
+  malformed?: boolean;
+}
+
+const BASE_LATENCY = Number(process.env.MOCK_LATENCY_MS ?? 150);
+const ACCESS_TOKEN_TTL = 15 * 60 * 1000;
+
+export const SCENARIOS: Record<string, MockScenario> = {
+  normal: {
+    description: 'Everything works, with a small realistic delay.',
+    latencyMs: BASE_LATENCY,
+    accessTokenTtlMs: ACCESS_TOKEN_TTL,
+  },
+  slow: {
+    description: 'Every request takes two seconds.',
+    latencyMs: 2000,
+    accessTokenTtlMs: ACCESS_TOKEN_TTL,
+  },
+  flaky: {
+    description: 'About a third of requests fail with a 500.',
+    latencyMs: BASE_LATENCY,
+    accessTokenTtlMs: ACCESS_TOKEN_TTL,
+    failureRate: 0.3,
+  },
+  down: {
+    description: 'The backend is unreachable; every request fails with a 503.',
+    latencyMs: BASE_LATENCY,
+    accessTokenTtlMs: ACCESS_TOKEN_TTL,
+    failWith: 503,
+  },
+  'expired-session': {
+    description: 'Access tokens expire after ten seconds, so the refresh flow runs constantly.',
+    latencyMs: BASE_LATENCY,
+    accessTokenTtlMs: 10 * 1000,
+  },
+  malformed: {
+    description: 'Task payloads are missing fields the frontend relies on.',
+    latencyMs: BASE_LATENCY,
+    accessTokenTtlMs: ACCESS_TOKEN_TTL,
+    malformed: true,
+  },
+};
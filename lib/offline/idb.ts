@@ -0,0 +1,67 @@
+// A thin promise wrapper over the browser's IndexedDB; everything the app
+// keeps for offline use lives in this one database.
+
+const DB_NAME = 'task-manager';
+const DB_VERSION = 1;
+
+export const STORES = {
+  /** Key/value pairs, e.g. the persisted query cache. */
+  kv: 'kv',
+  /** Queued writes, replayed in `seq` order. */
+  outbox: 'outbox',
+  /** Queued writes the server refused or that clash with newer server data. */
+  conflicts: 'conflicts',
+} as const;
+
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB() {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(STORES.kv);
+      db.createObjectStore(STORES.outbox, { keyPath: 'seq', autoIncrement: true });
+      db.createObjectStore(STORES.conflicts, { keyPath: 'seq', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function run<T>(store: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest) {
+  const db = await openDB();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = action(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export const idb = {
+  get: <T>(store: StoreName, key: IDBValidKey) => run<T | undefined>(store, 'readonly', (s) => s.get(key)),
+  getAll: <T>(store: StoreName) => run<T[]>(store, 'readonly', (s) => s.getAll()),
+  /** Stores `value`, returning its key (the generated `seq` for auto-increment stores). */
+  put: (store: StoreName, value: unknown, key?: IDBValidKey) =>
+    run<IDBValidKey>(store, 'readwrite', (s) => s.put(value, key)),
+  delete: (store: StoreName, key: IDBValidKey) => run<void>(store, 'readwrite', (s) => s.delete(key)),
+};
+
+export const isIndexedDBAvailable = () => typeof indexedDB !== 'undefined';
+
+/** The `kv` store in the shape react-query's async storage persister expects. */
+export const kvStorage = {
+  getItem: async (key: string) => (await idb.get<string>(STORES.kv, key)) ?? null,
+  setItem: async (key: string, value: string) => {
+    await idb.put(STORES.kv, value, key);
+  },
+  removeItem: (key: string) => idb.delete(STORES.kv, key),
+};
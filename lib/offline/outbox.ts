@@ -0,0 +1,165 @@
+import type { CreateTaskData, Task, UpdateScope, UpdateTaskData } from '../api';
+import { STORES, idb, isIndexedDBAvailable } from './idb';
+
+// Writes made without a connection wait here, persisted in IndexedDB, until
+// lib/offline/sync.ts replays them in order. Entries belong to the user who
+// made them and are only replayed in that user's session.
+
+interface EntryBase {
+  /** Assigned by IndexedDB; defines replay order. */
+  seq?: number;
+  userId: number;
+  /** Negative while the task only exists locally (see `nextTempId`). */
+  taskId: number;
+  queuedAt: string;
+  /** Set when the user chose their version over a conflicting server change. */
+  force?: boolean;
+}
+
+export type OutboxEntry =
+  | (EntryBase & { kind: 'create'; data: CreateTaskData })
+  // `base` holds the touched fields as they were before the change, so the
+  // replay can tell whether someone else changed them in the meantime.
+  | (EntryBase & { kind: 'update'; changes: UpdateTaskData; base: Partial<Task>; scope?: UpdateScope })
+  | (EntryBase & { kind: 'delete'; base: Partial<Task> });
+
+export interface OutboxConflict {
+  seq?: number;
+  entry: OutboxEntry;
+  /**
+   * `changed`: the server copy was edited since the change was queued.
+   * `deleted`: the task no longer exists on the server.
+   * `rejected`: the server refused the change.
+   */
+  reason: 'changed' | 'deleted' | 'rejected';
+  message: string;
+  server?: Task;
+}
+
+export interface OutboxSnapshot {
+  entries: OutboxEntry[];
+  conflicts: OutboxConflict[];
+  syncing: boolean;
+}
+
+let userId: number | null = null;
+let entries: OutboxEntry[] = [];
+let conflicts: OutboxConflict[] = [];
+let syncing = false;
+let loaded: Promise<void> | null = null;
+let snapshot: OutboxSnapshot = { entries: [], conflicts: [], syncing: false };
+const listeners = new Set<() => void>();
+
+function emit() {
+  snapshot = {
+    entries: entries.filter((entry) => entry.userId === userId),
+    conflicts: conflicts.filter((conflict) => conflict.entry.userId === userId),
+    syncing,
+  };
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeOutbox(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export const getOutboxSnapshot = () => snapshot;
+
+/** Reads the persisted outbox once per page load. */
+export function loadOutbox() {
+  loaded ??= (async () => {
+    if (!isIndexedDBAvailable()) return;
+    entries = await idb.getAll<OutboxEntry>(STORES.outbox);
+    conflicts = await idb.getAll<OutboxConflict>(STORES.conflicts);
+    emit();
+  })();
+  return loaded;
+}
+
+/** Scopes the outbox to the signed-in user; null while signed out. */
+export function setOutboxUser(id: number | null) {
+  userId = id;
+  emit();
+}
+
+export function setSyncing(value: boolean) {
+  syncing = value;
+  emit();
+}
+
+let lastTempId = 0;
+
+/** Ids for tasks created offline; negative so they never collide with server ids. */
+export function nextTempId() {
+  lastTempId = Math.min(lastTempId - 1, -Date.now());
+  return lastTempId;
+}
+
+export const isTempId = (taskId: number) => taskId < 0;
+
+export const hasPendingChanges = () => snapshot.entries.length > 0;
+
+export const nextEntry = (): OutboxEntry | undefined => snapshot.entries[0];
+
+type NewEntry<E = OutboxEntry> = E extends OutboxEntry ? Omit<E, 'seq' | 'userId' | 'queuedAt'> : never;
+
+export async function enqueue(entry: NewEntry) {
+  if (userId === null) {
+    throw new Error('Cannot queue changes while signed out');
+  }
+  await loadOutbox();
+
+  // A task that never reached the server can simply be forgotten.
+  if (entry.kind === 'delete' && isTempId(entry.taskId)) {
+    const dropped = entries.filter((e) => e.taskId === entry.taskId);
+    await Promise.all(dropped.map((e) => idb.delete(STORES.outbox, e.seq!)));
+    entries = entries.filter((e) => !dropped.includes(e));
+    emit();
+    return undefined;
+  }
+
+  const full = { ...entry, userId, queuedAt: new Date().toISOString() } as OutboxEntry;
+  full.seq = (await idb.put(STORES.outbox, full)) as number;
+  entries = [...entries, full];
+  emit();
+  return full;
+}
+
+/** Puts an entry back at the end of the queue, e.g. after a conflict was resolved. */
+export async function requeue(entry: OutboxEntry) {
+  const copy = { ...entry };
+  delete copy.seq;
+  copy.seq = (await idb.put(STORES.outbox, copy)) as number;
+  entries = [...entries, copy];
+  emit();
+}
+
+export async function removeEntry(entry: OutboxEntry) {
+  await idb.delete(STORES.outbox, entry.seq!);
+  entries = entries.filter((e) => e.seq !== entry.seq);
+  emit();
+}
+
+/** Points queued writes for a locally created task at the id the server assigned it. */
+export async function reassignTaskId(tempId: number, taskId: number) {
+  const affected = entries.filter((e) => e.taskId === tempId);
+  await Promise.all(affected.map((e) => idb.put(STORES.outbox, { ...e, taskId })));
+  entries = entries.map((e) => (e.taskId === tempId ? { ...e, taskId } : e));
+  emit();
+}
+
+/** Sets a replayed entry aside for the user to resolve. */
+export async function addConflict(conflict: OutboxConflict) {
+  await removeEntry(conflict.entry);
+  const stored = { ...conflict };
+  stored.seq = (await idb.put(STORES.conflicts, stored)) as number;
+  conflicts = [...conflicts, stored];
+  emit();
+}
+
+export async function removeConflict(conflict: OutboxConflict) {
+  await idb.delete(STORES.conflicts, conflict.seq!);
+  conflicts = conflicts.filter((c) => c.seq !== conflict.seq);
+  emit();
+}
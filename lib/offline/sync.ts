@@ -0,0 +1,144 @@
+import axios from 'axios';
+import type { QueryClient } from '@tanstack/react-query';
+import { getErrorMessage, isNetworkError, taskAPI, type Tag, type Task, type UpdateTaskData } from '../api';
+import { invalidateTaskLists, taskKeys, updateCachedTask } from '../queries';
+import {
+  addConflict,
+  isTempId,
+  nextEntry,
+  reassignTaskId,
+  removeConflict,
+  removeEntry,
+  requeue,
+  setSyncing,
+  type OutboxConflict,
+  type OutboxEntry,
+} from './outbox';
+
+const hasStatus = (err: unknown, status: number) => axios.isAxiosError(err) && err.response?.status === status;
+
+// Tags are compared by name: tasks hold tag objects, while a queued write
+// holds just the names it sets. Other objects (a recurrence rule, reminders)
+// compare by value.
+function comparable(key: keyof Task, value: unknown) {
+  if (key === 'tags' && Array.isArray(value)) {
+    return value.map((tag: Tag | string) => (typeof tag === 'string' ? tag : tag.name)).join(',');
+  }
+  return value && typeof value === 'object' ? JSON.stringify(value) : value;
+}
+
+/** Fields of `base` that the server has since changed to something else. */
+function changedOnServer(base: Partial<Task>, server: Task, ours: UpdateTaskData = {}) {
+  return (Object.keys(base) as (keyof Task)[]).filter((key) => {
+    const current = comparable(key, server[key]);
+    return (
+      current !== comparable(key, base[key]) && current !== comparable(key, ours[key as keyof UpdateTaskData])
+    );
+  });
+}
+
+async function fetchServerCopy(entry: OutboxEntry) {
+  try {
+    return await taskAPI.getById(entry.taskId);
+  } catch (err) {
+    if (hasStatus(err, 404)) return null;
+    throw err;
+  }
+}
+
+/** Sends one entry; returns a conflict instead when it can't be applied as queued. */
+async function replay(queryClient: QueryClient, entry: OutboxEntry): Promise<Omit<OutboxConflict, 'entry'> | null> {
+  if (isTempId(entry.taskId) && entry.kind !== 'create') {
+    return { reason: 'rejected', message: 'The task this change belongs to could not be created' };
+  }
+
+  switch (entry.kind) {
+    case 'create': {
+      const created = await taskAPI.create(entry.data);
+      await reassignTaskId(entry.taskId, created.id);
+      updateCachedTask(queryClient, entry.taskId, (task) => ({ ...task, ...created }));
+      queryClient.setQueryData(taskKeys.detail(created.id), created);
+      return null;
+    }
+    case 'update': {
+      if (!entry.force) {
+        const server = await fetchServerCopy(entry);
+        if (!server) {
+          return { reason: 'deleted', message: 'The task was deleted on the server' };
+        }
+        const fields = changedOnServer(entry.base, server, entry.changes);
+        if (fields.length > 0) {
+          return { reason: 'changed', message: `Changed on the server: ${fields.join(', ')}`, server };
+        }
+      }
+      const updated = await taskAPI.update(entry.taskId, entry.changes, entry.scope);
+      updateCachedTask(queryClient, updated.id, (task) => ({ ...task, ...updated }));
+      return null;
+    }
+    case 'delete': {
+      const server = await fetchServerCopy(entry);
+      if (!server) return null;
+      const fields = entry.force ? [] : changedOnServer(entry.base, server);
+      if (fields.length > 0) {
+        return { reason: 'changed', message: `Changed on the server: ${fields.join(', ')}`, server };
+      }
+      await taskAPI.delete(entry.taskId);
+      return null;
+    }
+  }
+}
+
+let running: Promise<void> | null = null;
+
+/**
+ * Replays the outbox in order. Stops at the first network failure, leaving
+ * the rest queued for the next attempt; entries that conflict or that the
+ * server rejects are set aside so later ones still go through.
+ */
+export function syncOutbox(queryClient: QueryClient) {
+  running ??= (async () => {
+    setSyncing(true);
+    try {
+      for (let entry = nextEntry(); entry; entry = nextEntry()) {
+        try {
+          const conflict = await replay(queryClient, entry);
+          if (conflict) {
+            await addConflict({ ...conflict, entry });
+          } else {
+            await removeEntry(entry);
+          }
+        } catch (err) {
+          // Offline again, or the session ended: keep everything queued.
+          if (isNetworkError(err) || hasStatus(err, 401)) break;
+          await addConflict({ entry, reason: 'rejected', message: getErrorMessage(err, 'The server rejected this change') });
+        }
+      }
+    } finally {
+      setSyncing(false);
+      running = null;
+      invalidateTaskLists(queryClient);
+    }
+  })();
+  return running;
+}
+
+/**
+ * `mine` queues the change again without the conflict check; `theirs` drops
+ * it and shows the server's copy.
+ */
+export async function resolveConflict(queryClient: QueryClient, conflict: OutboxConflict, keep: 'mine' | 'theirs') {
+  await removeConflict(conflict);
+  if (keep === 'mine' && conflict.reason === 'changed') {
+    await requeue({ ...conflict.entry, force: true });
+    await syncOutbox(queryClient);
+    return;
+  }
+  // Tasks that are gone on the server, or never reached it, leave the cache.
+  if (conflict.reason === 'deleted' || isTempId(conflict.entry.taskId)) {
+    updateCachedTask(queryClient, conflict.entry.taskId, () => null);
+  } else if (conflict.server) {
+    const server = conflict.server;
+    updateCachedTask(queryClient, server.id, (task) => ({ ...task, ...server }));
+  }
+  invalidateTaskLists(queryClient);
+}
@@ -0,0 +1,842 @@
+'use client';
+
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type QueryClient,
+  type QueryKey,
+} from '@tanstack/react-query';
+import {
+  adminAPI,
+  attachmentAPI,
+  getErrorMessage,
+  isNetworkError,
+  commentAPI,
+  notificationAPI,
+  subtaskAPI,
+  tagAPI,
+  taskAPI,
+  taskSchema,
+  userAPI,
+  type AdminUser,
+  type AnalyticsQuery,
+  type Attachment,
+  type BulkAction,
+  type BulkTarget,
+  type Comment,
+  type CreateTaskData,
+  type DeletedUserTasks,
+  type NotificationList,
+  type Page,
+  type RealtimeEvent,
+  type StatusCounts,
+  type Subtask,
+  type TagSummary,
+  type Task,
+  type TaskQuery,
+  type UpdateSubtaskData,
+  type UpdateReminderSettingsData,
+  type UpdateScope,
+  type UpdateTagData,
+  type UpdateTaskData,
+  type UploadOptions,
+  type UserQuery,
+} from './api';
+import { enqueue, hasPendingChanges, isTempId, nextTempId } from './offline/outbox';
+import { fetchAllPages } from './export';
+
+// Shared cache in front of taskAPI/adminAPI. Every page reads through these
+// hooks, so identical requests are de-duplicated, cached data renders
+// immediately while it revalidates, and a mutation on one page shows up on
+// every other page that has the same task cached. Task writes that can't
+// reach the server go to the offline outbox (lib/offline) and are replayed
+// later.
+
+export const taskKeys = {
+  all: ['tasks'] as const,
+  lists: () => [...taskKeys.all, 'list'] as const,
+  list: (query: TaskQuery) => [...taskKeys.lists(), query] as const,
+  everything: (query: TaskQuery) => [...taskKeys.list(query), 'all'] as const,
+  detail: (id: number) => [...taskKeys.all, 'detail', id] as const,
+  insights: (query?: AnalyticsQuery) => [...taskKeys.all, 'insights', ...(query ? [query] : [])] as const,
+  subtasks: (id: number) => [...taskKeys.detail(id), 'subtasks'] as const,
+  comments: (id: number) => [...taskKeys.detail(id), 'comments'] as const,
+  attachments: (id: number) => [...taskKeys.detail(id), 'attachments'] as const,
+  activity: (id: number) => [...taskKeys.detail(id), 'activity'] as const,
+  series: (id: number) => [...taskKeys.detail(id), 'series'] as const,
+};
+
+export const tagKeys = {
+  all: ['tags'] as const,
+};
+
+export const userKeys = {
+  search: (search: string) => ['users', 'search', search] as const,
+};
+
+export const notificationKeys = {
+  all: ['notifications'] as const,
+  list: () => [...notificationKeys.all, 'list'] as const,
+  settings: () => [...notificationKeys.all, 'settings'] as const,
+};
+
+export const adminKeys = {
+  all: ['admin'] as const,
+  users: (query?: UserQuery) => [...adminKeys.all, 'users', ...(query ? [query] : [])] as const,
+  tasks: (query?: TaskQuery) => [...adminKeys.all, 'tasks', ...(query ? [query] : [])] as const,
+  analytics: (query?: AnalyticsQuery) => [...adminKeys.all, 'analytics', ...(query ? [query] : [])] as const,
+};
+
+type TaskListPage = Page<Task> & { status_counts?: StatusCounts };
+type TaskUpdater = <T extends Task>(task: T) => T | null;
+type Snapshot = [QueryKey, unknown][];
+
+function updateListPage<P extends TaskListPage>(page: P, id: number, update: TaskUpdater): P {
+  const index = page.items.findIndex((task) => task.id === id);
+  if (index === -1) return page;
+
+  const previous = page.items[index];
+  const next = update(previous);
+  const items = next
+    ? page.items.map((task, i) => (i === index ? next : task))
+    : page.items.filter((_, i) => i !== index);
+
+  let status_counts = page.status_counts;
+  if (status_counts && next?.status !== previous.status) {
+    status_counts = { ...status_counts, [previous.status]: status_counts[previous.status] - 1 };
+    if (next) {
+      status_counts[next.status] += 1;
+    }
+  }
+  return { ...page, items, total: next ? page.total : page.total - 1, status_counts };
+}
+
+/** Applies `update` to task `id` in every cached list and its detail entry; returning null removes it. */
+export function updateCachedTask(queryClient: QueryClient, id: number, update: TaskUpdater) {
+  for (const key of [taskKeys.lists(), adminKeys.tasks()]) {
+    queryClient.setQueriesData<TaskListPage>({ queryKey: key }, (page) => page && updateListPage(page, id, update));
+  }
+  const detail = queryClient.getQueryData<Task>(taskKeys.detail(id));
+  if (detail) {
+    const next = update(detail);
+    if (next) {
+      queryClient.setQueryData(taskKeys.detail(id), next);
+    } else {
+      queryClient.removeQueries({ queryKey: taskKeys.detail(id) });
+    }
+  }
+}
+
+async function snapshotTasks(queryClient: QueryClient): Promise<Snapshot> {
+  await queryClient.cancelQueries({ queryKey: taskKeys.all });
+  await queryClient.cancelQueries({ queryKey: adminKeys.tasks() });
+  return [
+    ...queryClient.getQueriesData({ queryKey: taskKeys.all }),
+    ...queryClient.getQueriesData({ queryKey: adminKeys.tasks() }),
+  ];
+}
+
+function restore(queryClient: QueryClient, snapshot: Snapshot | undefined) {
+  for (const [key, data] of snapshot ?? []) {
+    queryClient.setQueryData(key, data);
+  }
+}
+
+// Lists are refetched after every write because a change can move a task
+// in or out of a filtered page. Tag usage counts can change with it.
+export function invalidateTaskLists(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: taskKeys.lists() });
+  queryClient.invalidateQueries({ queryKey: adminKeys.tasks() });
+  queryClient.invalidateQueries({ queryKey: taskKeys.insights() });
+  queryClient.invalidateQueries({ queryKey: adminKeys.analytics() });
+  queryClient.invalidateQueries({ queryKey: tagKeys.all });
+}
+
+// A series is cached under each of its tasks that showed it, so a change to
+// any task of a series refetches all of them.
+function invalidateSeries(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: taskKeys.all, predicate: (query) => query.queryKey[3] === 'series' });
+}
+
+/** Adds a task created offline to the first page of every cached list. */
+function insertCachedTask(queryClient: QueryClient, task: Task) {
+  queryClient.setQueriesData<TaskListPage>({ queryKey: taskKeys.lists() }, (page) => {
+    if (!page || page.page !== 1) return page;
+    const status_counts = page.status_counts && {
+      ...page.status_counts,
+      [task.status]: page.status_counts[task.status] + 1,
+    };
+    return { ...page, items: [task, ...page.items], total: page.total + 1, status_counts };
+  });
+}
+
+function findCachedTask(queryClient: QueryClient, id: number) {
+  const detail = queryClient.getQueryState<Task>(taskKeys.detail(id));
+  if (detail?.data) {
+    return { task: detail.data, updatedAt: detail.dataUpdatedAt };
+  }
+  for (const [key, page] of queryClient.getQueriesData<TaskListPage>({ queryKey: taskKeys.lists() })) {
+    const task = page?.items.find((t) => t.id === id);
+    if (task) {
+      return { task, updatedAt: queryClient.getQueryState(key)?.dataUpdatedAt };
+    }
+  }
+  return undefined;
+}
+
+/** Merges a change pushed over the realtime channel (lib/realtime.ts) into the cache. */
+export function applyRealtimeEvent(queryClient: QueryClient, event: RealtimeEvent) {
+  switch (event.type) {
+    case 'task.created':
+      queryClient.setQueryData(taskKeys.detail(event.task.id), event.task);
+      if (event.task.series_id !== null) invalidateSeries(queryClient);
+      break;
+    case 'task.updated': {
+      const updated = event.task;
+      updateCachedTask(queryClient, updated.id, (task) => ({ ...task, ...updated }));
+      queryClient.invalidateQueries({ queryKey: taskKeys.subtasks(updated.id) });
+      queryClient.invalidateQueries({ queryKey: taskKeys.comments(updated.id) });
+      queryClient.invalidateQueries({ queryKey: taskKeys.attachments(updated.id) });
+      queryClient.invalidateQueries({ queryKey: taskKeys.activity(updated.id) });
+      if (updated.series_id !== null) invalidateSeries(queryClient);
+      break;
+    }
+    case 'task.deleted':
+      updateCachedTask(queryClient, event.task_id, () => null);
+      queryClient.invalidateQueries({ queryKey: taskKeys.activity(event.task_id) });
+      // The task's notifications go with it.
+      queryClient.invalidateQueries({ queryKey: notificationKeys.list() });
+      break;
+    case 'user.promoted':
+    case 'user.updated':
+      queryClient.invalidateQueries({ queryKey: adminKeys.users() });
+      return;
+    case 'user.deleted':
+      // Their tasks were deleted or reassigned along with them.
+      queryClient.invalidateQueries({ queryKey: adminKeys.all });
+      break;
+    case 'notification.created':
+      queryClient.invalidateQueries({ queryKey: notificationKeys.list() });
+      return;
+  }
+  // The change may move the task into or out of any filtered page.
+  invalidateTaskLists(queryClient);
+}
+
+/**
+ * `changes` as they will look on the cached task. Writes name their tags, so
+ * ids and colors come from the cached tag list; tags the server hasn't
+ * created yet show up gray until it answers.
+ */
+function cachedChanges(queryClient: QueryClient, { tags, ...changes }: UpdateTaskData): Partial<Task> {
+  if (!tags) return changes;
+  const known = queryClient.getQueryData<TagSummary[]>(tagKeys.all) ?? [];
+  return {
+    ...changes,
+    tags: tags.map((name, i) => {
+      const tag = known.find((t) => t.name.toLowerCase() === name.toLowerCase());
+      return tag ? { id: tag.id, name: tag.name, color: tag.color } : { id: -(i + 1), name, color: 'gray' };
+    }),
+  };
+}
+
+/** The fields `keys` names, as `task` currently has them. */
+function pickFields(task: Task | undefined, keys: string[]): Partial<Task> {
+  if (!task) return {};
+  return Object.fromEntries(keys.map((key) => [key, task[key as keyof Task]]));
+}
+
+const EDITABLE_FIELDS = ['title', 'description', 'status', 'priority', 'due_date', 'tags', 'assignee_id'];
+
+// What a task write resolves to when it went to the outbox instead of the
+// server.
+export const QUEUED = 'queued' as const;
+
+/**
+ * Sends a task write, or reports it as QUEUED when it can't go out yet:
+ * while offline, when the request fails for lack of a connection, and while
+ * earlier writes are still queued, so that the server sees them in order.
+ */
+async function sendOrQueue<T>(send: () => Promise<T>, taskId?: number): Promise<T | typeof QUEUED> {
+  if (!navigator.onLine || hasPendingChanges() || (taskId !== undefined && isTempId(taskId))) {
+    return QUEUED;
+  }
+  try {
+    return await send();
+  } catch (err) {
+    if (isNetworkError(err)) return QUEUED;
+    throw err;
+  }
+}
+
+export function useTasks(query: TaskQuery, enabled = true) {
+  return useQuery({
+    queryKey: taskKeys.list(query),
+    queryFn: () => taskAPI.getAll(query),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+}
+
+/**
+ * Every task matching `query`, read page by page, for views that lay them all
+ * out at once. Cached as a single page among the lists, so task updates
+ * apply to it like to any other list.
+ */
+export function useAllTasks(query: TaskQuery, enabled = true) {
+  return useQuery({
+    queryKey: taskKeys.everything(query),
+    queryFn: async (): Promise<TaskListPage> => {
+      let status_counts: StatusCounts | undefined;
+      const items = await fetchAllPages(async (page, page_size) => {
+        const result = await taskAPI.getAll({ ...query, page, page_size });
+        status_counts ??= result.status_counts;
+        return result;
+      });
+      return { items, total: items.length, page: 1, page_size: items.length, status_counts };
+    },
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+}
+
+export function useInsights(query: AnalyticsQuery) {
+  return useQuery({
+    queryKey: taskKeys.insights(query),
+    queryFn: () => taskAPI.getInsights(query),
+    placeholderData: keepPreviousData,
+  });
+}
+
+// Exports read every page of a listing straight from the API rather than
+// filling the cache with pages nobody looks at.
+export function loadAllTasks(query: TaskQuery) {
+  return fetchAllPages((page, page_size) => taskAPI.getAll({ ...query, page, page_size }));
+}
+
+export function loadAllAdminTasks(query: TaskQuery) {
+  return fetchAllPages((page, page_size) => adminAPI.getAllTasks({ ...query, page, page_size }));
+}
+
+/** A single task, seeded from any list that already holds it so navigation renders instantly. */
+export function useTask(id: number) {
+  const queryClient = useQueryClient();
+  return useQuery({
+    queryKey: taskKeys.detail(id),
+    queryFn: () => taskAPI.getById(id),
+    // Tasks created offline have no server copy until the outbox syncs.
+    enabled: !isTempId(id),
+    initialData: () => findCachedTask(queryClient, id)?.task,
+    initialDataUpdatedAt: () => findCachedTask(queryClient, id)?.updatedAt,
+  });
+}
+
+export function useSubtasks(taskId: number) {
+  return useQuery({
+    queryKey: taskKeys.subtasks(taskId),
+    queryFn: () => subtaskAPI.getAll(taskId),
+    enabled: !isTempId(taskId),
+  });
+}
+
+export function useComments(taskId: number) {
+  return useQuery({
+    queryKey: taskKeys.comments(taskId),
+    queryFn: () => commentAPI.getAll(taskId),
+    enabled: !isTempId(taskId),
+  });
+}
+
+export function useAttachments(taskId: number) {
+  return useQuery({
+    queryKey: taskKeys.attachments(taskId),
+    queryFn: () => attachmentAPI.getAll(taskId),
+    enabled: !isTempId(taskId),
+  });
+}
+
+export function useTaskSeries(taskId: number, enabled: boolean) {
+  return useQuery({
+    queryKey: taskKeys.series(taskId),
+    queryFn: () => taskAPI.getSeries(taskId),
+    enabled: enabled && !isTempId(taskId),
+  });
+}
+
+export function useTaskActivity(taskId: number) {
+  return useQuery({
+    queryKey: taskKeys.activity(taskId),
+    queryFn: () => taskAPI.getActivity(taskId),
+    enabled: !isTempId(taskId),
+  });
+}
+
+export function useTags() {
+  return useQuery({
+    queryKey: tagKeys.all,
+    queryFn: tagAPI.getAll,
+  });
+}
+
+/** Candidates for assigning a task to, by name or email. */
+export function useUserSearch(search: string) {
+  return useQuery({
+    queryKey: userKeys.search(search),
+    queryFn: () => userAPI.search(search),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useNotifications() {
+  return useQuery({
+    queryKey: notificationKeys.list(),
+    queryFn: notificationAPI.getAll,
+  });
+}
+
+export function useReminderSettings() {
+  return useQuery({
+    queryKey: notificationKeys.settings(),
+    queryFn: notificationAPI.getSettings,
+  });
+}
+
+export function useAdminUsers(query: UserQuery) {
+  return useQuery({
+    queryKey: adminKeys.users(query),
+    queryFn: () => adminAPI.getAllUsers(query),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useAdminTasks(query: TaskQuery) {
+  return useQuery({
+    queryKey: adminKeys.tasks(query),
+    queryFn: () => adminAPI.getAllTasks(query),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useAdminAnalytics(query: AnalyticsQuery) {
+  return useQuery({
+    queryKey: adminKeys.analytics(query),
+    queryFn: () => adminAPI.getAnalytics(query),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useCreateTask() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: CreateTaskData): Promise<Task> => {
+      const sent = await sendOrQueue(() => taskAPI.create(data));
+      if (sent !== QUEUED) return sent;
+
+      const taskId = nextTempId();
+      const entry = await enqueue({ kind: 'create', taskId, data });
+      // Parsed so every field the server would fill in gets its default.
+      return taskSchema.parse({
+        ...data,
+        ...cachedChanges(queryClient, data),
+        id: taskId,
+        user_id: entry?.userId ?? 0,
+        status: 'pending',
+        created_at: new Date().toISOString(),
+      });
+    },
+    onSuccess: (task) => {
+      queryClient.setQueryData(taskKeys.detail(task.id), task);
+      if (isTempId(task.id)) {
+        insertCachedTask(queryClient, task);
+      } else {
+        invalidateTaskLists(queryClient);
+      }
+    },
+  });
+}
+
+export function useUpdateTask() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, changes, scope }: { id: number; changes: UpdateTaskData; scope?: UpdateScope }) =>
+      sendOrQueue(() => taskAPI.update(id, changes, scope), id),
+    onMutate: async ({ id, changes }) => {
+      const snapshot = await snapshotTasks(queryClient);
+      const base = pickFields(findCachedTask(queryClient, id)?.task, Object.keys(changes));
+      updateCachedTask(queryClient, id, (task) => ({ ...task, ...cachedChanges(queryClient, changes) }));
+      return { snapshot, base };
+    },
+    onError: (_err, _variables, context) => restore(queryClient, context?.snapshot),
+    onSuccess: async (result, { id, changes, scope }, context) => {
+      if (result === QUEUED) {
+        await enqueue({ kind: 'update', taskId: id, changes, base: context.base, scope });
+      } else {
+        updateCachedTask(queryClient, result.id, (task) => ({ ...task, ...result }));
+      }
+    },
+    // A queued write keeps its optimistic update; refetching now would undo it.
+    onSettled: (result, _err, { id }) => {
+      if (result === QUEUED) return;
+      invalidateTaskLists(queryClient);
+      queryClient.invalidateQueries({ queryKey: taskKeys.activity(id) });
+      // Completing an occurrence creates the next one; future-scoped edits
+      // change the rest of the series.
+      invalidateSeries(queryClient);
+    },
+  });
+}
+
+// Bulk actions go straight to the server, so they need a connection; each
+// task that went through is merged into the cache, or dropped after a delete.
+export function useBulkTaskAction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ target, action }: { target: BulkTarget; action: BulkAction }) => taskAPI.bulk(target, action),
+    onSuccess: ({ results }) => {
+      for (const { id, ok, task: updated } of results) {
+        if (!ok) continue;
+        updateCachedTask(queryClient, id, (task) => (updated ? { ...task, ...updated } : null));
+      }
+    },
+    onSettled: () => {
+      invalidateTaskLists(queryClient);
+      invalidateSeries(queryClient);
+    },
+  });
+}
+
+/** One imported task's outcome, in the order the tasks were given. */
+export type ImportResult = { ok: true; task: Task } | { ok: false; error: string };
+
+// Imports create tasks one at a time straight on the server, so they need a
+// connection; each task succeeds or fails on its own and `onProgress` hears
+// how many are done.
+export function useImportTasks() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ tasks, onProgress }: { tasks: CreateTaskData[]; onProgress: (done: number) => void }) => {
+      const results: ImportResult[] = [];
+      for (const data of tasks) {
+        try {
+          results.push({ ok: true, task: await taskAPI.create(data) });
+        } catch (err: unknown) {
+          results.push({ ok: false, error: getErrorMessage(err, 'Failed to create task') });
+        }
+        onProgress(results.length);
+      }
+      return results;
+    },
+    onSettled: () => invalidateTaskLists(queryClient),
+  });
+}
+
+// Only the owner's own deletes go through the outbox; the admin console
+// needs a connection.
+function useRemoveTask(remove: (id: number) => Promise<void>, { offline = false } = {}) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => (offline ? sendOrQueue(() => remove(id), id) : remove(id)),
+    onMutate: async (id: number) => {
+      const snapshot = await snapshotTasks(queryClient);
+      const base = pickFields(findCachedTask(queryClient, id)?.task, EDITABLE_FIELDS);
+      updateCachedTask(queryClient, id, () => null);
+      return { snapshot, base };
+    },
+    onError: (_err, _id, context) => restore(queryClient, context?.snapshot),
+    onSuccess: async (result, id, context) => {
+      if (result === QUEUED) {
+        await enqueue({ kind: 'delete', taskId: id, base: context.base });
+      }
+    },
+    onSettled: (result) => result !== QUEUED && invalidateTaskLists(queryClient),
+  });
+}
+
+export function useDeleteTask() {
+  return useRemoveTask(taskAPI.delete, { offline: true });
+}
+
+export function useAdminDeleteTask() {
+  return useRemoveTask(adminAPI.deleteTask);
+}
+
+export function useAdminAssignTask() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, assigneeId }: { id: number; assigneeId: number | null }) => adminAPI.assignTask(id, assigneeId),
+    onSuccess: (task) => {
+      updateCachedTask(queryClient, task.id, (cached) => ({ ...cached, ...task }));
+      queryClient.invalidateQueries({ queryKey: taskKeys.activity(task.id) });
+    },
+    // Assigned-to-me listings gain or lose the task.
+    onSettled: () => invalidateTaskLists(queryClient),
+  });
+}
+
+// Writes to a task's subtasks, comments or attachments apply `optimistic` to the cached
+// list under `key` right away, and afterwards refetch the parent task too:
+// its counts change and, with `auto_complete`, possibly its status.
+function useTaskChildMutation<T, V, R>(
+  taskId: number,
+  key: QueryKey,
+  mutationFn: (variables: V) => Promise<R>,
+  optimistic?: (items: T[], variables: V) => T[]
+) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onMutate: async (variables: V) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<T[]>(key);
+      if (previous && optimistic) {
+        queryClient.setQueryData(key, optimistic(previous, variables));
+      }
+      return { previous };
+    },
+    onError: (_err, _variables, context) => {
+      if (context?.previous) queryClient.setQueryData(key, context.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: taskKeys.detail(taskId) });
+      invalidateTaskLists(queryClient);
+    },
+  });
+}
+
+export function useCreateSubtask(taskId: number) {
+  return useTaskChildMutation<Subtask, string, Subtask>(taskId, taskKeys.subtasks(taskId), (title) =>
+    subtaskAPI.create(taskId, title)
+  );
+}
+
+export function useUpdateSubtask(taskId: number) {
+  return useTaskChildMutation(
+    taskId,
+    taskKeys.subtasks(taskId),
+    ({ id, changes }: { id: number; changes: UpdateSubtaskData }) => subtaskAPI.update(taskId, id, changes),
+    (subtasks: Subtask[], { id, changes }) =>
+      subtasks.map((subtask) => (subtask.id === id ? { ...subtask, ...changes } : subtask))
+  );
+}
+
+export function useDeleteSubtask(taskId: number) {
+  return useTaskChildMutation(
+    taskId,
+    taskKeys.subtasks(taskId),
+    (id: number) => subtaskAPI.delete(taskId, id),
+    (subtasks: Subtask[], id) => subtasks.filter((subtask) => subtask.id !== id)
+  );
+}
+
+export function useReorderSubtasks(taskId: number) {
+  return useTaskChildMutation(
+    taskId,
+    taskKeys.subtasks(taskId),
+    (ids: number[]) => subtaskAPI.reorder(taskId, ids),
+    (subtasks: Subtask[], ids) =>
+      ids.flatMap((id, position) => {
+        const subtask = subtasks.find((s) => s.id === id);
+        return subtask ? [{ ...subtask, position }] : [];
+      })
+  );
+}
+
+export function useCreateComment(taskId: number) {
+  return useTaskChildMutation<Comment, string, Comment>(taskId, taskKeys.comments(taskId), (body) =>
+    commentAPI.create(taskId, body)
+  );
+}
+
+export function useUpdateComment(taskId: number) {
+  return useTaskChildMutation(
+    taskId,
+    taskKeys.comments(taskId),
+    ({ id, body }: { id: number; body: string }) => commentAPI.update(taskId, id, body),
+    (comments: Comment[], { id, body }) =>
+      comments.map((comment) => (comment.id === id ? { ...comment, body } : comment))
+  );
+}
+
+export function useDeleteComment(taskId: number) {
+  return useTaskChildMutation(
+    taskId,
+    taskKeys.comments(taskId),
+    (id: number) => commentAPI.delete(taskId, id),
+    (comments: Comment[], id) => comments.filter((comment) => comment.id !== id)
+  );
+}
+
+// Uploads need a connection; several can run at once, each with its own
+// progress and signal.
+export function useUploadAttachment(taskId: number) {
+  return useTaskChildMutation<Attachment, { file: File } & UploadOptions, Attachment>(
+    taskId,
+    taskKeys.attachments(taskId),
+    ({ file, ...options }) => attachmentAPI.upload(taskId, file, options)
+  );
+}
+
+export function useDeleteAttachment(taskId: number) {
+  return useTaskChildMutation(
+    taskId,
+    taskKeys.attachments(taskId),
+    (id: number) => attachmentAPI.delete(taskId, id),
+    (attachments: Attachment[], id) => attachments.filter((attachment) => attachment.id !== id)
+  );
+}
+
+// Account changes show in the users table right away; `update` returns the
+// row as it will look, or null when the user is gone. `invalidate` is what
+// gets refetched afterwards.
+function useAdminUserMutation<V>(
+  mutationFn: (variables: V) => Promise<unknown>,
+  userId: (variables: V) => number,
+  update: (user: AdminUser, variables: V) => AdminUser | null,
+  invalidate: QueryKey = adminKeys.users()
+) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onMutate: async (variables: V) => {
+      await queryClient.cancelQueries({ queryKey: adminKeys.users() });
+      const snapshot = queryClient.getQueriesData({ queryKey: adminKeys.users() });
+      const id = userId(variables);
+      queryClient.setQueriesData<Page<AdminUser>>({ queryKey: adminKeys.users() }, (page) =>
+        page && {
+          ...page,
+          items: page.items.flatMap((u) => (u.id === id ? (update(u, variables) ?? []) : [u])),
+        }
+      );
+      return { snapshot };
+    },
+    onError: (_err, _variables, context) => restore(queryClient, context?.snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: invalidate }),
+  });
+}
+
+const byId = (userId: number) => userId;
+
+export function usePromoteUser() {
+  return useAdminUserMutation(adminAPI.promoteUser, byId, (u) => ({ ...u, role: 'admin' }));
+}
+
+export function useDemoteUser() {
+  return useAdminUserMutation(adminAPI.demoteUser, byId, (u) => ({ ...u, role: 'user' }));
+}
+
+export function useSetUserActive() {
+  return useAdminUserMutation(
+    ({ id, active }: { id: number; active: boolean }) =>
+      active ? adminAPI.reactivateUser(id) : adminAPI.deactivateUser(id),
+    ({ id }) => id,
+    (u, { active }) => ({ ...u, active })
+  );
+}
+
+export function useForcePasswordReset() {
+  return useAdminUserMutation(adminAPI.forcePasswordReset, byId, (u) => ({ ...u, password_reset_required: true }));
+}
+
+// Their tasks are deleted or change owner too.
+export function useDeleteUser() {
+  return useAdminUserMutation(
+    ({ id, tasks }: { id: number; tasks: DeletedUserTasks }) => adminAPI.deleteUser(id, tasks),
+    ({ id }) => id,
+    () => null,
+    adminKeys.all
+  );
+}
+
+// Renaming, merging or deleting a tag changes it on every task that has it.
+function useTagMutation<V>(mutationFn: (variables: V) => Promise<unknown>) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+      queryClient.invalidateQueries({ queryKey: taskKeys.all });
+      queryClient.invalidateQueries({ queryKey: adminKeys.tasks() });
+    },
+  });
+}
+
+export function useUpdateTag() {
+  return useTagMutation(({ id, changes }: { id: number; changes: UpdateTagData }) => adminAPI.updateTag(id, changes));
+}
+
+export function useMergeTag() {
+  return useTagMutation(({ id, into }: { id: number; into: number }) => adminAPI.mergeTag(id, into));
+}
+
+export function useDeleteTag() {
+  return useTagMutation(adminAPI.deleteTag);
+}
+
+// Read state and snoozes show in the notification center right away; the
+// list is refetched afterwards for the server's unread count.
+function useNotificationMutation<V>(
+  mutationFn: (variables: V) => Promise<unknown>,
+  optimistic: (list: NotificationList, variables: V) => NotificationList
+) {
+  const queryClient = useQueryClient();
+  const key = notificationKeys.list();
+  return useMutation({
+    mutationFn,
+    onMutate: async (variables: V) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<NotificationList>(key);
+      if (previous) {
+        queryClient.setQueryData(key, optimistic(previous, variables));
+      }
+      return { previous };
+    },
+    onError: (_err, _variables, context) => {
+      if (context?.previous) queryClient.setQueryData(key, context.previous);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: key }),
+  });
+}
+
+function countUnread(list: NotificationList): NotificationList {
+  return { ...list, unread_count: list.items.filter((item) => !item.read && !item.snoozed_until).length };
+}
+
+export function useMarkNotificationRead() {
+  return useNotificationMutation(
+    ({ id, read }: { id: number; read: boolean }) => notificationAPI.markRead(id, read),
+    (list, { id, read }) =>
+      countUnread({ ...list, items: list.items.map((item) => (item.id === id ? { ...item, read } : item)) })
+  );
+}
+
+export function useMarkAllNotificationsRead() {
+  return useNotificationMutation(
+    () => notificationAPI.markAllRead(),
+    (list) => countUnread({ ...list, items: list.items.map((item) => ({ ...item, read: true })) })
+  );
+}
+
+export function useSnoozeNotification() {
+  return useNotificationMutation(
+    ({ id, minutes }: { id: number; minutes: number }) => notificationAPI.snooze(id, minutes),
+    (list, { id, minutes }) =>
+      countUnread({
+        ...list,
+        items: list.items.map((item) =>
+          item.id === id
+            ? { ...item, read: true, snoozed_until: new Date(Date.now() + minutes * 60 * 1000).toISOString() }
+            : item
+        ),
+      })
+  );
+}
+
+export function useUpdateReminderSettings() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: UpdateReminderSettingsData) => notificationAPI.updateSettings(data),
+    onSuccess: (settings) => queryClient.setQueryData(notificationKeys.settings(), settings),
+  });
+}
@@ -0,0 +1,127 @@
+import { realtimeEventSchema, refreshSession, type RealtimeEvent } from './api';
+
+// Client for the backend's server-sent event stream, read through the
+// /api/events route like any other request. fetch is used instead of
+// EventSource so a 401 can be told apart from a dropped connection and the
+// reconnect delay stays under our control.
+
+const EVENTS_URL = '/api/events';
+const INITIAL_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30 * 1000;
+
+export type RealtimeStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+interface RealtimeOptions {
+  onEvent: (event: RealtimeEvent) => void;
+  onStatusChange?: (status: RealtimeStatus) => void;
+  /** Runs each time the stream is re-established, to fetch whatever was missed in between. */
+  onReconnect?: () => void;
+}
+
+async function readEvents(body: ReadableStream<Uint8Array>, onEvent: (event: RealtimeEvent) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    const frames = buffer.split(/\r?\n\r?\n/);
+    buffer = frames.pop() ?? '';
+    for (const frame of frames) {
+      const data = frame
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (!data) continue;
+      // Events this client doesn't understand are skipped, not fatal.
+      try {
+        const result = realtimeEventSchema.safeParse(JSON.parse(data));
+        if (result.success) onEvent(result.data);
+      } catch {
+        continue;
+      }
+    }
+  }
+}
+
+/**
+ * Opens the event stream and keeps it open, reconnecting with exponential
+ * backoff (and right away when the browser comes back online). Returns a
+ * function that closes it for good.
+ */
+export function connectRealtime({ onEvent, onStatusChange, onReconnect }: RealtimeOptions) {
+  let stopped = false;
+  let connected = false;
+  let refreshed = false;
+  let attempt = 0;
+  let controller: AbortController | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const setStatus = (status: RealtimeStatus) => onStatusChange?.(status);
+
+  const stop = () => {
+    stopped = true;
+    clearTimeout(retryTimer);
+    controller?.abort();
+    window.removeEventListener('online', reconnectNow);
+    setStatus('closed');
+  };
+
+  const connect = async (): Promise<void> => {
+    clearTimeout(retryTimer);
+    const attemptController = new AbortController();
+    controller = attemptController;
+    setStatus(connected ? 'reconnecting' : 'connecting');
+    try {
+      const response = await fetch(EVENTS_URL, {
+        headers: { Accept: 'text/event-stream' },
+        signal: attemptController.signal,
+        cache: 'no-store',
+      });
+      // An expired access token: renew it once and try again. If that fails
+      // the user is already on their way to the login page.
+      if (response.status === 401 && !refreshed) {
+        refreshed = true;
+        try {
+          await refreshSession();
+        } catch {
+          return stop();
+        }
+        return connect();
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`Event stream failed with status ${response.status}`);
+      }
+      if (connected) onReconnect?.();
+      connected = true;
+      refreshed = false;
+      attempt = 0;
+      setStatus('open');
+      await readEvents(response.body, onEvent);
+    } catch {
+      // Dropped connections fall through to the retry below.
+    }
+    // Superseded by `stop` or `reconnectNow`, which take it from here.
+    if (stopped || attemptController.signal.aborted) return;
+
+    const delay = Math.min(MAX_RETRY_DELAY, INITIAL_RETRY_DELAY * 2 ** attempt);
+    attempt += 1;
+    setStatus('reconnecting');
+    // Jitter so every open tab doesn't reconnect in the same instant.
+    retryTimer = setTimeout(connect, delay / 2 + Math.random() * (delay / 2));
+  };
+
+  const reconnectNow = () => {
+    if (stopped) return;
+    controller?.abort();
+    attempt = 0;
+    connect();
+  };
+
+  window.addEventListener('online', reconnectNow);
+  connect();
+
+  return stop;
+}
@@ -0,0 +1,116 @@
+import type { Recurrence } from './schemas';
+
+// Date arithmetic for recurring tasks, shared by the UI (series previews and
+// summaries) and the mock backend (generating the next occurrence). Dates
+// are `YYYY-MM-DD` keys handled in UTC so time zones can't shift a day.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function parseKey(key: string) {
+  const [year, month, day] = key.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function toKey(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function startOfWeek(date: Date) {
+  return date.getTime() - date.getUTCDay() * DAY_MS;
+}
+
+/** Today's date key, in local time. */
+export function todayKey() {
+  const now = new Date();
+  return toKey(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+}
+
+/** A date key for display, e.g. "Mar 5, 2026", as the same day in every time zone. */
+export function formatDateKey(key: string) {
+  return parseKey(key).toLocaleDateString('en-US', { timeZone: 'UTC', year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+/** `key` moved by `days`, which may be negative. */
+export function addDays(key: string, days: number) {
+  return toKey(new Date(parseKey(key).getTime() + days * DAY_MS));
+}
+
+/** The first date after `from` that `rule` falls on, ignoring its end conditions. */
+export function nextDate(rule: Recurrence, from: string) {
+  const start = parseKey(from);
+
+  if (rule.frequency === 'daily') {
+    return toKey(new Date(start.getTime() + rule.interval * DAY_MS));
+  }
+
+  if (rule.frequency === 'weekly') {
+    const weekdays = rule.weekdays.length > 0 ? rule.weekdays : [start.getUTCDay()];
+    // Only weeks that are a multiple of `interval` after `from`'s week count.
+    for (let offset = 1; offset <= 7 * rule.interval + 7; offset++) {
+      const date = new Date(start.getTime() + offset * DAY_MS);
+      const weeks = Math.round((startOfWeek(date) - startOfWeek(start)) / (7 * DAY_MS));
+      if (weekdays.includes(date.getUTCDay()) && weeks % rule.interval === 0) {
+        return toKey(date);
+      }
+    }
+    return toKey(new Date(start.getTime() + 7 * rule.interval * DAY_MS));
+  }
+
+  const day = rule.month_day ?? start.getUTCDate();
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  // Still ahead in `from`'s own month, e.g. a series moved to a later day.
+  const sameMonth = Math.min(day, daysInMonth(year, month));
+  if (sameMonth > start.getUTCDate()) {
+    return toKey(new Date(Date.UTC(year, month, sameMonth)));
+  }
+  const target = new Date(Date.UTC(year, month + rule.interval, 1));
+  const clamped = Math.min(day, daysInMonth(target.getUTCFullYear(), target.getUTCMonth()));
+  return toKey(new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), clamped)));
+}
+
+/** Whether occurrence number `occurrence`, due on `date`, is still within the series' end conditions. */
+export function withinEnd(rule: Recurrence, date: string, occurrence: number) {
+  return (!rule.until || date <= rule.until) && (rule.count === null || occurrence <= rule.count);
+}
+
+/**
+ * The due dates of up to `limit` occurrences after occurrence number
+ * `occurrence`, due on `from`, stopping where the series ends.
+ */
+export function upcomingDates(rule: Recurrence, from: string, occurrence: number, limit: number) {
+  const dates: string[] = [];
+  let date = from;
+  for (let next = occurrence + 1; dates.length < limit; next++) {
+    date = nextDate(rule, date);
+    if (!withinEnd(rule, date, next)) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+/** A short summary, e.g. "Every 2 weeks on Mon, Thu, 10 times". */
+export function describeRecurrence(rule: Recurrence) {
+  const units = { daily: 'day', weekly: 'week', monthly: 'month' } as const;
+  const unit = units[rule.frequency];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.frequency === 'weekly' && rule.weekdays.length > 0) {
+    text += ` on ${[...rule.weekdays].sort((a, b) => a - b).map((day) => WEEKDAY_LABELS[day]).join(', ')}`;
+  } else if (rule.frequency === 'monthly' && rule.month_day !== null) {
+    text += ` on day ${rule.month_day}`;
+  }
+
+  if (rule.until) {
+    text += `, until ${formatDateKey(rule.until)}`;
+  }
+  if (rule.count !== null) {
+    text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  }
+  return text;
+}
@@ -0,0 +1,96 @@
+import type { Reminder } from './schemas';
+
+// When due-date reminders go off, shared by the UI (labels) and the mock
+// backend (delivering them). A reminder's `time` is wall-clock time in the
+// user's time zone, so turning it into an instant needs that zone's offset.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The `days_before` choices the reminder editor offers. */
+export const REMINDER_DAYS = [0, 1, 2, 7];
+
+export const DEFAULT_REMINDER_TIME = '09:00';
+export const MAX_REMINDERS = 5;
+
+/** Whether `timeZone` is an IANA zone name this runtime knows. */
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// How far `timeZone`'s wall clock is ahead of UTC at `instant`.
+function zoneOffset(instant: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - instant;
+}
+
+/** The instant (ms since epoch) that `time` on the date `days` after `dateKey` is in `timeZone`. */
+function zonedInstant(dateKey: string, days: number, time: string, timeZone: string) {
+  const [year, month, day] = dateKey.slice(0, 10).split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wall = Date.UTC(year, month - 1, day + days, hours, minutes);
+  // Guessing with the offset at the wall time itself is off by the DST shift
+  // around a transition; a second pass corrects for it.
+  const guess = wall - zoneOffset(wall, timeZone);
+  return wall - zoneOffset(guess, timeZone);
+}
+
+/** When `reminder` goes off for a task due on `dueDate`. */
+export function reminderTime(reminder: Reminder, dueDate: string, timeZone: string) {
+  return zonedInstant(dueDate, -reminder.days_before, reminder.time, timeZone);
+}
+
+/** The end of `dueDate` in `timeZone`; reminders for a task that is overdue by then don't go off. */
+export function dueDateEnd(dueDate: string, timeZone: string) {
+  return zonedInstant(dueDate, 1, '00:00', timeZone);
+}
+
+/** E.g. "1 day before at 09:00", "On the due date at 09:00". */
+export function describeReminder(reminder: Reminder) {
+  if (reminder.days_before === 0) {
+    return `On the due date at ${reminder.time}`;
+  }
+  if (reminder.days_before % 7 === 0) {
+    const weeks = reminder.days_before / 7;
+    return `${weeks} week${weeks === 1 ? '' : 's'} before at ${reminder.time}`;
+  }
+  return `${reminder.days_before} day${reminder.days_before === 1 ? '' : 's'} before at ${reminder.time}`;
+}
+
+/** "Due today", "Due tomorrow", "Due in 3 days" or "Overdue", relative to `now`'s local date. */
+export function describeDue(dueDate: string, now = new Date()) {
+  const [year, month, day] = dueDate.slice(0, 10).split('-').map(Number);
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  const days = Math.round((Date.UTC(year, month - 1, day) - today) / DAY_MS);
+  if (days < 0) return 'Overdue';
+  if (days === 0) return 'Due today';
+  if (days === 1) return 'Due tomorrow';
+  return `Due in ${days} days`;
+}
+
+/** Sorts reminders earliest first and drops duplicates. */
+export function normalizeReminders(reminders: Reminder[]) {
+  const seen = new Set<string>();
+  return [...reminders]
+    .sort((a, b) => b.days_before - a.days_before || a.time.localeCompare(b.time))
+    .filter((reminder) => {
+      const key = `${reminder.days_before}@${reminder.time}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
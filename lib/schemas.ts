@@ -0,0 +1,327 @@
+import { z } from 'zod';
+
+export const taskStatusSchema = z.enum(['pending', 'in_progress', 'completed']);
+export const taskPrioritySchema = z.enum(['low', 'medium', 'high']);
+export const userRoleSchema = z.enum(['user', 'admin']);
+
+export const userSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  name: z.string(),
+  role: userRoleSchema,
+});
+
+// An account as the admin panel sees it. A deactivated account can't sign
+// in; after a forced password reset the user has to choose a new password at
+// their next sign-in.
+export const adminUserSchema = userSchema.extend({
+  active: z.boolean().nullish().transform((value) => value ?? true),
+  password_reset_required: z.boolean().nullish().transform((value) => value ?? false),
+  task_count: z.number().nullish().transform((value) => value ?? 0),
+});
+
+export const tagColorSchema = z.enum(['gray', 'red', 'orange', 'yellow', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink']);
+
+// Tags are shared by everyone; a task refers to them by name when it is
+// written and gets the full tags back.
+export const tagSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  // Colors this frontend doesn't know render gray.
+  color: tagColorSchema.catch('gray'),
+});
+
+/** A tag as listed by GET /tags, with how many tasks use it. */
+export const tagSummarySchema = tagSchema.extend({
+  task_count: z.number().nullish().transform((value) => value ?? 0),
+});
+
+// How a task repeats. `interval` counts days, weeks or months depending on
+// `frequency`; a series ends on `until` or after `count` occurrences, if set.
+export const recurrenceSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly']),
+  interval: z.number().int().min(1).nullish().transform((value) => value ?? 1),
+  /** Weekly only: 0 is Sunday. Empty repeats on the weekday of the first occurrence. */
+  weekdays: z.array(z.number().int().min(0).max(6)).nullish().transform((value) => value ?? []),
+  /** Monthly only: clamped to the month's last day. Null repeats on the first occurrence's day. */
+  month_day: z.number().int().min(1).max(31).nullish().transform((value) => value ?? null),
+  until: z.string().nullish().transform((value) => value ?? ''),
+  count: z.number().int().min(1).nullish().transform((value) => value ?? null),
+});
+
+/**
+ * A due-date reminder: `days_before` the due date at `time` (`HH:MM`), in the
+ * user's time zone. `{ days_before: 0, time: '09:00' }` is 9:00 on the day.
+ */
+export const reminderSchema = z.object({
+  days_before: z.number().int().min(0),
+  time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+});
+
+export const taskSchema = z.object({
+  id: z.number(),
+  /** The task's creator. */
+  user_id: z.number(),
+  creator_name: z.string().nullish().transform((value) => value ?? ''),
+  // Who the task is for; the creator unless it was assigned to someone else.
+  // Both can see and edit it. Null when nobody is assigned.
+  assignee_id: z.number().nullish().transform((value) => value ?? null),
+  assignee_name: z.string().nullish().transform((value) => value ?? ''),
+  title: z.string(),
+  description: z.string().nullish().transform((value) => value ?? ''),
+  status: taskStatusSchema,
+  priority: taskPrioritySchema,
+  // The backend sends null or an empty string when no due date is set.
+  due_date: z.string().nullish().transform((value) => value ?? ''),
+  created_at: z.string(),
+  /** When the task was last marked completed; empty while it isn't. */
+  completed_at: z.string().nullish().transform((value) => value ?? ''),
+  // Checklist progress, so listings can show "3/7" without loading subtasks.
+  subtask_count: z.number().nullish().transform((value) => value ?? 0),
+  subtasks_completed: z.number().nullish().transform((value) => value ?? 0),
+  /** The backend marks the task completed once every subtask is checked off. */
+  auto_complete: z.boolean().nullish().transform((value) => value ?? false),
+  comment_count: z.number().nullish().transform((value) => value ?? 0),
+  attachment_count: z.number().nullish().transform((value) => value ?? 0),
+  tags: z.array(tagSchema).nullish().transform((value) => value ?? []),
+  // Tasks of a recurring series share `series_id` and the series' rule; the
+  // next occurrence is created when one is completed.
+  recurrence: recurrenceSchema.nullish().transform((value) => value ?? null),
+  series_id: z.number().nullish().transform((value) => value ?? null),
+  /** 1-based position in the series. */
+  occurrence: z.number().nullish().transform((value) => value ?? null),
+  /** Null follows the assignee's default reminders; an empty list means none. */
+  reminders: z.array(reminderSchema).nullish().transform((value) => value ?? null),
+});
+
+export const subtaskSchema = z.object({
+  id: z.number(),
+  task_id: z.number(),
+  title: z.string(),
+  completed: z.boolean(),
+  /** Zero-based; subtasks are listed in this order. */
+  position: z.number(),
+});
+
+export const commentSchema = z.object({
+  id: z.number(),
+  task_id: z.number(),
+  user_id: z.number(),
+  author_name: z.string(),
+  /** Markdown source. */
+  body: z.string(),
+  created_at: z.string(),
+  // Empty until the comment is edited.
+  updated_at: z.string().nullish().transform((value) => value ?? ''),
+});
+
+export const attachmentSchema = z.object({
+  id: z.number(),
+  task_id: z.number(),
+  /** Who uploaded it. */
+  user_id: z.number(),
+  uploader_name: z.string(),
+  file_name: z.string(),
+  content_type: z.string(),
+  /** In bytes. */
+  size: z.number(),
+  created_at: z.string(),
+});
+
+export const trackedFieldSchema = z.enum(['title', 'description', 'status', 'priority', 'due_date', 'tags', 'assignee']);
+
+/**
+ * One field of a task before and after an edit; values are sent as strings
+ * ('' for none, tag names joined with ", ", the assignee's name).
+ */
+export const fieldChangeSchema = z.object({
+  field: trackedFieldSchema,
+  from: z.string().nullish().transform((value) => value ?? ''),
+  to: z.string().nullish().transform((value) => value ?? ''),
+});
+
+// An entry in a task's history. `user_id` and `actor_name` are whoever made
+// the change, which for a delete may be an admin rather than the owner. The
+// history outlives the task, so a deleted task's entries can still be read.
+export const activitySchema = z.object({
+  id: z.number(),
+  task_id: z.number(),
+  user_id: z.number(),
+  actor_name: z.string(),
+  action: z.enum(['created', 'updated', 'deleted']),
+  changes: z.array(fieldChangeSchema).nullish().transform((value) => value ?? []),
+  created_at: z.string(),
+});
+
+// The outcome of a bulk action for one task. `title` is sent whenever the
+// task was found, `task` is the task as updated (null after a delete), and
+// `error` says why it failed.
+export const bulkResultSchema = z.object({
+  id: z.number(),
+  title: z.string().nullish().transform((value) => value ?? ''),
+  ok: z.boolean(),
+  error: z.string().nullish().transform((value) => value ?? ''),
+  task: taskSchema.nullish().transform((value) => value ?? null),
+});
+
+export const bulkResponseSchema = z.object({
+  results: z.array(bulkResultSchema),
+});
+
+// Per-user reminder settings. `time_zone` (an IANA name) is what reminder
+// times are read in, since due dates carry no time of their own.
+export const reminderSettingsSchema = z.object({
+  default_reminders: z.array(reminderSchema).nullish().transform((value) => value ?? []),
+  time_zone: z.string().nullish().transform((value) => value || 'UTC'),
+});
+
+// A reminder that went off. The backend keeps the task's title and due date
+// as they were, so the notification still reads right after the task
+// changes. A snoozed notification comes back, unread, at `snoozed_until`.
+export const notificationSchema = z.object({
+  id: z.number(),
+  task_id: z.number(),
+  task_title: z.string(),
+  due_date: z.string(),
+  /** When it (last) went off. */
+  remind_at: z.string(),
+  read: z.boolean(),
+  snoozed_until: z.string().nullish().transform((value) => value ?? ''),
+});
+
+/** GET /notifications: the most recent notifications, newest first. */
+export const notificationListSchema = z.object({
+  items: z.array(notificationSchema).nullable().transform((items) => items ?? []),
+  unread_count: z.number(),
+});
+
+// Admin listings carry the owner's name so the UI doesn't need every user
+// loaded to label a task.
+export const adminTaskSchema = taskSchema.extend({
+  owner_name: z.string().nullish().transform((value) => value ?? ''),
+});
+
+export const statusCountsSchema = z.object({
+  pending: z.number(),
+  in_progress: z.number(),
+  completed: z.number(),
+});
+
+export const priorityCountsSchema = z.object({
+  low: z.number(),
+  medium: z.number(),
+  high: z.number(),
+});
+
+// GET /admin/analytics, over the inclusive `YYYY-MM-DD` range `from`..`to`.
+// The distributions, overdue counts and per-user `created` cover the tasks
+// created in the range; `completed` counts, and the average time to
+// completion, cover the tasks completed in it.
+export const analyticsSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  /** One entry per day of the range, oldest first. */
+  timeline: z.array(z.object({ date: z.string(), created: z.number(), completed: z.number() })),
+  status_counts: statusCountsSchema,
+  priority_counts: priorityCountsSchema,
+  /** Open tasks past their due date, by assignee; `user_id` is null for unassigned ones. Most overdue first. */
+  overdue_by_user: z.array(z.object({ user_id: z.number().nullable(), name: z.string(), overdue: z.number() })),
+  /** Null when no task was completed in the range. */
+  avg_completion_hours: z.number().nullable(),
+  /** Every active user's tasks created and, as assignee, completed; most active first. */
+  user_activity: z.array(z.object({ user_id: z.number(), name: z.string(), created: z.number(), completed: z.number() })),
+});
+
+// GET /tasks/insights: the caller's own trends over the inclusive range
+// `from`..`to`, from the tasks assigned to them, with days in their time
+// zone. `punctuality` and `cycle_hours` cover the tasks completed in the range.
+export const insightsSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  /** One entry per day of the range, oldest first, with the tasks still open at its end. */
+  days: z.array(z.object({ date: z.string(), completed: z.number(), open: z.number() })),
+  /** Consecutive days with a completion; `current` counts today only once something is completed. */
+  streak: z.object({ current: z.number(), longest: z.number() }),
+  /** Completed by the due date or after it, or without one. */
+  punctuality: z.object({ on_time: z.number(), late: z.number(), undated: z.number() }),
+  /** Mean hours from creation to completion by priority; null where none were completed. */
+  cycle_hours: z.object({ low: z.number().nullable(), medium: z.number().nullable(), high: z.number().nullable() }),
+});
+
+/** One page of a server-side paginated listing. */
+export const pageSchema = <T extends z.ZodTypeAny>(item: T) =>
+  z.object({
+    items: z.array(item).nullable().transform((items) => items ?? []),
+    total: z.number(),
+    page: z.number(),
+    page_size: z.number(),
+  });
+
+// `status_counts` covers all of the caller's tasks, ignoring filters, and
+// feeds the dashboard's stat cards.
+export const taskPageSchema = pageSchema(taskSchema).extend({
+  status_counts: statusCountsSchema,
+});
+
+export const authResponseSchema = z.object({
+  token: z.string(),
+  refresh_token: z.string().optional(),
+  user: userSchema,
+});
+
+export const refreshResponseSchema = z.object({
+  token: z.string(),
+  refresh_token: z.string().optional(),
+});
+
+// What the app's own /api/auth route handlers return; the tokens stay in
+// httpOnly cookies.
+export const sessionResponseSchema = z.object({
+  user: userSchema,
+});
+
+// Pushed over the realtime channel (GET /events, server-sent events) whenever
+// a task or an account changes. Task events reach the task's creator, its
+// assignee and every admin; user events reach admins and the user concerned.
+// `notification.created`, sent when a reminder goes off, reaches only the
+// user it is for.
+export const realtimeEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('task.created'), task: taskSchema }),
+  z.object({ type: z.literal('task.updated'), task: taskSchema }),
+  z.object({ type: z.literal('task.deleted'), task_id: z.number(), user_id: z.number() }),
+  z.object({ type: z.literal('user.promoted'), user: userSchema }),
+  z.object({ type: z.literal('user.updated'), user: userSchema }),
+  z.object({ type: z.literal('user.deleted'), user_id: z.number() }),
+  z.object({ type: z.literal('notification.created'), notification: notificationSchema }),
+]);
+
+export type TaskStatus = z.infer<typeof taskStatusSchema>;
+export type TaskPriority = z.infer<typeof taskPrioritySchema>;
+export type UserRole = z.infer<typeof userRoleSchema>;
+export type User = z.infer<typeof userSchema>;
+export type AdminUser = z.infer<typeof adminUserSchema>;
+export type TagColor = z.infer<typeof tagColorSchema>;
+export type Tag = z.infer<typeof tagSchema>;
+export type TagSummary = z.infer<typeof tagSummarySchema>;
+export type Recurrence = z.infer<typeof recurrenceSchema>;
+export type Reminder = z.infer<typeof reminderSchema>;
+export type Task = z.infer<typeof taskSchema>;
+export type Subtask = z.infer<typeof subtaskSchema>;
+export type Comment = z.infer<typeof commentSchema>;
+export type Attachment = z.infer<typeof attachmentSchema>;
+export type TrackedField = z.infer<typeof trackedFieldSchema>;
+export type FieldChange = z.infer<typeof fieldChangeSchema>;
+export type Activity = z.infer<typeof activitySchema>;
+export type BulkResult = z.infer<typeof bulkResultSchema>;
+export type ReminderSettings = z.infer<typeof reminderSettingsSchema>;
+export type TaskNotification = z.infer<typeof notificationSchema>;
+export type NotificationList = z.infer<typeof notificationListSchema>;
+export type AdminTask = z.infer<typeof adminTaskSchema>;
+export type StatusCounts = z.infer<typeof statusCountsSchema>;
+export type PriorityCounts = z.infer<typeof priorityCountsSchema>;
+export type Analytics = z.infer<typeof analyticsSchema>;
+export type Insights = z.infer<typeof insightsSchema>;
+export type Page<T> = { items: T[]; total: number; page: number; page_size: number };
+export type TaskPage = z.infer<typeof taskPageSchema>;
+export type RealtimeEvent = z.infer<typeof realtimeEventSchema>;
+export type AuthResponse = z.infer<typeof authResponseSchema>;
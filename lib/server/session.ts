@@ -0,0 +1,117 @@
+import { cookies } from 'next/headers';
+import type { NextResponse } from 'next/server';
+import { MOCK_ORIGIN, handleMockRequest } from '../mock/handler';
+import { authResponseSchema, refreshResponseSchema, userSchema, type User } from '../schemas';
+
+// Server-side only: the browser talks to the Next.js route handlers under
+// /api, which forward to the backend with the session cookie as bearer token.
+export const BACKEND_URL =
+  process.env.API_URL || process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api';
+
+export const TOKEN_COOKIE = 'session_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+};
+
+const TOKEN_MAX_AGE = 60 * 60 * 24;
+const REFRESH_TOKEN_MAX_AGE = 60 * 60 * 24 * 30;
+
+export interface SessionTokens {
+  token: string;
+  refresh_token?: string;
+}
+
+// A backend that can't be reached answers 502, as a gateway would, so callers
+// handle it like any failed request rather than as an exception.
+export function backendFetch(path: string, init: RequestInit & { token?: string } = {}) {
+  const { token, headers, ...rest } = init;
+  const requestHeaders = new Headers(headers);
+  if (token) {
+    requestHeaders.set('Authorization', `Bearer ${token}`);
+  }
+  if (process.env.MOCK_API === '1') {
+    return handleMockRequest(new Request(`${MOCK_ORIGIN}${path}`, { ...rest, headers: requestHeaders }));
+  }
+  return fetch(`${BACKEND_URL}${path}`, { ...rest, headers: requestHeaders, cache: 'no-store' }).catch(() =>
+    Response.json({ error: 'The server could not be reached' }, { status: 502 })
+  );
+}
+
+export function setSessionCookies(response: NextResponse, { token, refresh_token }: SessionTokens) {
+  response.cookies.set(TOKEN_COOKIE, token, { ...cookieOptions, maxAge: TOKEN_MAX_AGE });
+  if (refresh_token) {
+    response.cookies.set(REFRESH_TOKEN_COOKIE, refresh_token, {
+      ...cookieOptions,
+      maxAge: REFRESH_TOKEN_MAX_AGE,
+    });
+  }
+}
+
+export function clearSessionCookies(response: NextResponse) {
+  response.cookies.set(TOKEN_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+  response.cookies.set(REFRESH_TOKEN_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+}
+
+/** Resolves the user behind an access token, or null if the backend rejects it. */
+export async function fetchSessionUser(token: string): Promise<User | null> {
+  const response = await backendFetch('/auth/me', { token });
+  if (!response.ok) {
+    return null;
+  }
+  const result = userSchema.safeParse(await response.json().catch(() => null));
+  return result.success ? result.data : null;
+}
+
+/** Exchanges a refresh token for a new token pair, or null if it is no longer valid. */
+export async function refreshSession(refreshToken: string): Promise<SessionTokens | null> {
+  const response = await backendFetch('/auth/refresh', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refresh_token: refreshToken }),
+  });
+  if (!response.ok) {
+    return null;
+  }
+  const result = refreshResponseSchema.safeParse(await response.json().catch(() => null));
+  return result.success ? result.data : null;
+}
+
+/** Revokes a session's tokens at the backend, so the refresh token can't be used after logout. */
+export async function revokeSession(token: string | undefined, refreshToken: string | undefined) {
+  await backendFetch('/auth/logout', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refresh_token: refreshToken }),
+    token,
+  });
+}
+
+/** Forwards login/register to the backend and turns the token pair into cookies. */
+export async function authenticate(path: '/auth/login' | '/auth/register', body: unknown) {
+  const response = await backendFetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    return { ok: false as const, status: response.status, data };
+  }
+  const result = authResponseSchema.safeParse(data);
+  if (!result.success) {
+    return { ok: false as const, status: 502, data: { error: `Unexpected response from ${path}` } };
+  }
+  const { user, ...tokens } = result.data;
+  return { ok: true as const, user, tokens };
+}
+
+/** The signed-in user for the current request, for server components. */
+export async function getSessionUser(): Promise<User | null> {
+  const token = (await cookies()).get(TOKEN_COOKIE)?.value;
+  return token ? fetchSessionUser(token) : null;
+}
@@ -1,99 +1,222 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { X } from 'lucide-react';
 import { useAuth } from '../../../contexts/AuthContext';
-import { adminAPI } from '../../../lib/api';
+import {
+  getErrorMessage,
+  type AdminUser,
+  type AnalyticsQuery,
+  type TaskQuery,
+  type UserQuery,
+  type UserSortField,
+} from '../../../lib/api';
+import {
+  loadAllAdminTasks,
+  useAdminAssignTask,
+  useAdminDeleteTask,
+  useAdminTasks,
+  useAdminUsers,
+  useDemoteUser,
+  useForcePasswordReset,
+  usePromoteUser,
+  useSetUserActive,
+  useTags,
+} from '../../../lib/queries';
+import { DEFAULT_PAGE_SIZE, parseAnalyticsQuery, parseTaskQuery, parseUserQuery } from '../../../lib/listQuery';
+import { markdownExcerpt } from '../../../lib/markdown';
+import { useUrlQuery } from '../../../hooks/useUrlQuery';
+import { useRealtimeUpdates } from '../../../hooks/useRealtimeUpdates';
+import TaskQueryControls from '../../../components/TaskQueryControls';
+import Pagination from '../../../components/Pagination';
+import TagChip from '../../../components/TagChip';
+import TagFilter from '../../../components/TagFilter';
+import TagManager from '../../../components/TagManager';
+import AdminAnalytics from '../../../components/AdminAnalytics';
+import AssigneePicker, { type Assignee } from '../../../components/AssigneePicker';
+import DeleteUserDialog from '../../../components/DeleteUserDialog';
+import ExportMenu from '../../../components/ExportMenu';
 
-interface User {
-  id: number;
-  email: string;
-  name: string;
-  role: 'user' | 'admin';
+type AdminTab = 'users' | 'tasks' | 'tags' | 'analytics';
+
+// Only the active tab's listing state is kept in the URL.
+function parseAdminQuery(params: URLSearchParams) {
+  const requested = params.get('tab');
+  const tab: AdminTab =
+    requested === 'tasks' || requested === 'tags' || requested === 'analytics' ? requested : 'users';
+  return {
+    tab,
+    users: tab === 'users' ? parseUserQuery(params) : ({} as UserQuery),
+    tasks: tab === 'tasks' ? parseTaskQuery(params) : ({} as TaskQuery),
+    analytics: tab === 'analytics' ? parseAnalyticsQuery(params) : ({} as AnalyticsQuery),
+  };
 }
 
-interface Task {
-  id: number;
-  user_id: number;
-  title: string;
-  description: string;
-  status: string;
-  priority: string;
+function describeRange(from?: string, to?: string) {
+  if (from && from === to) return `on ${from}`;
+  if (from && to) return `${from} – ${to}`;
+  return from ? `from ${from}` : `until ${to}`;
 }
 
+// The filters the analytics tab drills down with, which have no controls of
+// their own here, so each can at least be removed.
+function drillDownFilters(query: TaskQuery, assigneeName: string) {
+  const filters: { label: string; clear: Record<string, undefined> }[] = [];
+  if (query.created_from || query.created_to) {
+    filters.push({
+      label: `Created ${describeRange(query.created_from, query.created_to)}`,
+      clear: { created_from: undefined, created_to: undefined },
+    });
+  }
+  if (query.completed_from || query.completed_to) {
+    filters.push({
+      label: `Completed ${describeRange(query.completed_from, query.completed_to)}`,
+      clear: { completed_from: undefined, completed_to: undefined },
+    });
+  }
+  if (query.assignee !== undefined) {
+    const name = query.assignee === 'none' ? 'nobody' : assigneeName || `user #${query.assignee}`;
+    filters.push({ label: `Assigned to ${name}`, clear: { assignee: undefined } });
+  }
+  if (query.overdue) {
+    filters.push({ label: 'Overdue', clear: { overdue: undefined } });
+  }
+  return filters;
+}
+
+const USER_COLUMNS: { field: UserSortField; label: string }[] = [
+  { field: 'id', label: 'ID' },
+  { field: 'name', label: 'Name' },
+  { field: 'email', label: 'Email' },
+  { field: 'role', label: 'Role' },
+];
+
 export default function AdminPage() {
   const router = useRouter();
-  const { user, logout, loading } = useAuth();
-  const [users, setUsers] = useState<User[]>([]);
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [activeTab, setActiveTab] = useState<'users' | 'tasks'>('users');
+  const { user, logout } = useAuth();
+  const [query, setQuery] = useUrlQuery(parseAdminQuery);
+  const activeTab = query.tab;
+  const listQuery = activeTab === 'users' ? query.users : query.tasks;
+  const [searchQuery, setSearchQuery] = useState(listQuery.search ?? '');
+  const searchTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
   const [error, setError] = useState('');
-  const [dataLoading, setDataLoading] = useState(true);
+  const [deletingUser, setDeletingUser] = useState<AdminUser | null>(null);
 
+  // Both listings load so each tab label can show its total; the inactive
+  // one uses its first page.
+  const usersQuery = useAdminUsers({ ...query.users, page_size: query.users.page_size ?? DEFAULT_PAGE_SIZE });
+  const tasksQuery = useAdminTasks({ ...query.tasks, page_size: query.tasks.page_size ?? DEFAULT_PAGE_SIZE });
+  const promoteUser = usePromoteUser();
+  const demoteUser = useDemoteUser();
+  const setUserActive = useSetUserActive();
+  const forcePasswordReset = useForcePasswordReset();
+  const deleteTask = useAdminDeleteTask();
+  const assignTask = useAdminAssignTask();
+  const tagCount = useTags().data?.length ?? 0;
+  useRealtimeUpdates();
 
-  useEffect(() => {
-    if (!loading && (!user || user.role !== 'admin')) {
-      router.push('/dashboard');
-    }
-  }, [user, loading, router]);
+  const users = usersQuery.data?.items ?? [];
+  const usersTotal = usersQuery.data?.total ?? 0;
+  const tasks = tasksQuery.data?.items ?? [];
+  const tasksTotal = tasksQuery.data?.total ?? 0;
+  const dataLoading = usersQuery.isPending || tasksQuery.isPending;
+  const failedQuery = usersQuery.error ?? tasksQuery.error;
+  const loadError = failedQuery ? getErrorMessage(failedQuery, 'Failed to load data') : '';
+  // Every listed task has the assignee being filtered on.
+  const drillDown = drillDownFilters(query.tasks, tasks[0]?.assignee_name ?? '');
 
+  const handlePromoteUser = (userId: number) => {
+    if (!confirm('Promote this user to admin?')) return;
 
-  useEffect(() => {
-    if (user && user.role === 'admin') {
-      fetchData();
-    }
-  }, [user]);
-
-  const fetchData = async () => {
-    try {
-      setDataLoading(true);
-      const [usersRes, tasksRes] = await Promise.all([
-        adminAPI.getAllUsers(),
-        adminAPI.getAllTasks(),
-      ]);
-      setUsers(usersRes.data || []);
-      setTasks(tasksRes.data || []);
-    } catch (_err) {
-      setError('Failed to load data');
-    } finally {
-      setDataLoading(false);
+    promoteUser.mutate(userId, { onError: () => setError('Failed to promote user') });
+  };
+
+  const handleDemoteUser = (target: AdminUser) => {
+    if (!confirm(`Demote ${target.name} to a regular user? They lose access to the admin panel and to other users' tasks.`)) {
+      return;
     }
+
+    setError('');
+    demoteUser.mutate(target.id, { onError: (err) => setError(getErrorMessage(err, 'Failed to demote user')) });
   };
 
-  const handlePromoteUser = async (userId: number) => {
-    if (!confirm('Promote this user to admin?')) return;
+  const handleToggleActive = (target: AdminUser) => {
+    const message = target.active
+      ? `Deactivate ${target.name}? They are signed out everywhere and can't sign in until reactivated. Their tasks are kept.`
+      : `Reactivate ${target.name}? They can sign in again.`;
+    if (!confirm(message)) return;
+
+    setError('');
+    setUserActive.mutate(
+      { id: target.id, active: !target.active },
+      {
+        onError: (err) =>
+          setError(getErrorMessage(err, `Failed to ${target.active ? 'deactivate' : 'reactivate'} user`)),
+      }
+    );
+  };
 
-    try {
-      await adminAPI.promoteUser(userId);
-      fetchData();
-    } catch (_err) {
-      setError('Failed to promote user');
+  const handleForcePasswordReset = (target: AdminUser) => {
+    if (
+      !confirm(
+        `Force ${target.name} to reset their password? They are signed out everywhere and have to choose a new password the next time they sign in.`
+      )
+    ) {
+      return;
     }
+
+    setError('');
+    forcePasswordReset.mutate(target.id, {
+      onError: (err) => setError(getErrorMessage(err, 'Failed to reset password')),
+    });
   };
 
-  const handleDeleteTask = async (taskId: number) => {
+  const handleAssignTask = (taskId: number, assignee: Assignee) => {
+    setError('');
+    assignTask.mutate(
+      { id: taskId, assigneeId: assignee.id },
+      { onError: (err) => setError(getErrorMessage(err, 'Failed to assign task')) }
+    );
+  };
+
+  const handleDeleteTask = (taskId: number) => {
     if (!confirm('Delete this task?')) return;
 
-    try {
-      await adminAPI.deleteTask(taskId);
-      fetchData();
-    } catch (_err) {
-      setError('Failed to delete task');
-    }
+    deleteTask.mutate(taskId, { onError: () => setError('Failed to delete task') });
   };
 
-  const handleLogout = () => {
-    logout();
-    router.push('/login');
+  const switchTab = (tab: AdminTab) => {
+    clearTimeout(searchTimer.current);
+    setSearchQuery('');
+    setQuery({ tab }, { reset: true });
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        <p>Loading...</p>
-      </div>
+  const handleDrillDown = (filter: TaskQuery) => {
+    clearTimeout(searchTimer.current);
+    setSearchQuery('');
+    setQuery(
+      { tab: 'tasks', ...Object.fromEntries(Object.entries(filter).map(([key, value]) => [key, String(value)])) },
+      { reset: true }
     );
-  }
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearchQuery(value);
+    clearTimeout(searchTimer.current);
+    searchTimer.current = setTimeout(() => setQuery({ search: value.trim() }), 300);
+  };
+
+  const handleSortUsers = (field: UserSortField) => {
+    const ascending = query.users.sort === field && (query.users.order ?? 'asc') === 'asc';
+    setQuery({ sort: field, order: ascending ? 'desc' : 'asc' });
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    router.push('/login');
+  };
 
   if (!user || user.role !== 'admin') {
     return null;
@@ -126,33 +249,53 @@ export default function AdminPage() {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {error && (
+        {(error || loadError) && (
           <div className="mb-4 rounded-md bg-red-50 p-4">
-            <p className="text-sm font-medium text-red-800">{error}</p>
+            <p className="text-sm font-medium text-red-800">{error || loadError}</p>
           </div>
         )}
 
         {/* Tabs */}
         <div className="flex gap-4 mb-6">
           <button
-            onClick={() => setActiveTab('users')}
+            onClick={() => switchTab('users')}
             className={`px-4 py-2 rounded-lg font-medium ${
               activeTab === 'users'
                 ? 'bg-blue-600 text-white'
                 : 'bg-white text-gray-900 border border-gray-300'
             }`}
           >
-            Users ({users.length})
+            Users ({usersTotal})
           </button>
           <button
-            onClick={() => setActiveTab('tasks')}
+            onClick={() => switchTab('tasks')}
             className={`px-4 py-2 rounded-lg font-medium ${
               activeTab === 'tasks'
                 ? 'bg-blue-600 text-white'
                 : 'bg-white text-gray-900 border border-gray-300'
             }`}
           >
-            All Tasks ({tasks.length})
+            All Tasks ({tasksTotal})
+          </button>
+          <button
+            onClick={() => switchTab('tags')}
+            className={`px-4 py-2 rounded-lg font-medium ${
+              activeTab === 'tags'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-900 border border-gray-300'
+            }`}
+          >
+            Tags ({tagCount})
+          </button>
+          <button
+            onClick={() => switchTab('analytics')}
+            className={`px-4 py-2 rounded-lg font-medium ${
+              activeTab === 'analytics'
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-900 border border-gray-300'
+            }`}
+          >
+            Analytics
           </button>
         </div>
 
@@ -161,6 +304,14 @@ export default function AdminPage() {
           <div className="bg-white shadow rounded-lg p-6">
             <h2 className="text-2xl font-bold text-gray-900 mb-6">Manage Users</h2>
 
+            <input
+              type="text"
+              placeholder="Search users by name or email..."
+              value={searchQuery}
+              onChange={(e) => handleSearchChange(e.target.value)}
+              className="w-full mb-4 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+
             {dataLoading ? (
               <p className="text-gray-600">Loading...</p>
             ) : users.length === 0 ? (
@@ -170,14 +321,24 @@ export default function AdminPage() {
                 <table className="min-w-full">
                   <thead className="bg-gray-100">
                     <tr>
+                      {USER_COLUMNS.map((column) => (
+                        <th
+                          key={column.field}
+                          aria-sort={
+                            query.users.sort === column.field
+                              ? query.users.order === 'desc' ? 'descending' : 'ascending'
+                              : undefined
+                          }
+                          className="px-6 py-3 text-left text-sm font-medium text-gray-900"
+                        >
+                          <button onClick={() => handleSortUsers(column.field)} className="hover:text-blue-600">
+                            {column.label}
+                            {query.users.sort === column.field && (query.users.order === 'desc' ? ' ↓' : ' ↑')}
+                          </button>
+                        </th>
+                      ))}
                       <th className="px-6 py-3 text-left text-sm font-medium text-gray-900">
-                        Name
-                      </th>
-                      <th className="px-6 py-3 text-left text-sm font-medium text-gray-900">
-                        Email
-                      </th>
-                      <th className="px-6 py-3 text-left text-sm font-medium text-gray-900">
-                        Role
+                        Status
                       </th>
                       <th className="px-6 py-3 text-left text-sm font-medium text-gray-900">
                         Actions
@@ -202,13 +363,61 @@ export default function AdminPage() {
                           </span>
                         </td>
                         <td className="px-6 py-4 text-sm">
-                          {u.role !== 'admin' && (
-                            <button
-                              onClick={() => handlePromoteUser(u.id)}
-                              className="text-blue-600 hover:text-blue-800 font-medium"
+                          <div className="flex flex-wrap gap-2">
+                            <span
+                              className={`px-3 py-1 rounded-full text-sm font-medium ${
+                                u.active ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                              }`}
                             >
-                              Promote to Admin
-                            </button>
+                              {u.active ? 'active' : 'deactivated'}
+                            </span>
+                            {u.password_reset_required && (
+                              <span className="px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800">
+                                reset pending
+                              </span>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4 text-sm">
+                          {u.id === user.id ? (
+                            <span className="text-gray-500">You</span>
+                          ) : (
+                            <div className="flex flex-wrap gap-x-4 gap-y-1">
+                              {u.role === 'admin' ? (
+                                <button
+                                  onClick={() => handleDemoteUser(u)}
+                                  className="text-blue-600 hover:text-blue-800 font-medium"
+                                >
+                                  Demote
+                                </button>
+                              ) : (
+                                <button
+                                  onClick={() => handlePromoteUser(u.id)}
+                                  className="text-blue-600 hover:text-blue-800 font-medium"
+                                >
+                                  Promote to Admin
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleToggleActive(u)}
+                                className="text-gray-700 hover:text-gray-900 font-medium"
+                              >
+                                {u.active ? 'Deactivate' : 'Reactivate'}
+                              </button>
+                              <button
+                                onClick={() => handleForcePasswordReset(u)}
+                                disabled={u.password_reset_required}
+                                className="text-gray-700 hover:text-gray-900 font-medium disabled:opacity-40"
+                              >
+                                Reset password
+                              </button>
+                              <button
+                                onClick={() => setDeletingUser(u)}
+                                className="text-red-600 hover:text-red-800 font-medium"
+                              >
+                                Delete
+                              </button>
+                            </div>
                           )}
                         </td>
                       </tr>
@@ -217,6 +426,16 @@ export default function AdminPage() {
                 </table>
               </div>
             )}
+
+            {!dataLoading && usersTotal > 0 && (
+              <Pagination
+                page={query.users.page ?? 1}
+                pageSize={query.users.page_size ?? DEFAULT_PAGE_SIZE}
+                total={usersTotal}
+                onPageChange={(page) => setQuery({ page })}
+                onPageSizeChange={(pageSize) => setQuery({ page_size: pageSize })}
+              />
+            )}
           </div>
         )}
 
@@ -224,7 +443,56 @@ export default function AdminPage() {
 
         {activeTab === 'tasks' && (
           <div className="bg-white shadow rounded-lg p-6">
-            <h2 className="text-2xl font-bold text-gray-900 mb-6">All Tasks</h2>
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-2xl font-bold text-gray-900">All Tasks</h2>
+              <ExportMenu loadTasks={() => loadAllAdminTasks(query.tasks)} fileName="all-tasks" />
+            </div>
+
+            <input
+              type="text"
+              placeholder="Search tasks by title or description..."
+              value={searchQuery}
+              onChange={(e) => handleSearchChange(e.target.value)}
+              className="w-full mb-4 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex flex-wrap items-end gap-4 mb-6">
+              <label className="text-sm font-semibold text-gray-700">
+                <span className="block mb-1">Status</span>
+                <select
+                  value={query.tasks.status ?? ''}
+                  onChange={(e) => setQuery({ status: e.target.value })}
+                  className="px-3 py-2 border-2 border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+                >
+                  <option value="">Any</option>
+                  <option value="pending">Pending</option>
+                  <option value="in_progress">In Progress</option>
+                  <option value="completed">Completed</option>
+                </select>
+              </label>
+              <TaskQueryControls query={query.tasks} onChange={setQuery} />
+            </div>
+            <div className="mb-6">
+              <TagFilter query={query.tasks} onChange={setQuery} />
+            </div>
+            {drillDown.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 mb-6">
+                {drillDown.map((filter) => (
+                  <span
+                    key={filter.label}
+                    className="flex items-center gap-1.5 px-3 py-1 rounded-full text-sm font-medium bg-blue-50 text-blue-800 border border-blue-200"
+                  >
+                    {filter.label}
+                    <button
+                      onClick={() => setQuery(filter.clear)}
+                      aria-label={`Remove filter: ${filter.label}`}
+                      className="hover:text-blue-950"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
 
             {dataLoading ? (
               <p className="text-gray-600">Loading...</p>
@@ -240,12 +508,21 @@ export default function AdminPage() {
                     <div className="flex justify-between items-start">
                       <div className="flex-1">
                         <h3 className="text-lg font-semibold text-gray-900">
-                          {task.title}
+                          <Link href={`/tasks/${task.id}`} className="hover:text-blue-600">
+                            {task.title}
+                          </Link>
                         </h3>
-                        <p className="text-gray-600 mt-1">{task.description}</p>
+                        <p className="text-gray-600 mt-1 line-clamp-2">{markdownExcerpt(task.description)}</p>
+                        {task.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-2 mt-2">
+                            {task.tags.map((tag) => (
+                              <TagChip key={tag.id} tag={tag} />
+                            ))}
+                          </div>
+                        )}
                         <div className="flex gap-4 mt-3">
                           <span className="text-sm text-gray-600">
-                            User: <span className="font-semibold">{users.find(u => u.id === task.user_id)?.name || 'Unknown'}</span>
+                            Creator: <span className="font-semibold">{task.owner_name || 'Unknown'}</span>
                           </span>
                           <span
                             className={`px-3 py-1 rounded-full text-sm font-medium ${
@@ -271,6 +548,11 @@ export default function AdminPage() {
                           </span>
                         </div>
                       </div>
+                      <AssigneePicker
+                        value={{ id: task.assignee_id, name: task.assignee_name }}
+                        onChange={(assignee) => handleAssignTask(task.id, assignee)}
+                        className="w-56 ml-4"
+                      />
                       <button
                         onClick={() => handleDeleteTask(task.id)}
                         className="ml-4 px-3 py-1 text-red-600 hover:bg-red-50 rounded"
@@ -282,9 +564,31 @@ export default function AdminPage() {
                 ))}
               </div>
             )}
+
+            {!dataLoading && tasksTotal > 0 && (
+              <Pagination
+                page={query.tasks.page ?? 1}
+                pageSize={query.tasks.page_size ?? DEFAULT_PAGE_SIZE}
+                total={tasksTotal}
+                onPageChange={(page) => setQuery({ page })}
+                onPageSizeChange={(pageSize) => setQuery({ page_size: pageSize })}
+              />
+            )}
           </div>
         )}
+
+        {activeTab === 'tags' && <TagManager />}
+
+        {activeTab === 'analytics' && (
+          <AdminAnalytics
+            range={query.analytics}
+            onRangeChange={({ from, to }) => setQuery({ from, to })}
+            onDrillDown={handleDrillDown}
+          />
+        )}
       </main>
+
+      {deletingUser && <DeleteUserDialog user={deletingUser} onClose={() => setDeletingUser(null)} />}
     </div>
   );
 }
@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { TOKEN_COOKIE, backendFetch } from '../../../../lib/server/session';
+
+// Forwards every other /api request to the backend, attaching the access
+// token from the httpOnly session cookie.
+async function forward(request: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+  const { path } = await params;
+  const headers = new Headers();
+  const contentType = request.headers.get('content-type');
+  if (contentType) {
+    headers.set('Content-Type', contentType);
+  }
+
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+  const response = await backendFetch(`/${path.join('/')}${request.nextUrl.search}`, {
+    method: request.method,
+    headers,
+    body: hasBody ? await request.arrayBuffer() : undefined,
+    token: request.cookies.get(TOKEN_COOKIE)?.value,
+    // Ends long-lived responses such as the GET /events stream once the
+    // browser disconnects.
+    signal: request.signal,
+  });
+
+  const responseHeaders = new Headers();
+  for (const name of ['content-type', 'cache-control', 'content-disposition', 'x-content-type-options']) {
+    const value = response.headers.get(name);
+    if (value) {
+      responseHeaders.set(name, value);
+    }
+  }
+  const body = response.status === 204 || response.status === 304 ? null : response.body;
+  return new NextResponse(body, { status: response.status, headers: responseHeaders });
+}
+
+export { forward as GET, forward as POST, forward as PUT, forward as PATCH, forward as DELETE };
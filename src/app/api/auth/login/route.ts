@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { authenticate, setSessionCookies } from '../../../../../lib/server/session';
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  const { email, password, new_password } = body;
+  const result = await authenticate('/auth/login', { email, password, new_password });
+  if (!result.ok) {
+    return NextResponse.json(result.data, { status: result.status });
+  }
+
+  const response = NextResponse.json({ user: result.user });
+  setSessionCookies(response, result.tokens);
+  return response;
+}
@@ -0,0 +1,14 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  REFRESH_TOKEN_COOKIE,
+  TOKEN_COOKIE,
+  clearSessionCookies,
+  revokeSession,
+} from '../../../../../lib/server/session';
+
+export async function POST(request: NextRequest) {
+  await revokeSession(request.cookies.get(TOKEN_COOKIE)?.value, request.cookies.get(REFRESH_TOKEN_COOKIE)?.value);
+  const response = new NextResponse(null, { status: 204 });
+  clearSessionCookies(response);
+  return response;
+}
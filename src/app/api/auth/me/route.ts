@@ -0,0 +1,11 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { TOKEN_COOKIE, fetchSessionUser } from '../../../../../lib/server/session';
+
+export async function GET(request: NextRequest) {
+  const token = request.cookies.get(TOKEN_COOKIE)?.value;
+  const user = token ? await fetchSessionUser(token) : null;
+  if (!user) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+  return NextResponse.json(user);
+}
@@ -0,0 +1,21 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  REFRESH_TOKEN_COOKIE,
+  clearSessionCookies,
+  refreshSession,
+  setSessionCookies,
+} from '../../../../../lib/server/session';
+
+export async function POST(request: NextRequest) {
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+  const tokens = refreshToken ? await refreshSession(refreshToken) : null;
+  if (!tokens) {
+    const response = NextResponse.json({ error: 'Session expired' }, { status: 401 });
+    clearSessionCookies(response);
+    return response;
+  }
+
+  const response = new NextResponse(null, { status: 204 });
+  setSessionCookies(response, tokens);
+  return response;
+}
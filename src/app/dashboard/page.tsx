@@ -1,35 +1,90 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '../../../contexts/AuthContext';
-import { taskAPI } from '../../../lib/api';
-
-interface Task {
-  id: number;
-  user_id: number;
-  title: string;
-  description: string;
-  status: 'pending' | 'in_progress' | 'completed';
-  priority: 'low' | 'medium' | 'high';
-  due_date: string;
-  created_at: string;
-}
+import {
+  getErrorMessage,
+  type Recurrence,
+  type Reminder,
+  type Task,
+  type TaskRelation,
+  type TaskStatus,
+  type UpdateTaskData,
+} from '../../../lib/api';
+import {
+  loadAllTasks,
+  useAllTasks,
+  useCreateTask,
+  useDeleteTask,
+  useTags,
+  useTasks,
+  useUpdateTask,
+} from '../../../lib/queries';
+import { DEFAULT_PAGE_SIZE, parseTaskQuery, taskFilter } from '../../../lib/listQuery';
+import { markdownExcerpt } from '../../../lib/markdown';
+import { describeRecurrence, formatDateKey } from '../../../lib/recurrence';
+import { usePreference } from '../../../hooks/usePreference';
+import { useUrlQuery } from '../../../hooks/useUrlQuery';
+import { useRealtimeUpdates } from '../../../hooks/useRealtimeUpdates';
+import { useTaskSelection } from '../../../hooks/useTaskSelection';
+import AssigneePicker, { type Assignee } from '../../../components/AssigneePicker';
+import BulkActionBar from '../../../components/BulkActionBar';
+import ExportMenu from '../../../components/ExportMenu';
+import ImportWizard from '../../../components/ImportWizard';
+import MarkdownEditor from '../../../components/MarkdownEditor';
+import TaskBoard from '../../../components/TaskBoard';
+import TaskCalendar, { type CalendarRange } from '../../../components/TaskCalendar';
+import TaskQueryControls from '../../../components/TaskQueryControls';
+import NotificationCenter from '../../../components/NotificationCenter';
+import Pagination from '../../../components/Pagination';
+import RecurrenceEditor from '../../../components/RecurrenceEditor';
+import ReminderEditor from '../../../components/ReminderEditor';
+import SyncStatus from '../../../components/SyncStatus';
+import TagChip from '../../../components/TagChip';
+import TagFilter from '../../../components/TagFilter';
+import TagInput from '../../../components/TagInput';
+
+const RELATIONS: { value: TaskRelation | undefined; label: string; heading: string }[] = [
+  { value: undefined, label: 'All', heading: 'My Tasks' },
+  { value: 'assigned', label: 'Assigned to me', heading: 'Assigned to Me' },
+  { value: 'created', label: 'Created by me', heading: 'Created by Me' },
+];
+
+// Date keys compare as strings; a missing bound gives way to the other.
+const laterDate = (a?: string, b?: string) => (!a || (b && b > a) ? b : a);
+const earlierDate = (a?: string, b?: string) => (!a || (b && b < a) ? b : a);
 
 export default function DashboardPage() {
   const router = useRouter();
-  const { user, logout, loading } = useAuth();
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const { user, logout } = useAuth();
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [priority, setPriority] = useState<'low' | 'medium' | 'high'>('medium');
   const [dueDate, setDueDate] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [recurrence, setRecurrence] = useState<Recurrence | null>(null);
+  const [reminders, setReminders] = useState<Reminder[] | null>(null);
+  // New tasks are the creator's own unless assigned to someone else.
+  const self: Assignee = { id: user?.id ?? null, name: user?.name ?? '' };
+  const [assignee, setAssignee] = useState<Assignee>(self);
   const [error, setError] = useState('');
-  const [tasksLoading, setTasksLoading] = useState(true);
   const [showCreateForm, setShowCreateForm] = useState(false);
-  const [filterStatus, setFilterStatus] = useState<'all' | 'pending' | 'in_progress' | 'completed'>('all');
-  const [searchQuery, setSearchQuery] = useState('');
+  const [showImport, setShowImport] = useState(false);
+  const [query, setQuery, queryString] = useUrlQuery(parseTaskQuery);
+  const filterStatus = query.status ?? 'all';
+  const relation = RELATIONS.find((option) => option.value === query.mine) ?? RELATIONS[0];
+  const [searchQuery, setSearchQuery] = useState(query.search ?? '');
+  const searchTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const [viewMode, setViewMode] = usePreference(
+    `dashboard-view:${user?.id ?? 'anonymous'}`,
+    'list',
+    ['list', 'board', 'calendar'] as const
+  );
+
+  const [selectionMode, setSelectionMode] = useState(false);
+  const selection = useTaskSelection(taskFilter(query));
 
   // Edit modal state
   const [showEditModal, setShowEditModal] = useState(false);
@@ -38,30 +93,36 @@ export default function DashboardPage() {
   const [editDescription, setEditDescription] = useState('');
   const [editPriority, setEditPriority] = useState<'low' | 'medium' | 'high'>('medium');
   const [editDueDate, setEditDueDate] = useState('');
-
-  useEffect(() => {
-    if (!loading && !user) {
-      router.push('/login');
-    }
-  }, [user, loading, router]);
-
-  useEffect(() => {
-    if (user) {
-      fetchTasks();
-    }
-  }, [user]);
-
-  const fetchTasks = async () => {
-    try {
-      setTasksLoading(true);
-      const response = await taskAPI.getAll();
-      setTasks(response.data || []);
-    } catch (_err) {
-      setError('Failed to load tasks');
-    } finally {
-      setTasksLoading(false);
-    }
-  };
+  const [editTags, setEditTags] = useState<string[]>([]);
+
+  const [calendarRange, setCalendarRange] = useState<CalendarRange | null>(null);
+
+  // The list follows the paging in the URL. The board and calendar lay out
+  // every status at once, so they load all matching tasks; the calendar only
+  // those due in the weeks it shows, within any due date filter.
+  const overviewQuery = { ...query, status: undefined, page: undefined, page_size: undefined };
+  const listQuery = useTasks({ ...query, page_size: query.page_size ?? DEFAULT_PAGE_SIZE }, viewMode === 'list');
+  const boardQuery = useAllTasks(overviewQuery, viewMode === 'board');
+  const calendarQuery = useAllTasks(
+    {
+      ...overviewQuery,
+      due_from: laterDate(query.due_from, calendarRange?.from),
+      due_to: earlierDate(query.due_to, calendarRange?.to),
+    },
+    viewMode === 'calendar' && calendarRange !== null
+  );
+  const tasksQuery = viewMode === 'list' ? listQuery : viewMode === 'board' ? boardQuery : calendarQuery;
+  const createTask = useCreateTask();
+  const updateTask = useUpdateTask();
+  const deleteTask = useDeleteTask();
+  const realtimeStatus = useRealtimeUpdates();
+  const hasTags = (useTags().data?.length ?? 0) > 0;
+
+  const tasks = tasksQuery.data?.items ?? [];
+  const total = tasksQuery.data?.total ?? 0;
+  const statusCounts = tasksQuery.data?.status_counts ?? { pending: 0, in_progress: 0, completed: 0 };
+  const tasksLoading = tasksQuery.isPending;
+  const loadError = tasksQuery.error ? getErrorMessage(tasksQuery.error, 'Failed to load tasks') : '';
 
   const handleCreateTask = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -73,22 +134,28 @@ export default function DashboardPage() {
     }
 
     try {
-      await taskAPI.create({
+      await createTask.mutateAsync({
         title,
         description,
         priority,
         due_date: dueDate,
+        tags,
+        recurrence,
+        reminders,
+        assignee_id: assignee.id,
       });
 
       setTitle('');
       setDescription('');
       setPriority('medium');
       setDueDate('');
+      setTags([]);
+      setRecurrence(null);
+      setReminders(null);
+      setAssignee(self);
       setShowCreateForm(false);
-      fetchTasks();
     } catch (err: unknown) {
-      const error = err as { response?: { data?: { error: string } } };
-      setError(error.response?.data?.error || 'Failed to create task');
+      setError(getErrorMessage(err, 'Failed to create task'));
     }
   };
 
@@ -98,6 +165,7 @@ export default function DashboardPage() {
     setEditDescription(task.description);
     setEditPriority(task.priority);
     setEditDueDate(task.due_date);
+    setEditTags(task.tags.map((tag) => tag.name));
     setShowEditModal(true);
   };
 
@@ -113,76 +181,84 @@ export default function DashboardPage() {
     }
 
     try {
-      await taskAPI.update(editingTask.id, {
-        title: editTitle,
-        description: editDescription,
-        priority: editPriority,
-        due_date: editDueDate,
+      await updateTask.mutateAsync({
+        id: editingTask.id,
+        changes: {
+          title: editTitle,
+          description: editDescription,
+          priority: editPriority,
+          due_date: editDueDate,
+          tags: editTags,
+        },
       });
 
       setShowEditModal(false);
       setEditingTask(null);
-      fetchTasks();
     } catch (err: unknown) {
-      const error = err as { response?: { data?: { error: string } } };
-      setError(error.response?.data?.error || 'Failed to update task');
+      setError(getErrorMessage(err, 'Failed to update task'));
     }
   };
 
-  const handleUpdateStatus = async (
-    taskId: number,
-    newStatus: 'pending' | 'in_progress' | 'completed'
-  ) => {
-    try {
-      await taskAPI.update(taskId, { status: newStatus });
-      fetchTasks();
-    } catch (_err) {
-      setError('Failed to update task status');
-    }
+  // Optimistic: the cache shows the change immediately and rolls back if the
+  // update fails.
+  const updateOptimistically = (taskId: number, changes: UpdateTaskData, failureMessage: string) => {
+    setError('');
+    updateTask.mutate(
+      { id: taskId, changes },
+      { onError: (err) => setError(getErrorMessage(err, failureMessage)) }
+    );
   };
 
-  const handleDeleteTask = async (taskId: number) => {
+  // Typing updates the input immediately and the URL (and so the server
+  // query) once the user pauses.
+  const handleSearchChange = (value: string) => {
+    setSearchQuery(value);
+    clearTimeout(searchTimer.current);
+    searchTimer.current = setTimeout(() => setQuery({ search: value.trim() }), 300);
+  };
+
+  const clearSearch = () => {
+    clearTimeout(searchTimer.current);
+    setSearchQuery('');
+    setQuery({ search: undefined });
+  };
+
+  const handleUpdateStatus = (taskId: number, newStatus: TaskStatus) =>
+    updateOptimistically(taskId, { status: newStatus }, 'Failed to update task status');
+
+  const handleReschedule = (taskId: number, newDueDate: string) =>
+    updateOptimistically(taskId, { due_date: newDueDate }, 'Failed to reschedule task');
+
+  const handleCreateOnDate = (date: string) => {
+    setDueDate(date);
+    setShowCreateForm(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDeleteTask = (taskId: number) => {
     if (!confirm('Are you sure you want to delete this task?')) return;
 
-    try {
-      await taskAPI.delete(taskId);
-      fetchTasks();
-    } catch (_err) {
-      setError('Failed to delete task');
-    }
+    deleteTask.mutate(taskId, { onError: () => setError('Failed to delete task') });
   };
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     router.push('/login');
   };
 
-  // Filter by status AND search query
-  const filteredTasks = tasks.filter(task => {
-    const matchesStatus = filterStatus === 'all' || task.status === filterStatus;
-    const matchesSearch = task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                         task.description.toLowerCase().includes(searchQuery.toLowerCase());
-    return matchesStatus && matchesSearch;
-  });
+  // Filtering, searching and paging happen on the server; in the list `tasks`
+  // is the current page of matches.
+  const pageIds = tasks.map((task) => task.id);
+  const allOnPageSelected = pageIds.length > 0 && pageIds.every(selection.isSelected);
+  const selecting = selectionMode && viewMode === 'list';
 
   const stats = {
-    total: tasks.length,
-    pending: tasks.filter(t => t.status === 'pending').length,
-    inProgress: tasks.filter(t => t.status === 'in_progress').length,
-    completed: tasks.filter(t => t.status === 'completed').length,
+    total: statusCounts.pending + statusCounts.in_progress + statusCounts.completed,
+    pending: statusCounts.pending,
+    inProgress: statusCounts.in_progress,
+    completed: statusCounts.completed,
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
-        <div className="text-center">
-          <div className="w-16 h-16 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
-          <p className="text-gray-600 font-medium">Loading...</p>
-        </div>
-      </div>
-    );
-  }
-
   if (!user) {
     return null;
   }
@@ -202,6 +278,14 @@ export default function DashboardPage() {
               </p>
             </div>
             <div className="flex items-center gap-3">
+              <SyncStatus realtime={realtimeStatus} />
+              <NotificationCenter />
+              <button
+                onClick={() => router.push('/insights')}
+                className="px-4 py-2 bg-white border-2 border-indigo-200 text-indigo-600 rounded-lg hover:bg-indigo-50 transition-all duration-200 font-medium"
+              >
+                Insights
+              </button>
               {user.role === 'admin' && (
                 <button
                   onClick={() => router.push('/admin')}
@@ -281,13 +365,13 @@ export default function DashboardPage() {
           </div>
         </div>
 
-        {error && (
+        {(error || loadError) && (
           <div className="mb-6 rounded-xl bg-red-50 border border-red-200 p-4 animate-pulse">
             <div className="flex items-center">
               <svg className="w-5 h-5 text-red-600 mr-3" fill="currentColor" viewBox="0 0 20 20">
                 <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
               </svg>
-              <p className="text-sm font-medium text-red-800">{error}</p>
+              <p className="text-sm font-medium text-red-800">{error || loadError}</p>
             </div>
           </div>
         )}
@@ -335,12 +419,11 @@ export default function DashboardPage() {
                 <label className="block text-sm font-semibold text-gray-700 mb-2">
                   Description
                 </label>
-                <textarea
+                <MarkdownEditor
                   className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200"
                   placeholder="Add task description..."
-                  rows={4}
                   value={description}
-                  onChange={(e) => setDescription(e.target.value)}
+                  onChange={setDescription}
                 />
               </div>
 
@@ -373,6 +456,36 @@ export default function DashboardPage() {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Tags
+                </label>
+                <TagInput value={tags} onChange={setTags} />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Assign to
+                </label>
+                <AssigneePicker value={assignee} onChange={setAssignee} />
+              </div>
+
+              <div>
+                <label className="block text-sm font-semibold text-gray-700 mb-2">
+                  Repeat
+                </label>
+                <RecurrenceEditor value={recurrence} onChange={setRecurrence} />
+              </div>
+
+              {dueDate && (
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Reminders
+                  </label>
+                  <ReminderEditor value={reminders} onChange={setReminders} allowDefault />
+                </div>
+              )}
+
               <div className="flex gap-3">
                 <button
                   type="submit"
@@ -412,12 +525,12 @@ export default function DashboardPage() {
               type="text"
               placeholder="Search tasks by title or description..."
               value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              onChange={(e) => handleSearchChange(e.target.value)}
               className="w-full pl-12 pr-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200"
             />
             {searchQuery && (
               <button
-                onClick={() => setSearchQuery('')}
+                onClick={clearSearch}
                 className="absolute right-4 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
               >
                 <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -429,41 +542,124 @@ export default function DashboardPage() {
         </div>
 
 
-        <div className="bg-white rounded-2xl shadow-lg p-2 mb-8 border border-gray-100">
-          <div className="flex flex-wrap gap-2">
-            {(['all', 'pending', 'in_progress', 'completed'] as const).map((status) => (
-              <button
-                key={status}
-                onClick={() => setFilterStatus(status)}
-                className={`px-6 py-2.5 rounded-xl font-semibold transition-all duration-200 ${
-                  filterStatus === status
-                    ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-md'
-                    : 'bg-gray-50 text-gray-600 hover:bg-gray-100'
-                }`}
-              >
-                {status === 'all' ? 'All Tasks' : status.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
-              </button>
-            ))}
+        {/* The board and calendar show every status, so only tags filter them. */}
+        {(viewMode === 'list' || hasTags) && (
+          <div className="bg-white rounded-2xl shadow-lg p-2 mb-8 border border-gray-100">
+            {viewMode === 'list' && (
+              <div className="flex flex-wrap gap-2">
+                {(['all', 'pending', 'in_progress', 'completed'] as const).map((status) => (
+                  <button
+                    key={status}
+                    onClick={() => setQuery({ status: status === 'all' ? undefined : status })}
+                    className={`px-6 py-2.5 rounded-xl font-semibold transition-all duration-200 ${
+                      filterStatus === status
+                        ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-md'
+                        : 'bg-gray-50 text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    {status === 'all' ? 'All Tasks' : status.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                  </button>
+                ))}
+              </div>
+            )}
+            {hasTags && (
+              <div className={`px-2 py-2 ${viewMode === 'list' ? 'mt-2 border-t border-gray-100' : ''}`}>
+                <TagFilter query={query} onChange={setQuery} />
+              </div>
+            )}
           </div>
-        </div>
+        )}
 
 
         <div className="bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
-          <h2 className="text-2xl font-bold text-gray-900 mb-6 flex items-center gap-3">
-            <div className="w-10 h-10 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-lg flex items-center justify-center">
-              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
-              </svg>
+          <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-lg flex items-center justify-center">
+                <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
+                </svg>
+              </div>
+              {relation.heading} {query.search && `(${total} results)`}
+            </h2>
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="flex gap-1 bg-gray-50 rounded-xl p-1" role="group" aria-label="Show">
+                {RELATIONS.map((option) => (
+                  <button
+                    key={option.label}
+                    onClick={() => setQuery({ mine: option.value })}
+                    aria-pressed={relation === option}
+                    className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all duration-200 ${
+                      relation === option ? 'bg-white text-indigo-700 shadow-sm' : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {viewMode === 'list' && (
+                <button
+                  onClick={() => {
+                    setSelectionMode(!selectionMode);
+                    selection.clear();
+                  }}
+                  aria-pressed={selectionMode}
+                  className={`px-4 py-2 rounded-xl text-sm font-semibold transition-all duration-200 ${
+                    selectionMode ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-50 text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  {selectionMode ? 'Done' : 'Select'}
+                </button>
+              )}
+              {/* Exports what the current view lists, every page of it. */}
+              <ExportMenu
+                loadTasks={() => loadAllTasks(viewMode === 'list' ? query : { ...query, status: undefined })}
+                fileName="tasks"
+              />
+              <button
+                onClick={() => setShowImport(true)}
+                className="px-4 py-2 rounded-xl text-sm font-semibold bg-gray-50 text-gray-600 hover:bg-gray-100 transition-all duration-200"
+              >
+                Import
+              </button>
+              <div className="flex gap-1 bg-gray-50 rounded-xl p-1" role="group" aria-label="View">
+                {(['list', 'board', 'calendar'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setViewMode(mode)}
+                    aria-pressed={viewMode === mode}
+                    className={`px-4 py-2 rounded-lg text-sm font-semibold transition-all duration-200 ${
+                      viewMode === mode
+                        ? 'bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-md'
+                        : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    {mode === 'list' ? 'List' : mode === 'board' ? 'Board' : 'Calendar'}
+                  </button>
+                ))}
+              </div>
             </div>
-            My Tasks {searchQuery && `(${filteredTasks.length} results)`}
-          </h2>
+          </div>
+
+          <div className="mb-6">
+            <TaskQueryControls query={query} onChange={setQuery} />
+          </div>
 
-          {tasksLoading ? (
+          {viewMode === 'calendar' ? (
+            // Rendered while loading too: it reports the range to load.
+            <TaskCalendar
+              tasks={tasks}
+              onRangeChange={setCalendarRange}
+              onReschedule={handleReschedule}
+              onCreateOnDate={handleCreateOnDate}
+            />
+          ) : tasksLoading ? (
             <div className="text-center py-12">
               <div className="w-16 h-16 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
               <p className="text-gray-600 font-medium">Loading tasks...</p>
             </div>
-          ) : filteredTasks.length === 0 ? (
+          ) : viewMode === 'board' ? (
+            <TaskBoard tasks={tasks} onMove={handleUpdateStatus} />
+          ) : tasks.length === 0 ? (
             <div className="text-center py-12">
               <div className="w-20 h-20 bg-gradient-to-br from-gray-100 to-gray-200 rounded-full flex items-center justify-center mx-auto mb-4">
                 <svg className="w-10 h-10 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -472,23 +668,48 @@ export default function DashboardPage() {
               </div>
               <p className="text-gray-600 font-medium">No tasks found</p>
               <p className="text-gray-400 text-sm mt-2">
-                {searchQuery ? 'Try adjusting your search criteria' : 'Create your first task to get started!'}
+                {queryString ? 'Try adjusting your search criteria' : 'Create your first task to get started!'}
               </p>
             </div>
           ) : (
             <div className="space-y-4">
-              {filteredTasks.map((task) => (
-                <Link
-                  key={task.id}
-                  href={`/tasks/${task.id}`}
-                  className="border-2 border-gray-100 rounded-xl p-6 hover:shadow-lg hover:border-indigo-200 transition-all duration-300 transform hover:-translate-y-1 bg-gradient-to-br from-white to-gray-50 cursor-pointer block"
-                >
+              {selecting && (
+                <div className="flex flex-wrap items-center gap-3 px-2 text-sm text-gray-600">
+                  <label className="flex items-center gap-2 font-semibold text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={allOnPageSelected}
+                      onChange={(e) => selection.setPage(pageIds, e.target.checked)}
+                      className="w-4 h-4 accent-indigo-600"
+                    />
+                    Select this page
+                  </label>
+                  {selection.all ? (
+                    <span>
+                      All {total} matching tasks are selected.{' '}
+                      <button onClick={selection.clear} className="font-semibold text-indigo-600 hover:text-indigo-700">
+                        Clear selection
+                      </button>
+                    </span>
+                  ) : (
+                    allOnPageSelected &&
+                    total > tasks.length && (
+                      <button onClick={selection.selectAll} className="font-semibold text-indigo-600 hover:text-indigo-700">
+                        Select all {total} matching tasks
+                      </button>
+                    )
+                  )}
+                  <span className="text-gray-400">Shift-click to select a range.</span>
+                </div>
+              )}
+              {tasks.map((task) => {
+                const card = (
                   <div className="flex justify-between items-start">
                     <div className="flex-1">
                       <h3 className="text-xl font-bold text-gray-900 mb-2 hover:text-indigo-600 transition-colors">
                         {task.title}
                       </h3>
-                      <p className="text-gray-600 mb-4 leading-relaxed line-clamp-2">{task.description}</p>
+                      <p className="text-gray-600 mb-4 leading-relaxed line-clamp-2">{markdownExcerpt(task.description)}</p>
                       <div className="flex flex-wrap gap-3">
                         <span
                           className={`px-4 py-1.5 rounded-full text-sm font-semibold ${
@@ -514,20 +735,112 @@ export default function DashboardPage() {
                         </span>
                         {task.due_date && (
                           <span className="px-4 py-1.5 rounded-full text-sm font-semibold bg-purple-100 text-purple-700 border-2 border-purple-200">
-                            📅 {new Date(task.due_date).toLocaleDateString()}
+                            📅 {formatDateKey(task.due_date)}
+                          </span>
+                        )}
+                        {task.subtask_count > 0 && (
+                          <span className="px-4 py-1.5 rounded-full text-sm font-semibold bg-indigo-100 text-indigo-700 border-2 border-indigo-200">
+                            ☑ {task.subtasks_completed}/{task.subtask_count}
+                          </span>
+                        )}
+                        {task.comment_count > 0 && (
+                          <span className="px-4 py-1.5 rounded-full text-sm font-semibold bg-gray-100 text-gray-700 border-2 border-gray-200">
+                            💬 {task.comment_count}
+                          </span>
+                        )}
+                        {task.attachment_count > 0 && (
+                          <span className="px-4 py-1.5 rounded-full text-sm font-semibold bg-gray-100 text-gray-700 border-2 border-gray-200">
+                            📎 {task.attachment_count}
+                          </span>
+                        )}
+                        {task.recurrence && (
+                          <span className="px-4 py-1.5 rounded-full text-sm font-semibold bg-indigo-100 text-indigo-700 border-2 border-indigo-200">
+                            🔁 {describeRecurrence(task.recurrence)}
+                          </span>
+                        )}
+                        {task.user_id !== user.id && (
+                          <span className="px-4 py-1.5 rounded-full text-sm font-semibold bg-sky-100 text-sky-700 border-2 border-sky-200">
+                            ✉ From {task.creator_name || 'another user'}
+                          </span>
+                        )}
+                        {task.assignee_id !== user.id && (
+                          <span className="px-4 py-1.5 rounded-full text-sm font-semibold bg-sky-100 text-sky-700 border-2 border-sky-200">
+                            👤 {task.assignee_name || 'Unassigned'}
                           </span>
                         )}
                       </div>
+                      {task.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-3">
+                          {task.tags.map((tag) => (
+                            <TagChip key={tag.id} tag={tag} />
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
-                </Link>
-              ))}
+                );
+                // In selection mode a click picks the task instead of opening it.
+                return selecting ? (
+                  <label
+                    key={task.id}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      selection.toggle(task.id, pageIds, e.shiftKey);
+                    }}
+                    className={`flex gap-4 border-2 rounded-xl p-6 transition-all duration-200 cursor-pointer select-none ${
+                      selection.isSelected(task.id)
+                        ? 'border-indigo-300 bg-indigo-50/60'
+                        : 'border-gray-100 bg-gradient-to-br from-white to-gray-50 hover:border-indigo-200'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selection.isSelected(task.id)}
+                      readOnly
+                      aria-label={`Select ${task.title}`}
+                      className="mt-1.5 w-5 h-5 shrink-0 accent-indigo-600"
+                    />
+                    <div className="flex-1 min-w-0">{card}</div>
+                  </label>
+                ) : (
+                  <Link
+                    key={task.id}
+                    href={`/tasks/${task.id}`}
+                    className="border-2 border-gray-100 rounded-xl p-6 hover:shadow-lg hover:border-indigo-200 transition-all duration-300 transform hover:-translate-y-1 bg-gradient-to-br from-white to-gray-50 cursor-pointer block"
+                  >
+                    {card}
+                  </Link>
+                );
+              })}
             </div>
           )}
+
+          {!tasksLoading && viewMode === 'list' && total > 0 && (
+            <Pagination
+              page={query.page ?? 1}
+              pageSize={query.page_size ?? DEFAULT_PAGE_SIZE}
+              total={total}
+              onPageChange={(page) => setQuery({ page })}
+              onPageSizeChange={(pageSize) => setQuery({ page_size: pageSize })}
+            />
+          )}
+          {selecting && (
+            <BulkActionBar
+              count={selection.count(total)}
+              target={selection.target()}
+              onDone={selection.select}
+              onClose={() => {
+                setSelectionMode(false);
+                selection.clear();
+              }}
+            />
+          )}
         </div>
       </main>
 
       {/* Edit Modal */}
+      {showImport && <ImportWizard onClose={() => setShowImport(false)} />}
+
       {showEditModal && editingTask && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full animate-fadeIn">
@@ -552,12 +865,11 @@ export default function DashboardPage() {
                   <label className="block text-sm font-semibold text-gray-700 mb-2">
                     Description
                   </label>
-                  <textarea
+                  <MarkdownEditor
                     className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all duration-200"
                     placeholder="Add task description..."
-                    rows={4}
                     value={editDescription}
-                    onChange={(e) => setEditDescription(e.target.value)}
+                    onChange={setEditDescription}
                   />
                 </div>
 
@@ -590,6 +902,13 @@ export default function DashboardPage() {
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">
+                    Tags
+                  </label>
+                  <TagInput value={editTags} onChange={setEditTags} />
+                </div>
+
                 <div className="flex gap-3">
                   <button
                     type="submit"
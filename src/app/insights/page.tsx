@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '../../../contexts/AuthContext';
+import { getErrorMessage, type TaskPriority } from '../../../lib/api';
+import { formatHours, sumByWeek } from '../../../lib/analytics';
+import { parseAnalyticsQuery } from '../../../lib/listQuery';
+import { useInsights } from '../../../lib/queries';
+import { useUrlQuery } from '../../../hooks/useUrlQuery';
+import { useRealtimeUpdates } from '../../../hooks/useRealtimeUpdates';
+import DateRangeControls from '../../../components/DateRangeControls';
+import DistributionBar from '../../../components/DistributionBar';
+import TimelineChart, { type TimelineSeries } from '../../../components/TimelineChart';
+
+const COMPLETED_SERIES: TimelineSeries<'count'>[] = [{ key: 'count', label: 'Completed', className: 'bg-green-500' }];
+const OPEN_SERIES: TimelineSeries<'open'>[] = [{ key: 'open', label: 'Open', className: 'bg-amber-400' }];
+
+const PRIORITIES: { key: TaskPriority; label: string; className: string }[] = [
+  { key: 'high', label: 'High', className: 'bg-gradient-to-r from-red-500 to-pink-500' },
+  { key: 'medium', label: 'Medium', className: 'bg-gradient-to-r from-yellow-400 to-orange-400' },
+  { key: 'low', label: 'Low', className: 'bg-gradient-to-r from-green-400 to-emerald-400' },
+];
+
+const cardClass = 'bg-white rounded-2xl shadow-lg p-6 border border-gray-100';
+
+export default function InsightsPage() {
+  const router = useRouter();
+  const { user, logout } = useAuth();
+  const [range, setRange] = useUrlQuery(parseAnalyticsQuery);
+  const [perWeek, setPerWeek] = useState(false);
+  const { data, isPending, error } = useInsights(range);
+  useRealtimeUpdates();
+
+  const handleLogout = async () => {
+    await logout();
+    router.push('/login');
+  };
+
+  if (!user) {
+    return null;
+  }
+
+  const daily = data?.days.map((day) => ({ date: day.date, count: day.completed })) ?? [];
+  const completed = daily.reduce((sum, day) => sum + day.count, 0);
+  const dated = data ? data.punctuality.on_time + data.punctuality.late : 0;
+  const maxCycle = Math.max(1, ...PRIORITIES.map((p) => data?.cycle_hours[p.key] ?? 0));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      {/* Header */}
+      <header className="bg-white/80 backdrop-blur-md shadow-sm border-b border-gray-100 sticky top-0 z-40">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex justify-between items-center">
+            <button
+              onClick={() => router.push('/dashboard')}
+              className="flex items-center gap-2 text-indigo-600 hover:text-indigo-700 font-medium"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+              Back to Dashboard
+            </button>
+            <button
+              onClick={handleLogout}
+              className="px-4 py-2 bg-white border-2 border-red-200 text-red-600 rounded-lg hover:bg-red-50 transition-all duration-200 font-medium"
+            >
+              Logout
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Your Insights</h1>
+            <p className="text-sm text-gray-600 mt-1">From the tasks assigned to you and their history.</p>
+          </div>
+          <DateRangeControls range={range} applied={data} onChange={({ from, to }) => setRange({ from, to })} />
+        </div>
+
+        {error && (
+          <div className="rounded-xl bg-red-50 border border-red-200 p-4">
+            <p className="text-sm font-medium text-red-800">{getErrorMessage(error, 'Failed to load insights')}</p>
+          </div>
+        )}
+
+        {isPending ? (
+          <p className="text-gray-600 font-medium">Loading...</p>
+        ) : (
+          data && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                {[
+                  { label: 'Current streak', value: `${data.streak.current} day${data.streak.current === 1 ? '' : 's'}` },
+                  { label: 'Longest streak', value: `${data.streak.longest} day${data.streak.longest === 1 ? '' : 's'}` },
+                  { label: 'Completed', value: completed },
+                  {
+                    label: 'On time',
+                    value: dated === 0 ? '—' : `${Math.round((data.punctuality.on_time / dated) * 100)}%`,
+                  },
+                ].map((stat) => (
+                  <div key={stat.label} className={cardClass}>
+                    <p className="text-sm font-medium text-gray-600">{stat.label}</p>
+                    <p className="text-3xl font-bold text-gray-900 mt-2">{stat.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className={cardClass}>
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-lg font-semibold text-gray-900">Completed per {perWeek ? 'week' : 'day'}</h2>
+                  <div className="flex rounded-lg border-2 border-gray-200 overflow-hidden text-sm font-medium">
+                    {[false, true].map((weekly) => (
+                      <button
+                        key={String(weekly)}
+                        onClick={() => setPerWeek(weekly)}
+                        aria-pressed={perWeek === weekly}
+                        className={`px-3 py-1 ${perWeek === weekly ? 'bg-indigo-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+                      >
+                        {weekly ? 'Week' : 'Day'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <TimelineChart
+                  days={perWeek ? sumByWeek(daily) : daily}
+                  series={COMPLETED_SERIES}
+                  unit={perWeek ? 'week' : 'day'}
+                />
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-6">
+                <div className={cardClass}>
+                  <h2 className="text-lg font-semibold text-gray-900 mb-4">On time vs. late</h2>
+                  <DistributionBar
+                    segments={[
+                      { key: 'on_time', label: 'By the due date', value: data.punctuality.on_time, className: 'bg-green-500' },
+                      { key: 'late', label: 'After the due date', value: data.punctuality.late, className: 'bg-red-500' },
+                      { key: 'undated', label: 'No due date', value: data.punctuality.undated, className: 'bg-gray-300' },
+                    ]}
+                  />
+                </div>
+
+                <div className={cardClass}>
+                  <h2 className="text-lg font-semibold text-gray-900 mb-4">Average cycle time</h2>
+                  <p className="text-xs text-gray-500 mb-4">From creation to completion, by priority.</p>
+                  <ul className="space-y-3">
+                    {PRIORITIES.map((priority) => {
+                      const hours = data.cycle_hours[priority.key];
+                      return (
+                        <li key={priority.key} className="flex items-center gap-3 text-sm">
+                          <span className="w-16 text-gray-700">{priority.label}</span>
+                          <span className="flex-1 h-4 bg-gray-100 rounded">
+                            <span
+                              style={{ width: `${((hours ?? 0) / maxCycle) * 100}%` }}
+                              className={`block h-full rounded ${priority.className}`}
+                            />
+                          </span>
+                          <span className="w-20 text-right font-semibold text-gray-900">
+                            {hours === null ? '—' : formatHours(hours)}
+                          </span>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              </div>
+
+              <div className={cardClass}>
+                <h2 className="text-lg font-semibold text-gray-900 mb-1">Burndown</h2>
+                <p className="text-xs text-gray-500 mb-4">Tasks still open at the end of each day.</p>
+                <TimelineChart days={data.days} series={OPEN_SERIES} />
+              </div>
+            </>
+          )
+        )}
+      </main>
+    </div>
+  );
+}
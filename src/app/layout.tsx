@@ -1,5 +1,7 @@
 import type { Metadata } from 'next';
 import { AuthProvider } from '../../contexts/AuthContext';
+import { QueryProvider } from '../../contexts/QueryProvider';
+import { getSessionUser } from '../../lib/server/session';
 import './globals.css';
 
 export const metadata: Metadata = {
@@ -7,15 +9,19 @@ export const metadata: Metadata = {
   description: 'Manage your tasks efficiently',
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const user = await getSessionUser();
+
   return (
     <html lang="en">
       <body>
-        <AuthProvider>{children}</AuthProvider>
+        <QueryProvider>
+          <AuthProvider initialUser={user}>{children}</AuthProvider>
+        </QueryProvider>
       </body>
     </html>
   );
@@ -4,15 +4,18 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '../../../../contexts/AuthContext';
-import { authAPI } from '../../../../lib/api';
+import { getErrorCode, getErrorMessage } from '../../../../lib/api';
 
 export default function AdminLoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  // Set once the backend asks for a new password after an admin reset it.
+  const [resetNotice, setResetNotice] = useState('');
+  const [newPassword, setNewPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const router = useRouter();
-  const { login } = useAuth();
+  const { login, logout } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -20,20 +23,22 @@ export default function AdminLoginPage() {
     setLoading(true);
 
     try {
-      const response = await authAPI.login(email, password);
+      const loggedIn = await login(email, password, resetNotice ? newPassword : undefined);
 
       // Cek apakah user adalah admin
-      if (response.data.user.role !== 'admin') {
+      if (loggedIn.role !== 'admin') {
+        await logout();
         setError('This account is not an admin. Please use user login.');
-        setLoading(false);
         return;
       }
 
-      await login(email, password);
       router.push('/admin');
     } catch (err: unknown) {
-      const error = err as { response?: { data?: { error: string } } };
-      setError(error.response?.data?.error || 'Login failed');
+      if (getErrorCode(err) === 'password_reset_required') {
+        setResetNotice(getErrorMessage(err, 'Choose a new password to sign in.'));
+        return;
+      }
+      setError(getErrorMessage(err, 'Login failed'));
     } finally {
       setLoading(false);
     }
@@ -58,6 +63,12 @@ export default function AdminLoginPage() {
             </div>
           )}
 
+          {resetNotice && !error && (
+            <div className="rounded-md bg-yellow-50 p-4">
+              <p className="text-sm font-medium text-yellow-800">{resetNotice}</p>
+            </div>
+          )}
+
           <div className="rounded-md shadow-sm -space-y-px">
             <div>
               <label htmlFor="email" className="sr-only">
@@ -91,6 +102,26 @@ export default function AdminLoginPage() {
             </div>
           </div>
 
+          {resetNotice && (
+            <div>
+              <label htmlFor="new-password" className="block text-sm font-medium text-gray-700 mb-1">
+                New password
+              </label>
+              <input
+                id="new-password"
+                name="new-password"
+                type="password"
+                autoComplete="new-password"
+                required
+                minLength={6}
+                className="appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-purple-500 focus:border-purple-500 sm:text-sm"
+                placeholder="At least 6 characters"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+              />
+            </div>
+          )}
+
           <div>
             <button
               type="submit"
@@ -1,15 +1,38 @@
 'use client';
 
-import { useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { Eye, EyeOff } from 'lucide-react';
 import { useAuth } from '../../../contexts/AuthContext';
-import { authAPI } from '../../../lib/api';
+import { getErrorCode, getErrorMessage } from '../../../lib/api';
+
+// Only paths on this origin are accepted so the login page can't be used as
+// an open redirect. Browsers read `/\evil.com` like `//evil.com` and drop tabs
+// and newlines from URLs, so backslashes and control characters are refused
+// outright and what's left must still resolve to this origin.
+function safeReturnTo(value: string | null) {
+  if (!value || !value.startsWith('/') || /[\\\u0000-\u001f\u007f]/.test(value)) return null;
+  const url = new URL(value, window.location.origin);
+  return url.origin === window.location.origin ? url.pathname + url.search + url.hash : null;
+}
 
 export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
+
+function LoginForm() {
+  const searchParams = useSearchParams();
+  const sessionExpired = searchParams.get('reason') === 'session_expired';
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  // Set once the backend asks for a new password after an admin reset it.
+  const [resetNotice, setResetNotice] = useState('');
+  const [newPassword, setNewPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
@@ -22,17 +45,22 @@ export default function LoginPage() {
     setLoading(true);
 
     try {
-      const response = await authAPI.login(email, password);
-      await login(email, password);
+      const loggedIn = await login(email, password, resetNotice ? newPassword : undefined);
+      const returnTo = safeReturnTo(searchParams.get('returnTo'));
 
-      if (response.data.user.role === 'admin') {
+      if (returnTo) {
+        router.push(returnTo);
+      } else if (loggedIn.role === 'admin') {
         router.push('/admin');
       } else {
         router.push('/dashboard');
       }
     } catch (err: unknown) {
-      const error = err as { response?: { data?: { error: string } } };
-      setError(error.response?.data?.error || 'Login failed');
+      if (getErrorCode(err) === 'password_reset_required') {
+        setResetNotice(getErrorMessage(err, 'Choose a new password to sign in.'));
+        return;
+      }
+      setError(getErrorMessage(err, 'Login failed'));
     } finally {
       setLoading(false);
     }
@@ -51,12 +79,26 @@ export default function LoginPage() {
         </div>
 
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          {sessionExpired && !error && (
+            <div className="rounded-md bg-yellow-50 p-4">
+              <p className="text-sm font-medium text-yellow-800">
+                Your session has expired. Please sign in again.
+              </p>
+            </div>
+          )}
+
           {error && (
             <div className="rounded-md bg-red-50 p-4">
               <p className="text-sm font-medium text-red-800">{error}</p>
             </div>
           )}
 
+          {resetNotice && !error && (
+            <div className="rounded-md bg-yellow-50 p-4">
+              <p className="text-sm font-medium text-yellow-800">{resetNotice}</p>
+            </div>
+          )}
+
           <div className="rounded-md shadow-sm -space-y-px">
             <div>
               <label htmlFor="email" className="sr-only">
@@ -101,6 +143,26 @@ export default function LoginPage() {
             </div>
           </div>
 
+          {resetNotice && (
+            <div>
+              <label htmlFor="new-password" className="block text-sm font-medium text-gray-700 mb-1">
+                New password
+              </label>
+              <input
+                id="new-password"
+                name="new-password"
+                type="password"
+                autoComplete="new-password"
+                required
+                minLength={6}
+                className="appearance-none relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                placeholder="At least 6 characters"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+              />
+            </div>
+          )}
+
           <div>
             <button
               type="submit"
@@ -1,31 +1,11 @@
-'use client';
+import { redirect } from 'next/navigation';
+import { getSessionUser } from '../../lib/server/session';
 
-import { useEffect } from 'react';
-import { useRouter } from 'next/navigation';
-import { useAuth } from '../../contexts/AuthContext';
+export default async function Home() {
+  const user = await getSessionUser();
 
-export default function Home() {
-  const router = useRouter();
-  const { user, loading } = useAuth();
-
-  useEffect(() => {
-    if (!loading) {
-      if (user) {
-      
-        if (user.role === 'admin') {
-          router.push('/admin');
-        } else {
-          router.push('/dashboard');
-        }
-      } else {
-        router.push('/login');
-      }
-    }
-  }, [user, loading, router]);
-
-  return (
-    <div className="flex items-center justify-center min-h-screen">
-      <p>Loading...</p>
-    </div>
-  );
+  if (!user) {
+    redirect('/login');
+  }
+  redirect(user.role === 'admin' ? '/admin' : '/dashboard');
 }
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { Eye, EyeOff } from 'lucide-react';
 import { useAuth } from '../../../contexts/AuthContext';
+import { getErrorMessage } from '../../../lib/api';
 
 export default function RegisterPage() {
   const [email, setEmail] = useState('');
@@ -25,8 +26,7 @@ export default function RegisterPage() {
       await register(email, password, name);
       router.push('/dashboard');
     } catch (err: unknown) {
-      const error = err as { response?: { data?: { error: string } } };
-      setError(error.response?.data?.error || 'Registration failed');
+      setError(getErrorMessage(err, 'Registration failed'));
     } finally {
       setLoading(false);
     }
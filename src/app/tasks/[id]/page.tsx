@@ -1,29 +1,36 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { useAuth } from '../../../../contexts/AuthContext';
-import { taskAPI } from '../../../../lib/api';
-
-interface Task {
-  id: number;
-  user_id: number;
-  title: string;
-  description: string;
-  status: 'pending' | 'in_progress' | 'completed';
-  priority: 'low' | 'medium' | 'high';
-  due_date: string;
-  created_at: string;
-}
+import { getErrorMessage, type Recurrence, type Reminder, type TaskStatus, type UpdateScope } from '../../../../lib/api';
+import { useAdminAssignTask, useDeleteTask, useTask, useUpdateTask } from '../../../../lib/queries';
+import { useRealtimeUpdates } from '../../../../hooks/useRealtimeUpdates';
+import AssigneePicker, { type Assignee } from '../../../../components/AssigneePicker';
+import Markdown from '../../../../components/Markdown';
+import MarkdownEditor from '../../../../components/MarkdownEditor';
+import SubtaskChecklist from '../../../../components/SubtaskChecklist';
+import RecurrenceEditor from '../../../../components/RecurrenceEditor';
+import ReminderEditor from '../../../../components/ReminderEditor';
+import TagChip from '../../../../components/TagChip';
+import TagInput from '../../../../components/TagInput';
+import TaskActivity from '../../../../components/TaskActivity';
+import TaskAttachments from '../../../../components/TaskAttachments';
+import TaskComments from '../../../../components/TaskComments';
+import TaskSeries from '../../../../components/TaskSeries';
 
 export default function TaskDetailPage() {
   const router = useRouter();
   const params = useParams();
   const taskId = params.id as string;
-  const { user, logout, loading: authLoading } = useAuth();
+  const { user, logout, isAdmin } = useAuth();
+
+  const { data: task, isPending: loading, error: loadError } = useTask(parseInt(taskId));
+  const updateTask = useUpdateTask();
+  const deleteTask = useDeleteTask();
+  const assignTask = useAdminAssignTask();
+  useRealtimeUpdates();
 
-  const [task, setTask] = useState<Task | null>(null);
-  const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [isEditing, setIsEditing] = useState(false);
 
@@ -31,33 +38,23 @@ export default function TaskDetailPage() {
   const [editDescription, setEditDescription] = useState('');
   const [editPriority, setEditPriority] = useState<'low' | 'medium' | 'high'>('medium');
   const [editDueDate, setEditDueDate] = useState('');
+  const [editTags, setEditTags] = useState<string[]>([]);
+  const [editRecurrence, setEditRecurrence] = useState<Recurrence | null>(null);
+  const [editReminders, setEditReminders] = useState<Reminder[] | null>(null);
+  const [editScope, setEditScope] = useState<UpdateScope>('this');
 
-  useEffect(() => {
-    if (!authLoading && !user) {
-      router.push('/login');
-    }
-  }, [user, authLoading, router]);
-
-  useEffect(() => {
-    if (user) {
-      fetchTask();
-    }
-  }, [user, taskId]);
+  const startEditing = () => {
+    if (!task) return;
 
-  const fetchTask = async () => {
-    try {
-      setLoading(true);
-      const response = await taskAPI.getById(parseInt(taskId));
-      setTask(response.data);
-      setEditTitle(response.data.title);
-      setEditDescription(response.data.description);
-      setEditPriority(response.data.priority);
-      setEditDueDate(response.data.due_date);
-    } catch (_err) {
-      setError('Failed to load task details');
-    } finally {
-      setLoading(false);
-    }
+    setEditTitle(task.title);
+    setEditDescription(task.description);
+    setEditPriority(task.priority);
+    setEditDueDate(task.due_date);
+    setEditTags(task.tags.map((tag) => tag.name));
+    setEditRecurrence(task.recurrence);
+    setEditReminders(task.reminders);
+    setEditScope('this');
+    setIsEditing(true);
   };
 
   const handleSaveEdit = async () => {
@@ -71,29 +68,56 @@ export default function TaskDetailPage() {
     }
 
     try {
-      await taskAPI.update(task.id, {
-        title: editTitle,
-        description: editDescription,
-        priority: editPriority,
-        due_date: editDueDate,
+      await updateTask.mutateAsync({
+        id: task.id,
+        changes: {
+          title: editTitle,
+          description: editDescription,
+          priority: editPriority,
+          due_date: editDueDate,
+          tags: editTags,
+          // The rule belongs to the whole series, so it's only sent when changed.
+          ...(JSON.stringify(editRecurrence) !== JSON.stringify(task.recurrence) && { recurrence: editRecurrence }),
+          reminders: editReminders,
+        },
+        scope: editScope,
       });
 
       setIsEditing(false);
-      fetchTask();
     } catch (err: unknown) {
-      const error = err as { response?: { data?: { error: string } } };
-      setError(error.response?.data?.error || 'Failed to update task');
+      setError(getErrorMessage(err, 'Failed to update task'));
     }
   };
 
-  const handleUpdateStatus = async (newStatus: 'pending' | 'in_progress' | 'completed') => {
+  const handleUpdateStatus = (newStatus: TaskStatus) => {
     if (!task) return;
 
-    try {
-      await taskAPI.update(task.id, { status: newStatus });
-      fetchTask();
-    } catch (_err) {
-      setError('Failed to update status');
+    updateTask.mutate(
+      { id: task.id, changes: { status: newStatus } },
+      { onError: () => setError('Failed to update status') }
+    );
+  };
+
+  // Ticking a `- [ ]` item in the description saves the description with it toggled.
+  const handleToggleChecklist = (description: string) => {
+    if (!task) return;
+
+    updateTask.mutate(
+      { id: task.id, changes: { description } },
+      { onError: (err) => setError(getErrorMessage(err, 'Failed to update task')) }
+    );
+  };
+
+  // Admins reassign tasks they take no part in through the admin API.
+  const handleAssign = (assignee: Assignee) => {
+    if (!task) return;
+
+    setError('');
+    const onError = (err: unknown) => setError(getErrorMessage(err, 'Failed to assign task'));
+    if (task.user_id === user?.id || task.assignee_id === user?.id) {
+      updateTask.mutate({ id: task.id, changes: { assignee_id: assignee.id } }, { onError });
+    } else {
+      assignTask.mutate({ id: task.id, assigneeId: assignee.id }, { onError });
     }
   };
 
@@ -103,19 +127,19 @@ export default function TaskDetailPage() {
     if (!task) return;
 
     try {
-      await taskAPI.delete(task.id);
+      await deleteTask.mutateAsync(task.id);
       router.push('/dashboard');
     } catch (_err) {
       setError('Failed to delete task');
     }
   };
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     router.push('/login');
   };
 
-  if (authLoading || loading) {
+  if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
         <div className="text-center">
@@ -126,22 +150,33 @@ export default function TaskDetailPage() {
     );
   }
 
+  // A deleted task's history is still readable, so show it under the message.
   if (!task) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
-        <div className="text-center">
-          <p className="text-gray-600 font-medium mb-4">Task not found</p>
+        <div className="text-center w-full max-w-2xl px-4">
+          <p className="text-gray-600 font-medium mb-4">
+            {loadError ? getErrorMessage(loadError, 'Failed to load task details') : 'Task not found'}
+          </p>
           <button
             onClick={() => router.push('/dashboard')}
             className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
           >
             Back to Dashboard
           </button>
+          <div className="mt-8 text-left">
+            <TaskActivity taskId={parseInt(taskId)} />
+          </div>
         </div>
       </div>
     );
   }
 
+  // Admins can open anyone's task to moderate its comments and reassign it,
+  // but only its creator and assignee edit it, and only the creator deletes it.
+  const isCreator = task.user_id === user?.id;
+  const canEdit = isCreator || task.assignee_id === user?.id;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
       {/* Header */}
@@ -195,28 +230,32 @@ export default function TaskDetailPage() {
                 <h1 className="text-3xl font-bold text-gray-900">{task.title}</h1>
               )}
             </div>
-            <div className="flex gap-2 ml-4">
-              {!isEditing && (
-                <button
-                  onClick={() => setIsEditing(true)}
-                  className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200 border-2 border-transparent hover:border-blue-200"
-                  title="Edit task"
-                >
-                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                  </svg>
-                </button>
-              )}
-              <button
-                onClick={handleDeleteTask}
-                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200 border-2 border-transparent hover:border-red-200"
-                title="Delete task"
-              >
-                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                </svg>
-              </button>
-            </div>
+            {canEdit && (
+              <div className="flex gap-2 ml-4">
+                {!isEditing && (
+                  <button
+                    onClick={startEditing}
+                    className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-all duration-200 border-2 border-transparent hover:border-blue-200"
+                    title="Edit task"
+                  >
+                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                    </svg>
+                  </button>
+                )}
+                {isCreator && (
+                  <button
+                    onClick={handleDeleteTask}
+                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-all duration-200 border-2 border-transparent hover:border-red-200"
+                    title="Delete task"
+                  >
+                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                )}
+              </div>
+            )}
           </div>
 
           {/* Status and Priority */}
@@ -225,6 +264,7 @@ export default function TaskDetailPage() {
               <label className="block text-sm font-semibold text-gray-700 mb-2">Status</label>
               <select
                 value={task.status}
+                disabled={!canEdit}
                 onChange={(e) => handleUpdateStatus(e.target.value as 'pending' | 'in_progress' | 'completed')}
                 className={`px-4 py-2 rounded-lg text-sm font-semibold border-2 cursor-pointer transition-all ${
                   task.status === 'completed'
@@ -290,24 +330,91 @@ export default function TaskDetailPage() {
             )}
           </div>
 
+          {/* People */}
+          <div className="flex flex-wrap items-end gap-4 mb-8">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Created by</label>
+              <span className="px-4 py-2 bg-gray-50 text-gray-700 border-2 border-gray-200 rounded-lg text-sm font-semibold inline-block">
+                {isCreator ? 'You' : task.creator_name}
+              </span>
+            </div>
+            <div className="w-72">
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Assignee</label>
+              <AssigneePicker
+                value={{ id: task.assignee_id, name: task.assignee_name }}
+                onChange={handleAssign}
+                disabled={!canEdit && !isAdmin}
+              />
+            </div>
+          </div>
+
+          {/* Tags */}
+          {(isEditing || task.tags.length > 0) && (
+            <div className="mb-8">
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Tags</label>
+              {isEditing ? (
+                <TagInput value={editTags} onChange={setEditTags} />
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {task.tags.map((tag) => (
+                    <TagChip key={tag.id} tag={tag} />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {isEditing && (
+            <div className="mb-8">
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Repeat</label>
+              <RecurrenceEditor value={editRecurrence} onChange={setEditRecurrence} />
+            </div>
+          )}
+
+          {canEdit && (isEditing ? editDueDate : task.due_date) && (
+            <div className="mb-8">
+              <label className="block text-sm font-semibold text-gray-700 mb-2">Reminders</label>
+              {isEditing ? (
+                <ReminderEditor value={editReminders} onChange={setEditReminders} allowDefault />
+              ) : (
+                <ReminderEditor value={task.reminders} allowDefault readOnly />
+              )}
+            </div>
+          )}
+
           {/* Description */}
           <div className="mb-8">
             <label className="block text-sm font-semibold text-gray-700 mb-3">Description</label>
             {isEditing ? (
-              <textarea
+              <MarkdownEditor
                 value={editDescription}
-                onChange={(e) => setEditDescription(e.target.value)}
+                onChange={setEditDescription}
                 className="w-full px-4 py-3 border-2 border-indigo-500 rounded-xl text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
                 rows={6}
                 placeholder="Task description..."
               />
+            ) : task.description ? (
+              <Markdown
+                className="text-gray-600 leading-relaxed bg-gray-50 rounded-lg p-4"
+                onChange={canEdit ? handleToggleChecklist : undefined}
+              >
+                {task.description}
+              </Markdown>
             ) : (
-              <p className="text-gray-600 whitespace-pre-wrap leading-relaxed bg-gray-50 rounded-lg p-4">
-                {task.description || 'No description provided'}
-              </p>
+              <p className="text-gray-600 leading-relaxed bg-gray-50 rounded-lg p-4">No description provided</p>
             )}
           </div>
 
+          <TaskSeries task={task} />
+
+          <SubtaskChecklist task={task} readOnly={!canEdit} />
+
+          <TaskAttachments task={task} />
+
+          <TaskComments taskId={task.id} />
+
+          <TaskActivity taskId={task.id} />
+
           {/* Metadata */}
           <div className="grid grid-cols-2 gap-6 py-6 border-t border-gray-200">
             <div>
@@ -329,6 +436,26 @@ export default function TaskDetailPage() {
           </div>
 
           {/* Edit Actions */}
+          {isEditing && task.series_id !== null && (
+            <fieldset className="mt-8 pt-6 border-t border-gray-200">
+              <legend className="text-sm font-semibold text-gray-700 mb-2">This task repeats. Apply changes to</legend>
+              <div className="flex flex-wrap gap-6 text-sm text-gray-700">
+                {(['this', 'future'] as const).map((scope) => (
+                  <label key={scope} className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="scope"
+                      checked={editScope === scope}
+                      onChange={() => setEditScope(scope)}
+                      className="accent-indigo-600"
+                    />
+                    {scope === 'this' ? 'This occurrence only' : 'This and all future occurrences'}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-2">Changes to how the task repeats always apply to the whole series.</p>
+            </fieldset>
+          )}
           {isEditing && (
             <div className="flex gap-3 mt-8 pt-6 border-t border-gray-200">
               <button
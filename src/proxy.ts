@@ -0,0 +1,55 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import {
+  REFRESH_TOKEN_COOKIE,
+  TOKEN_COOKIE,
+  fetchSessionUser,
+  refreshSession,
+  setSessionCookies,
+  type SessionTokens,
+} from '../lib/server/session';
+
+// Route protection (the "middleware" file convention, named proxy.ts since
+// Next.js 16). Pages behind the matcher are only rendered for a valid
+// session, and /admin only for admins.
+export async function proxy(request: NextRequest) {
+  let token = request.cookies.get(TOKEN_COOKIE)?.value;
+  let user = token ? await fetchSessionUser(token) : null;
+  let refreshed: SessionTokens | null = null;
+
+  if (!user) {
+    const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+    refreshed = refreshToken ? await refreshSession(refreshToken) : null;
+    if (refreshed) {
+      token = refreshed.token;
+      user = await fetchSessionUser(token);
+    }
+  }
+
+  if (!user) {
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('returnTo', request.nextUrl.pathname + request.nextUrl.search);
+    if (token) {
+      loginUrl.searchParams.set('reason', 'session_expired');
+    }
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (request.nextUrl.pathname.startsWith('/admin') && user.role !== 'admin') {
+    return NextResponse.redirect(new URL('/dashboard', request.url));
+  }
+
+  if (!refreshed) {
+    return NextResponse.next();
+  }
+
+  // Hand the new token to this render as well as to the browser, so the root
+  // layout does not resolve the user from the expired one.
+  request.cookies.set(TOKEN_COOKIE, refreshed.token);
+  const response = NextResponse.next({ request });
+  setSessionCookies(response, refreshed);
+  return response;
+}
+
+export const config = {
+  matcher: ['/dashboard/:path*', '/tasks/:path*', '/insights/:path*', '/admin/:path*'],
+};